@@ -6,6 +6,8 @@ const { sequelize, DataTypes } = require('../../config/sequelize');
 // const User = require('../models/user.model')(sequelize, DataTypes);
 const CryptoJS = require("crypto-js");
 const User = require("../models/user.model");
+const notifications = require("../models/notification.model");
+const notificationService = require("../services/notificationService");
 const dotenv = require('dotenv');
 //const { sign } = require("jsonwebtoken");
 // const Node_id = require("../models/")(sequelize, DataTypes);
@@ -1289,5 +1291,75 @@ exports.markNotificationRead = (async (req, res) => {
             }
         }
     }
+    notificationService.getUserId(req.user.data)
+        .then(userId => notificationService.publishUnreadCount(userId))
+        .catch(err => console.error('Error publishing notification count:', err.message));
     res.send({ data: updateQuery });
 })
+
+// Latest notifications of the logged-in user, each with an unread flag
+exports.getRecentNotifications = (async (req, res) => {
+    try {
+        const scope = await notificationService.getUserScope(req.user.data);
+        const [data, count] = await Promise.all([
+            notificationService.getRecentNotifications(scope),
+            notificationService.getUnreadCount(scope)
+        ]);
+        res.json({ data, count });
+    } catch (err) {
+        console.error('Error fetching notifications:', err);
+        res.status(500).json({ error: 'Failed to fetch notifications', message: err.message });
+    }
+});
+
+// Marks a single notification as read (markNotificationRead marks all of them)
+exports.markOneNotificationRead = (async (req, res) => {
+    try {
+        const scope = await notificationService.getUserScope(req.user.data);
+        const found = await notificationService.markNotificationRead(scope, req.params.id);
+        if (!found) {
+            return res.status(404).json({ error: 'Notification not found', message: `No notification with id ${req.params.id}` });
+        }
+        res.json({ count: await notificationService.getUnreadCount(scope) });
+    } catch (err) {
+        console.error('Error marking notification as read:', err);
+        res.status(500).json({ error: 'Failed to mark notification as read', message: err.message });
+    }
+});
+
+// Server-sent events: 'notification' for each new notification and 'count'
+// whenever the unread count changes (EventSource passes the token as
+// ?authorization=, it cannot set headers)
+exports.streamNotifications = (async (req, res) => {
+    let scope;
+    try {
+        scope = await notificationService.getUserScope(req.user.data);
+    } catch (err) {
+        console.error('Error opening notification stream:', err);
+        return res.status(500).json({ error: 'Failed to open notification stream', message: err.message });
+    }
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+
+    const send = (type, data) => res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    const unsubscribe = notificationService.subscribe(scope, event => send(event.type, event.data));
+
+    // Comments keep proxies from closing an idle connection
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 25000);
+
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+    });
+
+    try {
+        send('count', { count: await notificationService.getUnreadCount(scope) });
+    } catch (err) {
+        console.error('Error counting notifications:', err.message);
+    }
+});
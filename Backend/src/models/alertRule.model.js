@@ -0,0 +1,74 @@
+const { DataTypes } = require("sequelize");
+const sequelize = require("../database/db.config");
+
+// Threshold alert rules, evaluated by the alert scheduler
+const AlertRule = sequelize.define(
+  "AlertRule",
+  {
+    owner: {
+      type: DataTypes.STRING, // Username of the creator
+      allowNull: false,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    enabled: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    indexPattern: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    savedSearchId: {
+      type: DataTypes.INTEGER, // Saved search whose filters select the documents
+      allowNull: false,
+    },
+    windowMinutes: {
+      type: DataTypes.INTEGER, // Documents of the last N minutes are counted
+      allowNull: false,
+    },
+    metric: {
+      type: DataTypes.ENUM("count", "cardinality"),
+      allowNull: false,
+      defaultValue: "count",
+    },
+    metricField: {
+      type: DataTypes.STRING, // Field of the unique count (cardinality only)
+      allowNull: true,
+    },
+    threshold: {
+      type: DataTypes.INTEGER, // Alert when the metric is above this value
+      allowNull: false,
+    },
+    groupBy: {
+      type: DataTypes.STRING, // Optional field evaluated per value (e.g. siem_sourceip)
+      allowNull: true,
+    },
+    lastCheckedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    lastTriggeredAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    lastError: {
+      type: DataTypes.STRING, // Why the last evaluation failed, null when it succeeded
+      allowNull: true,
+    },
+  },
+  {
+    timestamps: true, // Adds createdAt & updatedAt
+    indexes: [
+      {
+        unique: true,
+        fields: ["owner", "name"],
+      },
+    ],
+  }
+);
+
+module.exports = AlertRule;
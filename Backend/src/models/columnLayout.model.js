@@ -0,0 +1,41 @@
+const { DataTypes } = require("sequelize");
+const sequelize = require("../database/db.config");
+
+// Named data table column layouts, saved per user and per index
+const ColumnLayout = sequelize.define(
+  "ColumnLayout",
+  {
+    username: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    indexPattern: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    columns: {
+      type: DataTypes.JSON, // Array of { field, width, formatter }
+      allowNull: false,
+      defaultValue: [],
+    },
+    isDefault: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: false,
+    },
+  },
+  {
+    timestamps: true, // Adds createdAt & updatedAt
+    indexes: [
+      {
+        unique: true,
+        fields: ["username", "indexPattern", "name"],
+      },
+    ],
+  }
+);
+
+module.exports = ColumnLayout;
@@ -0,0 +1,47 @@
+const { DataTypes } = require("sequelize");
+const sequelize = require("../database/db.config");
+const User = require("./user.model");
+
+// Admin notifications (node up/down, new users, threshold alerts)
+const Notification = sequelize.define(
+  "notifications",
+  {
+    node_id: {
+      type: DataTypes.INTEGER, // Node the notification is about, null for alerts
+      allowNull: true,
+    },
+    notification_type: {
+      type: DataTypes.STRING, // 'node_down', 'node_up', 'threshold_alert', ...
+      allowNull: false,
+    },
+    notification_read_users: {
+      type: DataTypes.STRING, // Comma-separated ids of the users who have not read it yet
+      allowNull: true,
+    },
+    message: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    details: {
+      type: DataTypes.JSON, // e.g. { ruleId, breaches } for threshold alerts
+      allowNull: true,
+    },
+    user_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    admin_user_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+  },
+  {
+    tableName: "notifications",
+    timestamps: true, // Adds createdAt & updatedAt
+  }
+);
+
+Notification.belongsTo(User, { foreignKey: "user_id" });
+Notification.belongsTo(User, { as: "admin_user", foreignKey: "admin_user_id" });
+
+module.exports = Notification;
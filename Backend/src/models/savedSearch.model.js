@@ -0,0 +1,62 @@
+const { DataTypes } = require("sequelize");
+const sequelize = require("../database/db.config");
+
+// Saved dashboard searches (filters, time range, columns and sort)
+const SavedSearch = sequelize.define(
+  "SavedSearch",
+  {
+    owner: {
+      type: DataTypes.STRING, // Username of the creator
+      allowNull: false,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    visibility: {
+      type: DataTypes.ENUM("private", "team"),
+      allowNull: false,
+      defaultValue: "private",
+    },
+    indexPattern: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    filterState: {
+      type: DataTypes.JSON, // { filters, groups, customLabel }
+      allowNull: false,
+    },
+    queryDSL: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    timeRange: {
+      type: DataTypes.JSON, // { from, to } as entered (date math or ISO dates)
+      allowNull: true,
+    },
+    columns: {
+      type: DataTypes.JSON, // Array of { field, width, formatter }, empty for the default columns
+      allowNull: false,
+      defaultValue: [],
+    },
+    sort: {
+      type: DataTypes.JSON, // [field, 'asc' | 'desc'], null for the default sort
+      allowNull: true,
+    },
+  },
+  {
+    timestamps: true, // Adds createdAt & updatedAt
+    indexes: [
+      {
+        unique: true,
+        fields: ["owner", "name"],
+      },
+    ],
+  }
+);
+
+module.exports = SavedSearch;
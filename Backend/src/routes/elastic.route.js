@@ -3,6 +3,14 @@ const auth = require('../../middleware/auth')
 const axios = require('axios');
 const path = require('path');
 const elasticFilterService = require('../services/elasticFilterService');
+const columnLayoutService = require('../services/columnLayoutService');
+const searchAfterService = require('../services/searchAfterService');
+const exportService = require('../services/exportService');
+const contextService = require('../services/contextService');
+const savedSearchService = require('../services/savedSearchService');
+const alertRuleService = require('../services/alertRuleService');
+const alertScheduler = require('../services/alertScheduler');
+const liveEventService = require('../services/liveEventService');
 const cors = require('cors');
 const router = express.Router();
 
@@ -22,6 +30,13 @@ const client = new elasticsearch.Client({
 
 
 
+// Elasticsearch index.max_result_window (from + size limit)
+const MAX_RESULT_WINDOW = 10000;
+// How long a results snapshot stays open between two pages
+const PIT_KEEP_ALIVE = '5m';
+// How often the live attack stream looks for new events
+const LIVE_POLL_INTERVAL = 2000;
+
 client.ping( function (error) {
   if (error) {
     console.error('❌ Elasticsearch cluster is DOWN!', error.message);
@@ -30,6 +45,9 @@ client.ping( function (error) {
   }
 });
 
+// Threshold alert rules of web-l are checked every minute
+alertScheduler.startAlertScheduler(client, 'web-l');
+
 
 
 
@@ -37,9 +55,11 @@ router.get('/fields', async (req, res) => {
   try {
     
     const index = 'web-l';
+    const withTypes = req.query.withTypes === 'true';
     const mapping = await client.indices.getMapping({ index });
 
-    const fields = new Set();
+    // field path -> mapped type
+    const fields = new Map();
 
     const extract = (properties, prefix = '') => {
       for (const key in properties) {
@@ -53,12 +73,12 @@ router.get('/fields', async (req, res) => {
 
         // Normal field (exclude implicit keyword name)
         if (field.type && key !== 'keyword') {
-          fields.add(fieldPath);
+          fields.set(fieldPath, field.type);
         }
 
         // keyword sub-field
         if (field.fields && field.fields.keyword) {
-          fields.add(`${fieldPath}.keyword`);
+          fields.set(`${fieldPath}.keyword`, field.fields.keyword.type || 'keyword');
         }
       }
     };
@@ -70,7 +90,16 @@ router.get('/fields', async (req, res) => {
     
     //console.log('📤 Final extracted fields:', [...fields]);
 
-    res.json([...fields]);
+    if (withTypes) {
+      // text fields are not aggregatable (their .keyword sub-field is)
+      return res.json([...fields].map(([name, type]) => ({
+        name,
+        type,
+        aggregatable: type !== 'text'
+      })));
+    }
+
+    res.json([...fields.keys()]);
 
   } catch (err) {
     console.error('❌ Error in /fields API:', err);
@@ -161,17 +190,42 @@ router.get('/field-values',  async (req, res) => {
 });
 
 router.post('/web-logs-search',  async (req, res) => {
-  try {
-    const {
-      queryDSL,
-      page = 0,
-      size = 10,
-      sortField = '@timestamp',
-      sortOrder = 'desc'
-    } = req.body;
+  const {
+    queryDSL,
+    page = 0,
+    size = 10,
+    sortField = '@timestamp',
+    sortOrder = 'desc',
+    aggs,
+    highlight,
+    pitId,
+    previousPitId,
+    searchAfter
+  } = req.body;
+  let openedPitId = null;
 
+  try {
     const index = 'web-l';
-    
+
+    // from/size only reaches max_result_window, deeper pages use searchAfter
+    const from = searchAfter ? 0 : page * size;
+    if (from + size > MAX_RESULT_WINDOW) {
+      return res.status(400).json({
+        error: 'Page out of range',
+        message: `Pages beyond ${MAX_RESULT_WINDOW} hits must be loaded with searchAfter`
+      });
+    }
+
+    // A new search gets a fresh point in time; paging keeps the client's one
+    // so every page comes from the same snapshot
+    if (previousPitId && previousPitId !== pitId) {
+      searchAfterService.closePointInTime(client, previousPitId);
+    }
+    if (!pitId) {
+      openedPitId = await searchAfterService.openPointInTime(client, index, PIT_KEEP_ALIVE);
+    }
+    const activePitId = pitId || openedPitId;
+
     // Build query from Query DSL or use default
     let queryBody = {
       query: {
@@ -182,8 +236,15 @@ router.post('/web-logs-search',  async (req, res) => {
           [sortField]: {
             order: sortOrder
           }
-        }
-      ]
+        },
+        // Tiebreaker for hits with the same sort value (PIT only)
+        { _shard_doc: 'asc' }
+      ],
+      pit: {
+        id: activePitId,
+        keep_alive: PIT_KEEP_ALIVE
+      },
+      track_total_hits: true
     };
 
     // If Query DSL is provided, use it
@@ -191,9 +252,23 @@ router.post('/web-logs-search',  async (req, res) => {
       queryBody.query = queryDSL.query;
     }
 
+    if (Array.isArray(searchAfter)) {
+      queryBody.search_after = searchAfter;
+    }
+
+    // Aggregations (e.g. the Discover histogram) run in the same request
+    if (aggs && typeof aggs === 'object') {
+      queryBody.aggs = aggs;
+    }
+
+    // Matched terms of the query, tagged inside the field values
+    if (highlight && typeof highlight === 'object') {
+      queryBody.highlight = highlight;
+    }
+
+    // The index comes from the PIT
     const result = await client.search({
-      index,
-      from: page * size,
+      from,
       size,
       body: queryBody
     });
@@ -203,17 +278,36 @@ router.post('/web-logs-search',  async (req, res) => {
       _id: hit._id,
       _index: hit._index,
       _source: hit._source,
-      _score: hit._score
+      _score: hit._score,
+      sort: hit.sort,
+      highlight: hit.highlight
     }));
 
     res.json({
       total: result.hits.total?.value || result.hits.total,
       hits: hits,
-      data: hits.map(h => h._source) // For backward compatibility
+      data: hits.map(h => h._source), // For backward compatibility
+      aggregations: result.aggregations || {},
+      pitId: result.pit_id || activePitId,
+      searchAfter: hits.length > 0 ? hits[hits.length - 1].sort : null
     });
 
   } catch (err) {
-    console.error('Elasticsearch Error:', err.meta?.body || err);
+    console.error('Elasticsearch Error:', err.meta?.body || err.body || err);
+
+    // The client never gets the PIT this request opened
+    if (openedPitId) {
+      searchAfterService.closePointInTime(client, openedPitId);
+    }
+
+    // The client's PIT timed out between two pages
+    if (pitId && err.status === 404) {
+      return res.status(410).json({
+        error: 'Point in time expired',
+        message: 'The search session expired, please reload the results'
+      });
+    }
+
     res.status(500).json({
       error: 'Elasticsearch query failed',
       message: err.message
@@ -221,6 +315,519 @@ router.post('/web-logs-search',  async (req, res) => {
   }
 });
 
+// Closes the point in time of a result list that is no longer shown
+router.delete('/pit', async (req, res) => {
+  const { pitId } = req.body || {};
+
+  if (!pitId || typeof pitId !== 'string') {
+    return res.status(400).json({
+      error: 'Point in time is required',
+      message: 'Please provide the pitId to close'
+    });
+  }
+
+  await searchAfterService.closePointInTime(client, pitId);
+  res.status(204).end();
+});
+
+// Aggregations only (dashboard panels), no hits and no point in time
+router.post('/aggregate', async (req, res) => {
+  const { queryDSL, aggs } = req.body;
+
+  if (!aggs || typeof aggs !== 'object' || Array.isArray(aggs)) {
+    return res.status(400).json({
+      error: 'Aggregations are required',
+      message: 'Please provide the aggregations to run'
+    });
+  }
+
+  try {
+    const index = 'web-l';
+    const result = await client.search({
+      index,
+      body: {
+        size: 0,
+        track_total_hits: true,
+        query: queryDSL && queryDSL.query ? queryDSL.query : { match_all: {} },
+        aggs
+      }
+    });
+
+    res.json({
+      total: result.hits.total?.value || result.hits.total,
+      aggregations: result.aggregations || {}
+    });
+
+  } catch (err) {
+    console.error('Aggregation Error:', err.meta?.body || err.body || err);
+    res.status(500).json({
+      error: 'Elasticsearch aggregation failed',
+      message: err.message
+    });
+  }
+});
+
+// Single document by _index / _id
+router.get('/doc/:index/:id', async (req, res) => {
+  try {
+    const { index, id } = req.params;
+
+    if (!await contextService.isAllowedIndex(client, index, 'web-l')) {
+      return res.status(400).json({
+        error: 'Invalid index',
+        message: `Index "${index}" is not searchable`
+      });
+    }
+
+    const doc = await contextService.getDocument(client, index, id);
+    if (!doc) {
+      return res.status(404).json({
+        error: 'Document not found',
+        message: `No document with id ${id} in ${index}`
+      });
+    }
+
+    res.json(doc);
+
+  } catch (err) {
+    console.error('Error fetching document:', err.meta?.body || err);
+    res.status(500).json({
+      error: 'Failed to fetch document',
+      message: err.message
+    });
+  }
+});
+
+// Documents before / after an anchor document (by @timestamp)
+// Load more passes back the pitId of the previous page, so sort values
+// (with their _shard_doc tiebreaker) come from the same snapshot
+router.post('/surrounding', async (req, res) => {
+  const { index: anchorIndex, id, direction, size, scopeField, searchAfter, pitId } = req.body;
+  const index = 'web-l';
+  let openedPitId = null;
+
+  try {
+    if (!id || !await contextService.isAllowedIndex(client, anchorIndex, index)) {
+      return res.status(400).json({
+        error: 'Invalid anchor',
+        message: 'Please provide the index and id of the anchor document'
+      });
+    }
+
+    if (!pitId) {
+      openedPitId = await searchAfterService.openPointInTime(client, index, PIT_KEEP_ALIVE);
+    }
+    const activePitId = pitId || openedPitId;
+
+    const anchor = await contextService.getDocument(client, anchorIndex, id, activePitId);
+    if (!anchor) {
+      if (openedPitId) {
+        searchAfterService.closePointInTime(client, openedPitId);
+      }
+      return res.status(404).json({
+        error: 'Document not found',
+        message: `No document with id ${id} in ${anchorIndex}`
+      });
+    }
+
+    const result = await contextService.getSurroundingDocuments(client, activePitId, anchor, {
+      direction,
+      size,
+      scopeField,
+      searchAfter,
+      keepAlive: PIT_KEEP_ALIVE
+    });
+
+    res.json(result);
+
+  } catch (err) {
+    console.error('Error fetching surrounding documents:', err.meta?.body || err);
+
+    if (openedPitId) {
+      searchAfterService.closePointInTime(client, openedPitId);
+    }
+
+    // The client's PIT timed out between two loads
+    if (pitId && err.status === 404) {
+      return res.status(410).json({
+        error: 'Point in time expired',
+        message: 'The search session expired, please reload the documents'
+      });
+    }
+
+    if (err.message && (err.message.includes('Direction') || err.message.includes('scope field'))) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: err.message
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to fetch surrounding documents',
+      message: err.message
+    });
+  }
+});
+
+// Stream every hit of a query as CSV or NDJSON (paged with PIT + search_after)
+router.post('/export', async (req, res) => {
+  const {
+    queryDSL,
+    format = 'csv',
+    columns = [],
+    sortField = '@timestamp',
+    sortOrder = 'desc'
+  } = req.body;
+
+  if (format !== 'csv' && format !== 'ndjson') {
+    return res.status(400).json({
+      error: 'Invalid export format',
+      message: 'Format must be "csv" or "ndjson"'
+    });
+  }
+  if (format === 'csv' && (!Array.isArray(columns) || columns.length === 0)) {
+    return res.status(400).json({
+      error: 'Columns are required',
+      message: 'Please provide the columns to write to the CSV'
+    });
+  }
+
+  const index = 'web-l';
+  const query = queryDSL && queryDSL.query ? queryDSL.query : { match_all: {} };
+
+  // Cancelled downloads close the connection before the response ends
+  let aborted = false;
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      aborted = true;
+    }
+  });
+
+  try {
+    const { count } = await client.count({ index, body: { query } });
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="${index}_export.${format}"`);
+    res.setHeader('X-Total-Hits', String(count));
+    res.setHeader('Access-Control-Expose-Headers', 'X-Total-Hits, Content-Disposition');
+    res.setHeader('Cache-Control', 'no-store');
+
+    if (format === 'csv') {
+      await writeChunk(res, exportService.toCsvHeader(columns));
+    }
+
+    const batches = searchAfterService.scanHits(client, index, {
+      query,
+      sort: [{ [sortField]: { order: sortOrder } }]
+    });
+
+    for await (const hits of batches) {
+      if (aborted) {
+        break; // Closes the PIT
+      }
+      const chunk = format === 'csv'
+        ? exportService.toCsvRows(hits, columns)
+        : exportService.toNdjsonRows(hits);
+      await writeChunk(res, chunk);
+    }
+
+    res.end();
+
+  } catch (err) {
+    console.error('Export Error:', err.meta?.body || err);
+    if (!res.headersSent) {
+      return res.status(500).json({
+        error: 'Export failed',
+        message: err.message
+      });
+    }
+    // Headers are gone, ending early tells the client the file is incomplete
+    res.destroy(err);
+  }
+});
+
+/**
+ * Write to the response, waiting for the client to catch up (backpressure)
+ */
+function writeChunk(res, chunk) {
+  return new Promise(resolve => {
+    if (res.write(chunk)) {
+      return resolve();
+    }
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+// Live attack events (server-sent events): new geolocated events of web-l
+// aimed at the user's nodes, pushed in batches for the attack map
+router.get('/live-events/stream', auth.verifyToken, async (req, res) => {
+  const index = 'web-l';
+  let scope;
+  try {
+    scope = await liveEventService.getLiveScope(req.user.data);
+  } catch (err) {
+    console.error('Error opening live event stream:', err);
+    return res.status(500).json({ error: 'Failed to open live event stream', message: err.message });
+  }
+  if (!scope) {
+    return res.status(401).json({ error: 'Unknown user' });
+  }
+
+  const release = liveEventService.acquireStream(scope.userId);
+  if (!release) {
+    return res.status(429).json({ error: 'Too many live event streams open' });
+  }
+
+  let cursor = liveEventService.createCursor();
+  let polling = false;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+
+  const send = (type, data) => res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  const poll = setInterval(async () => {
+    // A slow search must not overlap the next one; without nodes there is nothing to show
+    if (polling || (scope.nodeIps && scope.nodeIps.length === 0)) {
+      return;
+    }
+    polling = true;
+    try {
+      const result = await liveEventService.pollLiveEvents(client, index, cursor, scope.nodeIps);
+      cursor = result.cursor;
+      if (result.events.length > 0) {
+        send('events', result.events);
+      }
+    } catch (err) {
+      console.error('Live Events Error:', err.meta?.body || err.body || err.message);
+    } finally {
+      polling = false;
+    }
+  }, LIVE_POLL_INTERVAL);
+
+  // Comments keep proxies from closing an idle connection
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 25000);
+
+  req.on('close', () => {
+    clearInterval(poll);
+    clearInterval(heartbeat);
+    release();
+  });
+});
+
+// Column layouts of the logged-in user (req.user.data is the username)
+router.get('/column-layouts', auth.verifyToken, async (req, res) => {
+  try {
+    const index = req.query.index || 'web-l';
+    const layouts = await columnLayoutService.getLayouts(req.user.data, index);
+    res.json(layouts);
+  } catch (err) {
+    console.error('Error fetching column layouts:', err);
+    res.status(500).json({
+      error: 'Failed to fetch column layouts',
+      message: err.message
+    });
+  }
+});
+
+router.post('/column-layouts', auth.verifyToken, async (req, res) => {
+  try {
+    const { index = 'web-l', name, columns, isDefault } = req.body;
+    const layout = await columnLayoutService.saveLayout(req.user.data, index, { name, columns, isDefault });
+    res.json(layout);
+  } catch (err) {
+    console.error('Error saving column layout:', err);
+    res.status(400).json({
+      error: 'Failed to save column layout',
+      message: err.message
+    });
+  }
+});
+
+router.delete('/column-layouts/:id', auth.verifyToken, async (req, res) => {
+  try {
+    const deleted = await columnLayoutService.deleteLayout(req.user.data, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'Layout not found',
+        message: `No layout with id ${req.params.id}`
+      });
+    }
+    res.json({ deleted: true });
+  } catch (err) {
+    console.error('Error deleting column layout:', err);
+    res.status(500).json({
+      error: 'Failed to delete column layout',
+      message: err.message
+    });
+  }
+});
+
+
+router.get('/saved-searches', auth.verifyToken, async (req, res) => {
+  try {
+    const index = req.query.index || 'web-l';
+    const searches = await savedSearchService.getSavedSearches(req.user.data, index);
+    res.json(searches);
+  } catch (err) {
+    console.error('Error fetching saved searches:', err);
+    res.status(500).json({
+      error: 'Failed to fetch saved searches',
+      message: err.message
+    });
+  }
+});
+
+router.get('/saved-searches/:id', auth.verifyToken, async (req, res) => {
+  try {
+    const search = await savedSearchService.getSavedSearch(req.user.data, req.params.id);
+    if (!search) {
+      return res.status(404).json({
+        error: 'Saved search not found',
+        message: `No saved search with id ${req.params.id}`
+      });
+    }
+    res.json(search);
+  } catch (err) {
+    console.error('Error fetching saved search:', err);
+    res.status(500).json({
+      error: 'Failed to fetch saved search',
+      message: err.message
+    });
+  }
+});
+
+router.post('/saved-searches', auth.verifyToken, async (req, res) => {
+  try {
+    const { index = 'web-l', ...data } = req.body;
+    const search = await savedSearchService.createSavedSearch(req.user.data, index, data);
+    res.json(search);
+  } catch (err) {
+    console.error('Error saving search:', err);
+    res.status(400).json({
+      error: 'Failed to save search',
+      message: err.message
+    });
+  }
+});
+
+router.put('/saved-searches/:id', auth.verifyToken, async (req, res) => {
+  try {
+    const { index, ...data } = req.body;
+    const search = await savedSearchService.updateSavedSearch(req.user.data, req.params.id, data);
+    if (!search) {
+      return res.status(404).json({
+        error: 'Saved search not found',
+        message: `No saved search with id ${req.params.id} owned by you`
+      });
+    }
+    res.json(search);
+  } catch (err) {
+    console.error('Error updating saved search:', err);
+    res.status(400).json({
+      error: 'Failed to update saved search',
+      message: err.message
+    });
+  }
+});
+
+router.delete('/saved-searches/:id', auth.verifyToken, async (req, res) => {
+  try {
+    const deleted = await savedSearchService.deleteSavedSearch(req.user.data, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'Saved search not found',
+        message: `No saved search with id ${req.params.id} owned by you`
+      });
+    }
+    res.json({ deleted: true });
+  } catch (err) {
+    console.error('Error deleting saved search:', err);
+    res.status(500).json({
+      error: 'Failed to delete saved search',
+      message: err.message
+    });
+  }
+});
+
+
+router.get('/alert-rules', auth.verifyToken, async (req, res) => {
+  try {
+    const index = req.query.index || 'web-l';
+    const rules = await alertRuleService.getAlertRules(req.user.data, index);
+    res.json(rules);
+  } catch (err) {
+    console.error('Error fetching alert rules:', err);
+    res.status(500).json({
+      error: 'Failed to fetch alert rules',
+      message: err.message
+    });
+  }
+});
+
+router.post('/alert-rules', auth.verifyToken, async (req, res) => {
+  try {
+    const { index = 'web-l', ...data } = req.body;
+    const rule = await alertRuleService.createAlertRule(req.user.data, index, data);
+    res.json(rule);
+  } catch (err) {
+    console.error('Error saving alert rule:', err);
+    res.status(400).json({
+      error: 'Failed to save alert rule',
+      message: err.message
+    });
+  }
+});
+
+router.put('/alert-rules/:id', auth.verifyToken, async (req, res) => {
+  try {
+    const { index, ...data } = req.body;
+    const rule = await alertRuleService.updateAlertRule(req.user.data, req.params.id, data);
+    if (!rule) {
+      return res.status(404).json({
+        error: 'Alert rule not found',
+        message: `No alert rule with id ${req.params.id} owned by you`
+      });
+    }
+    res.json(rule);
+  } catch (err) {
+    console.error('Error updating alert rule:', err);
+    res.status(400).json({
+      error: 'Failed to update alert rule',
+      message: err.message
+    });
+  }
+});
+
+router.delete('/alert-rules/:id', auth.verifyToken, async (req, res) => {
+  try {
+    const deleted = await alertRuleService.deleteAlertRule(req.user.data, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'Alert rule not found',
+        message: `No alert rule with id ${req.params.id} owned by you`
+      });
+    }
+    res.json({ deleted: true });
+  } catch (err) {
+    console.error('Error deleting alert rule:', err);
+    res.status(500).json({
+      error: 'Failed to delete alert rule',
+      message: err.message
+    });
+  }
+});
+
 
 
 module.exports = router
\ No newline at end of file
@@ -74,6 +74,9 @@ router.post('/lineChartDot', auth.verifyToken, usersController.getLineChartDot);
 
 router.get('/yourip',auth.verifyToken, usersController.getyourIp )
 
+// Honeypot nodes of the user (attack map)
+router.get('/nodeDetail', auth.verifyToken, usersController.nodeDetail);
+
 // view users
 router.get(
     "/viewUsers",
@@ -98,6 +101,19 @@ router.get(
     usersController.editUser
   );
   
+  // Admin notifications (node status, threshold alerts)
+  router.get('/getNotifications', auth.verifyToken, usersController.getNotifications);
+
+  router.get('/getNotificationCount', auth.verifyToken, usersController.getNotificationCount);
+
+  router.get('/markNotificationRead', auth.verifyToken, usersController.markNotificationRead);
+
+  router.get('/notifications', auth.verifyToken, usersController.getRecentNotifications);
+
+  router.get('/notifications/stream', auth.verifyToken, usersController.streamNotifications);
+
+  router.post('/notifications/:id/read', auth.verifyToken, usersController.markOneNotificationRead);
+
   // Delete user
   router.post(
     "/deleteUser",
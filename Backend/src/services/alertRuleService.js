@@ -0,0 +1,276 @@
+/**
+ * Alert Rule Service
+ * Threshold alerts on the documents of a saved search: "more than 100
+ * waf_action:blocked per source IP in 5 minutes". A rule counts the documents
+ * (or the unique values of a field) of its time window, optionally per value
+ * of a group-by field, and raises an admin notification when the threshold
+ * is exceeded.
+ */
+
+const AlertRule = require('../models/alertRule.model');
+const Notification = require('../models/notification.model');
+const User = require('../models/user.model');
+const savedSearchService = require('./savedSearchService');
+
+const METRICS = ['count', 'cardinality'];
+const MAX_WINDOW_MINUTES = 24 * 60;
+// Groups reported per notification (the ones furthest above the threshold)
+const MAX_ALERT_GROUPS = 10;
+
+/**
+ * Get the rules of a user
+ *
+ * @param {string} username - Logged-in user
+ * @param {string} indexPattern - Index the rules belong to (e.g., 'web-l')
+ * @returns {Promise<Array>} Rules sorted by name
+ */
+async function getAlertRules(username, indexPattern) {
+  return AlertRule.findAll({
+    where: { owner: username, indexPattern },
+    order: [['name', 'ASC']]
+  });
+}
+
+/**
+ * Create a rule owned by the user
+ *
+ * @param {string} username - Owner of the rule
+ * @param {string} indexPattern - Index the rule belongs to
+ * @param {Object} data - Rule from the request body
+ * @returns {Promise<Object>} Created rule
+ */
+async function createAlertRule(username, indexPattern, data) {
+  const values = await validateAlertRule(username, data);
+  await assertNameAvailable(username, values.name);
+
+  return AlertRule.create({ ...values, owner: username, indexPattern });
+}
+
+/**
+ * Update a rule owned by the user
+ *
+ * @param {string} username - Owner of the rule
+ * @param {number} id - Rule id
+ * @param {Object} data - Rule from the request body
+ * @returns {Promise<Object|null>} Updated rule, or null if the user does not own it
+ */
+async function updateAlertRule(username, id, data) {
+  const rule = await AlertRule.findOne({ where: { id, owner: username } });
+  if (!rule) {
+    return null;
+  }
+
+  const values = await validateAlertRule(username, data);
+  if (values.name !== rule.name) {
+    await assertNameAvailable(username, values.name);
+  }
+
+  // A changed rule starts over: the next check may alert right away
+  await rule.update({ ...values, lastTriggeredAt: null, lastError: null });
+  return rule;
+}
+
+/**
+ * Delete a rule owned by the user
+ *
+ * @param {string} username - Owner of the rule
+ * @param {number} id - Rule id
+ * @returns {Promise<boolean>} True if a rule was deleted
+ */
+async function deleteAlertRule(username, id) {
+  const deleted = await AlertRule.destroy({ where: { id, owner: username } });
+  return deleted > 0;
+}
+
+/**
+ * Validate and normalize a rule from the request body
+ *
+ * @param {string} username - Owner of the rule (must be able to open the saved search)
+ * @param {Object} data - Rule from the request body
+ * @returns {Promise<Object>} Values to store
+ */
+async function validateAlertRule(username, data) {
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  if (!name) {
+    throw new Error('Rule name is required');
+  }
+
+  const savedSearchId = Number(data.savedSearchId);
+  if (!Number.isInteger(savedSearchId) || !(await savedSearchService.getSavedSearch(username, savedSearchId))) {
+    throw new Error('Please choose a saved search you can open');
+  }
+
+  const windowMinutes = Number(data.windowMinutes);
+  if (!Number.isInteger(windowMinutes) || windowMinutes < 1 || windowMinutes > MAX_WINDOW_MINUTES) {
+    throw new Error(`Time window must be between 1 and ${MAX_WINDOW_MINUTES} minutes`);
+  }
+
+  const metric = data.metric || 'count';
+  if (!METRICS.includes(metric)) {
+    throw new Error(`Unknown metric "${metric}"`);
+  }
+
+  const metricField = typeof data.metricField === 'string' ? data.metricField.trim() : '';
+  if (metric === 'cardinality' && !metricField) {
+    throw new Error('A unique count needs a field');
+  }
+
+  const threshold = Number(data.threshold);
+  if (!Number.isInteger(threshold) || threshold < 0) {
+    throw new Error('Threshold must be a whole number of at least 0');
+  }
+
+  const groupBy = typeof data.groupBy === 'string' ? data.groupBy.trim() : '';
+
+  return {
+    name,
+    enabled: data.enabled !== false,
+    savedSearchId,
+    windowMinutes,
+    metric,
+    metricField: metric === 'cardinality' ? metricField : null,
+    threshold,
+    groupBy: groupBy || null
+  };
+}
+
+/**
+ * Build the search of a rule: the saved search's query over the time window,
+ * with the metric per group-by value
+ *
+ * @param {Object} rule - Alert rule
+ * @param {Object} query - Query of the rule's saved search
+ * @returns {Object} Search body
+ */
+function buildAlertSearch(rule, query) {
+  const metricAgg = rule.metric === 'cardinality'
+    ? { metric: { cardinality: { field: rule.metricField } } }
+    : null;
+
+  const body = {
+    size: 0,
+    track_total_hits: true,
+    query: {
+      bool: {
+        filter: [
+          query || { match_all: {} },
+          { range: { '@timestamp': { gte: `now-${rule.windowMinutes}m` } } }
+        ]
+      }
+    }
+  };
+
+  if (rule.groupBy) {
+    body.aggs = {
+      groups: {
+        terms: {
+          field: rule.groupBy,
+          size: MAX_ALERT_GROUPS,
+          order: metricAgg ? { metric: 'desc' } : { _count: 'desc' }
+        },
+        ...(metricAgg ? { aggs: metricAgg } : {})
+      }
+    };
+  } else if (metricAgg) {
+    body.aggs = metricAgg;
+  }
+
+  return body;
+}
+
+/**
+ * Evaluate a rule against Elasticsearch
+ *
+ * @param {Object} client - Elasticsearch client
+ * @param {string} index - Index to search
+ * @param {Object} rule - Alert rule
+ * @returns {Promise<Array>} Breaches as { key, value }, highest first (key is
+ * null without group-by), empty when the threshold is not exceeded
+ */
+async function evaluateAlertRule(client, index, rule) {
+  const search = await savedSearchService.getSavedSearch(rule.owner, rule.savedSearchId);
+  if (!search) {
+    throw new Error('The saved search of this rule no longer exists');
+  }
+
+  const query = search.queryDSL && search.queryDSL.query;
+  const result = await client.search({ index, body: buildAlertSearch(rule, query) });
+  const aggs = result.aggregations || {};
+
+  let values;
+  if (rule.groupBy) {
+    values = (aggs.groups ? aggs.groups.buckets : []).map(bucket => ({
+      key: bucket.key_as_string || bucket.key,
+      value: rule.metric === 'cardinality' ? bucket.metric.value : bucket.doc_count
+    }));
+  } else {
+    const total = result.hits.total;
+    values = [{
+      key: null,
+      value: rule.metric === 'cardinality' ? aggs.metric.value : (total && total.value !== undefined ? total.value : total)
+    }];
+  }
+
+  return values
+    .filter(({ value }) => value > rule.threshold)
+    .sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Notify the active super admins about a breached rule
+ *
+ * @param {Object} rule - Alert rule
+ * @param {Array} breaches - Breaches from evaluateAlertRule
+ * @returns {Promise<Object>} Created notification
+ */
+async function raiseAlertNotification(rule, breaches) {
+  const admins = await User.findAll({
+    where: { role: 'superadmin', user_status: 'active' },
+    attributes: ['user_id'],
+    raw: true
+  });
+
+  return Notification.create({
+    notification_type: 'threshold_alert',
+    notification_read_users: admins.map(admin => admin.user_id).join(','),
+    message: formatAlertMessage(rule, breaches),
+    details: {
+      ruleId: rule.id,
+      windowMinutes: rule.windowMinutes,
+      threshold: rule.threshold,
+      groupBy: rule.groupBy,
+      breaches
+    }
+  });
+}
+
+/**
+ * e.g. 'Blocked IPs: siem_sourceip 10.0.0.7 had 153 documents in 5 minutes (threshold 100)'
+ */
+function formatAlertMessage(rule, breaches) {
+  const unit = rule.metric === 'cardinality' ? `unique ${rule.metricField} values` : 'documents';
+  const window = `${rule.windowMinutes} minute${rule.windowMinutes === 1 ? '' : 's'}`;
+  const [top] = breaches;
+  const subject = rule.groupBy ? `${rule.groupBy} ${top.key}` : 'The search';
+  const more = breaches.length > 1 ? ` (+${breaches.length - 1} more)` : '';
+
+  return `${rule.name}: ${subject} had ${top.value} ${unit} in ${window}${more} (threshold ${rule.threshold})`;
+}
+
+async function assertNameAvailable(username, name) {
+  const existing = await AlertRule.findOne({ where: { owner: username, name } });
+  if (existing) {
+    throw new Error(`You already have a rule named "${name}"`);
+  }
+}
+
+module.exports = {
+  getAlertRules,
+  createAlertRule,
+  updateAlertRule,
+  deleteAlertRule,
+  validateAlertRule,
+  buildAlertSearch,
+  evaluateAlertRule,
+  raiseAlertNotification
+};
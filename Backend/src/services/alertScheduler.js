@@ -0,0 +1,84 @@
+/**
+ * Alert Scheduler
+ * Evaluates the enabled alert rules every minute. A breached rule raises one
+ * notification per time window: it stays quiet until its window has passed,
+ * so a sustained attack does not notify every minute.
+ */
+
+const AlertRule = require('../models/alertRule.model');
+const alertRuleService = require('./alertRuleService');
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+let timer = null;
+let running = false;
+
+/**
+ * Start evaluating the rules of an index
+ *
+ * @param {Object} client - Elasticsearch client instance
+ * @param {string} index - Index the rules search (e.g., 'web-l')
+ * @param {number} intervalMs - Time between two checks
+ */
+function startAlertScheduler(client, index, intervalMs = CHECK_INTERVAL_MS) {
+  if (timer) {
+    return;
+  }
+  timer = setInterval(() => checkAlertRules(client, index), intervalMs);
+}
+
+function stopAlertScheduler() {
+  clearInterval(timer);
+  timer = null;
+}
+
+/**
+ * Evaluate every enabled rule once (skipped while the previous check is running)
+ *
+ * @param {Object} client - Elasticsearch client instance
+ * @param {string} index - Index the rules search
+ */
+async function checkAlertRules(client, index) {
+  if (running) {
+    return;
+  }
+  running = true;
+
+  try {
+    const rules = await AlertRule.findAll({ where: { enabled: true, indexPattern: index } });
+    for (const rule of rules) {
+      await checkAlertRule(client, index, rule);
+    }
+  } catch (err) {
+    console.error('Error loading alert rules:', err.message);
+  } finally {
+    running = false;
+  }
+}
+
+async function checkAlertRule(client, index, rule) {
+  const now = new Date();
+
+  try {
+    const breaches = await alertRuleService.evaluateAlertRule(client, index, rule);
+    const quietUntil = rule.lastTriggeredAt
+      ? new Date(rule.lastTriggeredAt).getTime() + rule.windowMinutes * 60 * 1000
+      : 0;
+
+    if (breaches.length > 0 && now.getTime() >= quietUntil) {
+      await alertRuleService.raiseAlertNotification(rule, breaches);
+      await rule.update({ lastCheckedAt: now, lastTriggeredAt: now, lastError: null });
+    } else {
+      await rule.update({ lastCheckedAt: now, lastError: null });
+    }
+  } catch (err) {
+    console.error(`Error evaluating alert rule ${rule.id}:`, err.meta?.body || err.message);
+    await rule.update({ lastCheckedAt: now, lastError: String(err.message).slice(0, 255) }).catch(() => {});
+  }
+}
+
+module.exports = {
+  startAlertScheduler,
+  stopAlertScheduler,
+  checkAlertRules
+};
@@ -0,0 +1,106 @@
+/**
+ * Column Layout Service
+ * Stores named column layouts (order, widths, formatters) for the data table,
+ * per user and per index - like Kibana's saved Discover columns
+ */
+
+const ColumnLayout = require('../models/columnLayout.model');
+
+const FORMATTERS = ['default', 'date', 'number', 'bytes', 'json', 'url', 'truncate'];
+const MIN_WIDTH = 60;
+const MAX_WIDTH = 2000;
+
+/**
+ * Get the layouts of a user for an index
+ *
+ * @param {string} username - Owner of the layouts
+ * @param {string} indexPattern - Index the layouts belong to (e.g., 'web-l')
+ * @returns {Promise<Array>} Layouts sorted by name
+ */
+async function getLayouts(username, indexPattern) {
+  return ColumnLayout.findAll({
+    where: { username, indexPattern },
+    order: [['name', 'ASC']]
+  });
+}
+
+/**
+ * Create or update a layout (layouts are identified by their name)
+ *
+ * @param {string} username - Owner of the layout
+ * @param {string} indexPattern - Index the layout belongs to
+ * @param {Object} layout - Layout object
+ * @param {string} layout.name - Layout name
+ * @param {Array} layout.columns - Columns ({ field, width, formatter })
+ * @param {boolean} layout.isDefault - Applied when the table opens without columns in the URL
+ * @returns {Promise<Object>} Saved layout
+ */
+async function saveLayout(username, indexPattern, layout) {
+  const name = typeof layout.name === 'string' ? layout.name.trim() : '';
+  if (!name) {
+    throw new Error('Layout name is required');
+  }
+
+  const columns = validateColumns(layout.columns);
+  const isDefault = layout.isDefault === true;
+
+  // Only one default layout per user and index
+  if (isDefault) {
+    await ColumnLayout.update({ isDefault: false }, { where: { username, indexPattern } });
+  }
+
+  const existing = await ColumnLayout.findOne({ where: { username, indexPattern, name } });
+  if (existing) {
+    return existing.update({ columns, isDefault });
+  }
+  return ColumnLayout.create({ username, indexPattern, name, columns, isDefault });
+}
+
+/**
+ * Delete a layout owned by the user
+ *
+ * @param {string} username - Owner of the layout
+ * @param {number} id - Layout id
+ * @returns {Promise<boolean>} True if a layout was deleted
+ */
+async function deleteLayout(username, id) {
+  const deleted = await ColumnLayout.destroy({ where: { id, username } });
+  return deleted > 0;
+}
+
+/**
+ * Validate and normalize layout columns
+ *
+ * @param {Array} columns - Columns from the request body
+ * @returns {Array} Columns with known formatters and clamped widths
+ */
+function validateColumns(columns) {
+  if (!Array.isArray(columns) || columns.length === 0) {
+    throw new Error('Layout must have at least one column');
+  }
+
+  return columns.map(column => {
+    if (!column || typeof column.field !== 'string' || !column.field) {
+      throw new Error('Each column must have a field name');
+    }
+
+    const normalized = { field: column.field };
+    if (typeof column.width === 'number' && isFinite(column.width)) {
+      normalized.width = Math.min(Math.max(Math.round(column.width), MIN_WIDTH), MAX_WIDTH);
+    }
+    if (column.formatter && column.formatter !== 'default') {
+      if (!FORMATTERS.includes(column.formatter)) {
+        throw new Error(`Unknown formatter "${column.formatter}"`);
+      }
+      normalized.formatter = column.formatter;
+    }
+    return normalized;
+  });
+}
+
+module.exports = {
+  getLayouts,
+  saveLayout,
+  deleteLayout,
+  validateColumns
+};
@@ -0,0 +1,186 @@
+/**
+ * Context Service
+ * Single documents and their surrounding documents (events just before and
+ * after by @timestamp), like Kibana's "View surrounding documents"
+ */
+
+const TIME_FIELD = '@timestamp';
+const SCOPE_FIELDS = ['siem_sourceip', 'waf_http_session_id'];
+const MAX_CONTEXT_SIZE = 500;
+// Multi-index, wildcard, date math, remote cluster and exclusion syntax
+const INDEX_EXPRESSION = /[,*?<>()|:\s\\/#"]|^[-+_.]/;
+
+/**
+ * Check that an index is one of the concrete indices behind the searched
+ * index (the index itself, an alias's indices or a data stream's backing
+ * indices). Index expressions are rejected before anything is resolved.
+ *
+ * @param {Object} client - Elasticsearch client instance
+ * @param {string} index - Index name from the request
+ * @param {string} indexPattern - Searched index (e.g., 'web-l')
+ * @returns {Promise<boolean>} True if documents may be read from the index
+ */
+async function isAllowedIndex(client, index, indexPattern) {
+  if (typeof index !== 'string' || index === '' || INDEX_EXPRESSION.test(index.replace(/^\.ds-/, ''))) {
+    return false;
+  }
+
+  const resolved = await client.transport.request({
+    method: 'GET',
+    path: `/_resolve/index/${encodeURIComponent(indexPattern)}`
+  });
+
+  const concrete = [
+    ...(resolved.indices || []).map(entry => entry.name),
+    ...(resolved.aliases || []).flatMap(entry => entry.indices || []),
+    ...(resolved.data_streams || []).flatMap(entry => entry.backing_indices || [])
+  ];
+  return concrete.includes(index);
+}
+
+/**
+ * Get a document by id
+ *
+ * With a point in time the hit also gets the sort values surrounding
+ * searches in that PIT continue from.
+ *
+ * @param {Object} client - Elasticsearch client instance
+ * @param {string} index - Index of the document
+ * @param {string} id - Document _id
+ * @param {string} pitId - Point in time of the searched index (optional)
+ * @returns {Promise<Object|null>} Hit ({ _id, _index, _source, sort }) or null
+ */
+async function getDocument(client, index, id, pitId = null) {
+  const result = pitId
+    ? await client.search({
+        body: {
+          size: 1,
+          // The PIT covers every index of the pattern
+          query: { bool: { filter: [{ ids: { values: [id] } }, { term: { _index: index } }] } },
+          sort: contextSort('asc'),
+          pit: { id: pitId }
+        }
+      })
+    : await client.search({
+        index,
+        body: { size: 1, query: { ids: { values: [id] } } }
+      });
+
+  const hit = result.hits.hits[0];
+  return hit ? formatHit(hit) : null;
+}
+
+/**
+ * Get the documents before or after an anchor document
+ *
+ * @param {Object} client - Elasticsearch client instance
+ * @param {string} pitId - Point in time the anchor was read from
+ * @param {Object} anchor - Anchor hit from getDocument (with the same PIT)
+ * @param {Object} options - Options object
+ * @param {string} options.direction - 'before' (older) or 'after' (newer)
+ * @param {number} options.size - Number of documents (default: 5, max: 500)
+ * @param {string} options.scopeField - Only documents with the anchor's value of this field
+ * @param {Array} options.searchAfter - Sort values of the last loaded document (load more)
+ * @param {string} options.keepAlive - PIT keep alive (default: '5m')
+ * @returns {Promise<Object>} { hits, pitId } with hits in ascending time order
+ */
+async function getSurroundingDocuments(client, pitId, anchor, options = {}) {
+  const {
+    direction,
+    size = 5,
+    scopeField = null,
+    searchAfter = null,
+    keepAlive = '5m'
+  } = options;
+
+  if (direction !== 'before' && direction !== 'after') {
+    throw new Error('Direction must be "before" or "after"');
+  }
+
+  const filter = [];
+  if (scopeField) {
+    if (!SCOPE_FIELDS.includes(scopeField)) {
+      throw new Error(`Unsupported scope field "${scopeField}"`);
+    }
+    const value = getSourceValue(anchor._source, scopeField);
+    if (value === null || value === undefined) {
+      return { hits: [], pitId }; // Nothing shares a value the anchor does not have
+    }
+    filter.push(scopeFilter(scopeField, value));
+  }
+
+  // Walk away from the anchor: ascending for newer, descending for older
+  const order = direction === 'after' ? 'asc' : 'desc';
+  // The index comes from the PIT
+  const result = await client.search({
+    body: {
+      size: Math.min(Math.max(parseInt(size) || 5, 1), MAX_CONTEXT_SIZE),
+      query: { bool: { filter } },
+      sort: contextSort(order),
+      search_after: Array.isArray(searchAfter) ? searchAfter : anchor.sort,
+      pit: { id: pitId, keep_alive: keepAlive }
+    }
+  });
+
+  const hits = result.hits.hits.map(formatHit);
+  return {
+    hits: direction === 'before' ? hits.reverse() : hits,
+    pitId: result.pit_id || pitId
+  };
+}
+
+/**
+ * Time sort with _shard_doc as tiebreaker for events in the same
+ * millisecond (unique within a PIT, unlike _doc across shards)
+ */
+function contextSort(order) {
+  return [
+    { [TIME_FIELD]: { order } },
+    { _shard_doc: { order } }
+  ];
+}
+
+/**
+ * Exact match on the field or its keyword sub-field (works for ip, keyword
+ * and text fields alike)
+ */
+function scopeFilter(field, value) {
+  const query = Array.isArray(value) ? 'terms' : 'term';
+  return {
+    bool: {
+      should: [
+        { [query]: { [field]: value } },
+        { [query]: { [`${field}.keyword`]: value } }
+      ],
+      minimum_should_match: 1
+    }
+  };
+}
+
+function getSourceValue(source, field) {
+  let value = source;
+  for (const part of field.split('.')) {
+    if (value && typeof value === 'object' && part in value) {
+      value = value[part];
+    } else {
+      return undefined;
+    }
+  }
+  return value;
+}
+
+function formatHit(hit) {
+  return {
+    _id: hit._id,
+    _index: hit._index,
+    _source: hit._source,
+    sort: hit.sort
+  };
+}
+
+module.exports = {
+  SCOPE_FIELDS,
+  isAllowedIndex,
+  getDocument,
+  getSurroundingDocuments
+};
@@ -0,0 +1,97 @@
+/**
+ * Export Service
+ * Formats search hits as CSV (selected columns) or NDJSON (raw documents)
+ */
+
+// Cells starting with these characters are run as formulas by spreadsheets
+const FORMULA_CHARS = ['=', '+', '-', '@', '\t', '\r'];
+
+/**
+ * Get a (nested) field value from a document source, like the data table does:
+ * dotted paths walk nested objects and objects/arrays are JSON-encoded
+ *
+ * @param {Object} source - Document _source
+ * @param {string} field - Field path (e.g., 'host.os.family')
+ * @returns {string} Value as text ('' when missing)
+ */
+function getFieldValue(source, field) {
+  let value = source || {};
+  for (const part of field.split('.')) {
+    if (value && typeof value === 'object' && part in value) {
+      value = value[part];
+    } else {
+      return '';
+    }
+  }
+
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Escape a CSV cell (quotes, separators, line breaks and formula injection)
+ *
+ * @param {string} value - Cell text
+ * @returns {string} CSV-safe cell
+ */
+function escapeCsvValue(value) {
+  const text = value && FORMULA_CHARS.includes(value.charAt(0)) && isNaN(Number(value))
+    ? `'${value}`
+    : value;
+  return quoteCsvValue(text);
+}
+
+function quoteCsvValue(text) {
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * CSV header line (field names are not data, so '@timestamp' stays as is)
+ *
+ * @param {Array<string>} columns - Field paths
+ * @returns {string} Header line (with line break)
+ */
+function toCsvHeader(columns) {
+  return columns.map(quoteCsvValue).join(',') + '\r\n';
+}
+
+/**
+ * CSV lines for a batch of hits
+ *
+ * @param {Array} hits - Elasticsearch hits
+ * @param {Array<string>} columns - Field paths
+ * @returns {string} CSV lines (with line breaks)
+ */
+function toCsvRows(hits, columns) {
+  return hits
+    .map(hit => columns.map(field => escapeCsvValue(getFieldValue(hit._source, field))).join(',') + '\r\n')
+    .join('');
+}
+
+/**
+ * NDJSON lines for a batch of hits (one document per line)
+ *
+ * @param {Array} hits - Elasticsearch hits
+ * @returns {string} NDJSON lines (with line breaks)
+ */
+function toNdjsonRows(hits) {
+  return hits
+    .map(hit => JSON.stringify({ _index: hit._index, _id: hit._id, _source: hit._source }) + '\n')
+    .join('');
+}
+
+module.exports = {
+  getFieldValue,
+  escapeCsvValue,
+  toCsvHeader,
+  toCsvRows,
+  toNdjsonRows
+};
@@ -0,0 +1,221 @@
+/**
+ * Live Event Service
+ * Recent geolocated events for the live attack map: polled from the index
+ * and pushed to the browser as server-sent events
+ *
+ * Like nodeDetail, a user only sees the events aimed at their own nodes
+ * (node 0 stands for all of them), and each user may only keep a few
+ * streams open since every stream polls the index on its own.
+ */
+
+const sequelize = require('../database/db.config');
+const User = require('../models/user.model');
+
+const TIME_FIELD = '@timestamp';
+const GEO_FIELD = 'siem_sourceip_geoip.location';
+// Locates the targeted node when its node row has no coordinates
+const TARGET_GEO_FIELD = 'siem_dstip_geoip.location';
+const LIVE_EVENT_FIELDS = [
+  TIME_FIELD,
+  'siem_sourceip',
+  'siem_dstip',
+  GEO_FIELD,
+  TARGET_GEO_FIELD,
+  'siem_sourceip_geoip.country_name',
+  'waf_severity_level'
+];
+// Events older than this are not replayed when a stream opens
+const INITIAL_LOOKBACK_MS = 10000;
+const MAX_EVENTS_PER_POLL = 1000;
+const MAX_STREAMS_PER_USER = 3;
+
+// Open streams per user_id
+const openStreams = new Map();
+
+/**
+ * Cursor of a stream: the latest event time seen, and the ids seen at that
+ * time (the next poll starts at the same millisecond, so none are missed)
+ *
+ * @param {number} now - Current time in ms
+ * @returns {Object} Cursor ({ since, ids })
+ */
+function createCursor(now = Date.now()) {
+  return { since: new Date(now - INITIAL_LOOKBACK_MS).toISOString(), ids: [] };
+}
+
+/**
+ * Get the user_id of a user and the IPs of the nodes they may see
+ *
+ * @param {string} username - Logged-in user (req.user.data)
+ * @returns {Promise<Object|null>} Scope ({ userId, nodeIps }), nodeIps is null
+ * when every node is visible; null if the user does not exist
+ */
+async function getLiveScope(username) {
+  const user = await User.findOne({ where: { username }, attributes: ['user_id'], raw: true });
+  if (!user) {
+    return null;
+  }
+
+  const nodes = await sequelize.query('SELECT node_id FROM node_ids WHERE user_id = ?', {
+    replacements: [user.user_id],
+    type: sequelize.QueryTypes.SELECT
+  });
+  const nodeIds = nodes.map(node => Number(node.node_id));
+  if (nodeIds.includes(0)) {
+    return { userId: user.user_id, nodeIps: null };
+  }
+  if (nodeIds.length === 0) {
+    return { userId: user.user_id, nodeIps: [] };
+  }
+
+  const rows = await sequelize.query('SELECT node_ip FROM node WHERE node_id IN (?) AND node_ip IS NOT NULL', {
+    replacements: [nodeIds],
+    type: sequelize.QueryTypes.SELECT
+  });
+  return { userId: user.user_id, nodeIps: rows.map(row => row.node_ip) };
+}
+
+/**
+ * Count a new stream of a user
+ *
+ * @param {number} userId - user_id of the user
+ * @returns {Function|null} Releases the stream, or null when the user
+ * already has MAX_STREAMS_PER_USER open
+ */
+function acquireStream(userId) {
+  const open = openStreams.get(userId) || 0;
+  if (open >= MAX_STREAMS_PER_USER) {
+    return null;
+  }
+  openStreams.set(userId, open + 1);
+
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    const remaining = (openStreams.get(userId) || 1) - 1;
+    if (remaining > 0) {
+      openStreams.set(userId, remaining);
+    } else {
+      openStreams.delete(userId);
+    }
+  };
+}
+
+/**
+ * Build the search for events from the cursor on, oldest first
+ *
+ * @param {Object} cursor - Cursor from createCursor or pollLiveEvents
+ * @param {Array|null} nodeIps - Targeted IPs to keep, null for all
+ * @returns {Object} Search request body
+ */
+function buildLiveEventSearch(cursor, nodeIps = null) {
+  return {
+    size: MAX_EVENTS_PER_POLL,
+    _source: LIVE_EVENT_FIELDS,
+    sort: [{ [TIME_FIELD]: { order: 'asc' } }],
+    query: {
+      bool: {
+        filter: [
+          { range: { [TIME_FIELD]: { gte: cursor.since, format: 'strict_date_optional_time' } } },
+          { exists: { field: GEO_FIELD } },
+          ...(nodeIps ? [{ terms: { siem_dstip: nodeIps } }] : [])
+        ],
+        ...(cursor.ids.length > 0 ? { must_not: [{ ids: { values: cursor.ids } }] } : {})
+      }
+    }
+  };
+}
+
+/**
+ * Flatten a hit into a live event
+ *
+ * @param {Object} hit - Search hit
+ * @returns {Object|null} Event, or null without a usable source location
+ */
+function toLiveEvent(hit) {
+  const source = hit._source || {};
+  const geoip = source.siem_sourceip_geoip || {};
+  const location = parseGeoPoint(geoip.location);
+  const targetGeoip = source.siem_dstip_geoip || {};
+
+  if (!location) {
+    return null;
+  }
+
+  return {
+    id: hit._id,
+    timestamp: source[TIME_FIELD],
+    sourceIp: source.siem_sourceip || null,
+    targetIp: source.siem_dstip || null,
+    country: geoip.country_name || null,
+    severity: source.waf_severity_level ?? null,
+    location,
+    targetLocation: parseGeoPoint(targetGeoip.location)
+  };
+}
+
+/**
+ * Read a geo_point in any of its source formats
+ *
+ * @param {*} value - { lat, lon }, [lon, lat] or "lat,lon"
+ * @returns {Object|null} { lat, lon }
+ */
+function parseGeoPoint(value) {
+  let lat;
+  let lon;
+
+  if (Array.isArray(value)) {
+    [lon, lat] = value;
+  } else if (value && typeof value === 'object') {
+    ({ lat, lon } = value);
+  } else if (typeof value === 'string' && value.includes(',')) {
+    [lat, lon] = value.split(',').map(part => parseFloat(part));
+  }
+
+  lat = Number(lat);
+  lon = Number(lon);
+  return Number.isFinite(lat) && Number.isFinite(lon) ? { lat, lon } : null;
+}
+
+/**
+ * Fetch the events after the cursor
+ *
+ * @param {Object} client - Elasticsearch client instance
+ * @param {string} index - Index pattern to search (e.g., 'web-l')
+ * @param {Object} cursor - Cursor from createCursor or a previous poll
+ * @param {Array|null} nodeIps - Targeted IPs to keep, null for all
+ * @returns {Promise<Object>} { events, cursor }
+ */
+async function pollLiveEvents(client, index, cursor, nodeIps = null) {
+  const result = await client.search({ index, body: buildLiveEventSearch(cursor, nodeIps) });
+  const hits = result.hits.hits;
+
+  if (hits.length === 0) {
+    return { events: [], cursor };
+  }
+
+  const latest = hits[hits.length - 1]._source[TIME_FIELD];
+  const idsAtLatest = hits.filter(hit => hit._source[TIME_FIELD] === latest).map(hit => hit._id);
+
+  return {
+    events: hits.map(toLiveEvent).filter(Boolean),
+    cursor: {
+      since: latest,
+      // Still at the same millisecond: keep excluding the earlier ones too
+      ids: latest === cursor.since ? [...cursor.ids, ...idsAtLatest] : idsAtLatest
+    }
+  };
+}
+
+module.exports = {
+  getLiveScope,
+  acquireStream,
+  createCursor,
+  buildLiveEventSearch,
+  toLiveEvent,
+  parseGeoPoint,
+  pollLiveEvents
+};
@@ -0,0 +1,209 @@
+/**
+ * Notification Service
+ * Reads and marks admin notifications per user, and pushes new ones to the
+ * users' open notification streams (server-sent events). A notification is
+ * unread for the users listed in its notification_read_users column.
+ *
+ * Like getNotifications, the 'user' and 'admin' roles only see the node_down
+ * and node_up notifications of their own nodes (node 0 stands for all of
+ * them); other roles see every notification.
+ */
+
+const { EventEmitter } = require('events');
+const { Op } = require('sequelize');
+const sequelize = require('../database/db.config');
+const Notification = require('../models/notification.model');
+const User = require('../models/user.model');
+
+const DEFAULT_LIMIT = 20;
+const NODE_SCOPED_ROLES = ['user', 'admin'];
+const NODE_STATUS_TYPES = ['node_down', 'node_up'];
+
+// One event per user: 'user:<user_id>'
+const streams = new EventEmitter();
+streams.setMaxListeners(0); // One listener per open browser tab
+// Scope of every user with an open stream
+const streamScopes = new Map();
+
+/**
+ * Get the user_id of a user
+ *
+ * @param {string} username - Logged-in user (req.user.data)
+ * @returns {Promise<number|null>} user_id, or null if the user does not exist
+ */
+async function getUserId(username) {
+  const user = await User.findOne({ where: { username }, attributes: ['user_id'], raw: true });
+  return user ? user.user_id : null;
+}
+
+/**
+ * Get the user_id of a user and the notifications they may see
+ *
+ * @param {string} username - Logged-in user (req.user.data)
+ * @returns {Promise<Object|null>} Scope ({ userId, nodeIds }), nodeIds is null
+ * when every notification is visible; null if the user does not exist
+ */
+async function getUserScope(username) {
+  const user = await User.findOne({ where: { username }, attributes: ['user_id', 'role'], raw: true });
+  if (!user) {
+    return null;
+  }
+  if (!NODE_SCOPED_ROLES.includes(user.role)) {
+    return { userId: user.user_id, nodeIds: null };
+  }
+
+  const nodes = await sequelize.query('SELECT node_id FROM node_ids WHERE user_id = ?', {
+    replacements: [user.user_id],
+    type: sequelize.QueryTypes.SELECT
+  });
+  const nodeIds = nodes.map(node => Number(node.node_id));
+  return { userId: user.user_id, nodeIds: nodeIds.includes(0) ? null : nodeIds };
+}
+
+/**
+ * Get the latest notifications of a user
+ *
+ * @param {Object} scope - Scope from getUserScope
+ * @param {number} limit - Maximum number of notifications
+ * @returns {Promise<Array>} Newest first, each with an unread flag
+ */
+async function getRecentNotifications(scope, limit = DEFAULT_LIMIT) {
+  const notifications = await Notification.findAll({
+    where: visibleTo(scope),
+    order: [['createdAt', 'DESC']],
+    limit
+  });
+  return notifications.map(notification => toUserNotification(notification, scope.userId));
+}
+
+/**
+ * Count the unread notifications of a user
+ *
+ * @param {Object} scope - Scope from getUserScope
+ * @returns {Promise<number>} Unread count
+ */
+async function getUnreadCount(scope) {
+  return Notification.count({ where: { [Op.and]: [visibleTo(scope), unreadBy(scope.userId)] } });
+}
+
+/**
+ * Mark one notification as read and push the new count to the user's streams
+ *
+ * @param {Object} scope - Scope from getUserScope
+ * @param {number} id - Notification id
+ * @returns {Promise<boolean>} False if the notification does not exist or
+ * is not visible to the user
+ */
+async function markNotificationRead(scope, id) {
+  const notification = await Notification.findByPk(id);
+  if (!notification || !isVisibleTo(notification, scope)) {
+    return false;
+  }
+
+  const { userId } = scope;
+  const readers = parseUserIds(notification.notification_read_users);
+  if (readers.includes(userId)) {
+    const remaining = readers.filter(reader => reader !== userId);
+    await notification.update({ notification_read_users: remaining.length ? remaining.join(',') : '0' });
+    await publishUnreadCount(userId);
+  }
+  return true;
+}
+
+/**
+ * Listen to the events of a user's stream
+ *
+ * @param {Object} scope - Scope from getUserScope
+ * @param {Function} listener - Called with { type: 'notification' | 'count', data }
+ * @returns {Function} Stops listening
+ */
+function subscribe(scope, listener) {
+  const event = `user:${scope.userId}`;
+  streamScopes.set(scope.userId, scope);
+  streams.on(event, listener);
+
+  return () => {
+    streams.off(event, listener);
+    if (streams.listenerCount(event) === 0) {
+      streamScopes.delete(scope.userId);
+    }
+  };
+}
+
+/**
+ * Push a user's unread count to their open streams
+ *
+ * @param {number} userId - user_id of the user
+ */
+async function publishUnreadCount(userId) {
+  const scope = streamScopes.get(userId);
+  if (!scope) {
+    return;
+  }
+  const count = await getUnreadCount(scope);
+  streams.emit(`user:${userId}`, { type: 'count', data: { count } });
+}
+
+// Every new notification (node status, threshold alerts) reaches the open
+// streams of the recipients allowed to see it, however it was created
+Notification.addHook('afterCreate', async (notification) => {
+  try {
+    for (const userId of parseUserIds(notification.notification_read_users)) {
+      const scope = streamScopes.get(userId);
+      if (scope && isVisibleTo(notification, scope)) {
+        streams.emit(`user:${userId}`, { type: 'notification', data: toUserNotification(notification, userId) });
+        await publishUnreadCount(userId);
+      }
+    }
+  } catch (err) {
+    console.error('Error publishing notification:', err.message);
+  }
+});
+
+/**
+ * Where clause of the notifications visible in a scope
+ */
+function visibleTo(scope) {
+  if (scope.nodeIds === null) {
+    return {};
+  }
+  return { node_id: scope.nodeIds, notification_type: NODE_STATUS_TYPES };
+}
+
+function isVisibleTo(notification, scope) {
+  return scope.nodeIds === null ||
+    (scope.nodeIds.includes(notification.node_id) && NODE_STATUS_TYPES.includes(notification.notification_type));
+}
+
+/**
+ * FIND_IN_SET(userId, notification_read_users) > 0
+ */
+function unreadBy(userId) {
+  return sequelize.where(
+    sequelize.fn('FIND_IN_SET', String(userId), sequelize.col('notification_read_users')),
+    '>',
+    0
+  );
+}
+
+function parseUserIds(value) {
+  return String(value || '')
+    .split(',')
+    .map(Number)
+    .filter(id => id > 0);
+}
+
+function toUserNotification(notification, userId) {
+  const { notification_read_users, ...values } = notification.toJSON();
+  return { ...values, unread: parseUserIds(notification_read_users).includes(userId) };
+}
+
+module.exports = {
+  getUserId,
+  getUserScope,
+  getRecentNotifications,
+  getUnreadCount,
+  markNotificationRead,
+  subscribe,
+  publishUnreadCount
+};
@@ -0,0 +1,173 @@
+/**
+ * Saved Search Service
+ * Stores named dashboard searches (filter groups, query DSL, time range,
+ * columns and sort) - like Kibana's saved Discover searches. Searches are
+ * owned by their creator and are either private or visible to the team.
+ */
+
+const { Op } = require('sequelize');
+const SavedSearch = require('../models/savedSearch.model');
+const { validateColumns } = require('./columnLayoutService');
+
+const VISIBILITIES = ['private', 'team'];
+const SORT_ORDERS = ['asc', 'desc'];
+
+/**
+ * Get the searches a user can open (their own and the team's)
+ *
+ * @param {string} username - Logged-in user
+ * @param {string} indexPattern - Index the searches belong to (e.g., 'web-l')
+ * @returns {Promise<Array>} Searches sorted by name, with an isOwner flag
+ */
+async function getSavedSearches(username, indexPattern) {
+  const searches = await SavedSearch.findAll({
+    where: {
+      indexPattern,
+      [Op.or]: [{ owner: username }, { visibility: 'team' }]
+    },
+    order: [['name', 'ASC']]
+  });
+  return searches.map(search => withOwnership(search, username));
+}
+
+/**
+ * Get a search the user can open
+ *
+ * @param {string} username - Logged-in user
+ * @param {number} id - Search id
+ * @returns {Promise<Object|null>} Search with an isOwner flag, or null if
+ * it does not exist or is another user's private search
+ */
+async function getSavedSearch(username, id) {
+  const search = await SavedSearch.findOne({
+    where: {
+      id,
+      [Op.or]: [{ owner: username }, { visibility: 'team' }]
+    }
+  });
+  return search ? withOwnership(search, username) : null;
+}
+
+/**
+ * Create a search owned by the user
+ *
+ * @param {string} username - Owner of the search
+ * @param {string} indexPattern - Index the search belongs to
+ * @param {Object} data - Search from the request body
+ * @returns {Promise<Object>} Created search
+ */
+async function createSavedSearch(username, indexPattern, data) {
+  const values = validateSavedSearch(data);
+  await assertNameAvailable(username, values.name);
+
+  const search = await SavedSearch.create({ ...values, owner: username, indexPattern });
+  return withOwnership(search, username);
+}
+
+/**
+ * Update a search owned by the user (team members can open but not change it)
+ *
+ * @param {string} username - Owner of the search
+ * @param {number} id - Search id
+ * @param {Object} data - Search from the request body
+ * @returns {Promise<Object|null>} Updated search, or null if the user does not own it
+ */
+async function updateSavedSearch(username, id, data) {
+  const search = await SavedSearch.findOne({ where: { id, owner: username } });
+  if (!search) {
+    return null;
+  }
+
+  const values = validateSavedSearch(data);
+  if (values.name !== search.name) {
+    await assertNameAvailable(username, values.name);
+  }
+
+  await search.update(values);
+  return withOwnership(search, username);
+}
+
+/**
+ * Delete a search owned by the user
+ *
+ * @param {string} username - Owner of the search
+ * @param {number} id - Search id
+ * @returns {Promise<boolean>} True if a search was deleted
+ */
+async function deleteSavedSearch(username, id) {
+  const deleted = await SavedSearch.destroy({ where: { id, owner: username } });
+  return deleted > 0;
+}
+
+/**
+ * Validate and normalize a search from the request body
+ *
+ * @param {Object} data - Search from the request body
+ * @returns {Object} Values to store
+ */
+function validateSavedSearch(data) {
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  if (!name) {
+    throw new Error('Search name is required');
+  }
+
+  const visibility = data.visibility || 'private';
+  if (!VISIBILITIES.includes(visibility)) {
+    throw new Error(`Unknown visibility "${visibility}"`);
+  }
+
+  const filterState = data.filterState;
+  if (!filterState || !Array.isArray(filterState.filters)) {
+    throw new Error('Search must have a filter state');
+  }
+
+  const timeRange = data.timeRange || null;
+  if (timeRange && (typeof timeRange.from !== 'string' || typeof timeRange.to !== 'string')) {
+    throw new Error('Time range must have from and to');
+  }
+
+  const sort = data.sort || null;
+  if (sort && (!Array.isArray(sort) || typeof sort[0] !== 'string' || !SORT_ORDERS.includes(sort[1]))) {
+    throw new Error('Sort must be [field, "asc" | "desc"]');
+  }
+
+  // No columns means the table's default columns
+  const columns = Array.isArray(data.columns) && data.columns.length > 0
+    ? validateColumns(data.columns)
+    : [];
+
+  return {
+    name,
+    description: typeof data.description === 'string' ? data.description.trim() || null : null,
+    visibility,
+    filterState: {
+      filters: filterState.filters,
+      groups: Array.isArray(filterState.groups) ? filterState.groups : [],
+      customLabel: filterState.customLabel
+    },
+    queryDSL: data.queryDSL || null,
+    timeRange: timeRange ? { from: timeRange.from, to: timeRange.to } : null,
+    columns,
+    sort: sort ? [sort[0], sort[1]] : null
+  };
+}
+
+async function assertNameAvailable(username, name) {
+  const existing = await SavedSearch.findOne({ where: { owner: username, name } });
+  if (existing) {
+    throw new Error(`You already have a search named "${name}"`);
+  }
+}
+
+function withOwnership(search, username) {
+  return { ...search.toJSON(), isOwner: search.owner === username };
+}
+
+module.exports = {
+  getSavedSearches,
+  getSavedSearch,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  validateSavedSearch
+};
@@ -0,0 +1,110 @@
+/**
+ * Search After Service
+ * Pages through every hit of a query with a point in time (PIT) and
+ * search_after, without the 10,000 hit limit of from/size paging
+ */
+
+const DEFAULT_KEEP_ALIVE = '1m';
+const DEFAULT_BATCH_SIZE = 1000;
+
+/**
+ * Open a point in time on an index
+ *
+ * @param {Object} client - Elasticsearch client instance
+ * @param {string} index - Index pattern (e.g., 'web-l')
+ * @param {string} keepAlive - How long the PIT stays open between requests (e.g., '1m')
+ * @returns {Promise<string>} PIT id
+ */
+async function openPointInTime(client, index, keepAlive = DEFAULT_KEEP_ALIVE) {
+  const response = await client.transport.request({
+    method: 'POST',
+    path: `/${encodeURIComponent(index)}/_pit`,
+    query: { keep_alive: keepAlive }
+  });
+  return response.id;
+}
+
+/**
+ * Close a point in time (errors are only logged, the PIT expires anyway)
+ *
+ * @param {Object} client - Elasticsearch client instance
+ * @param {string} pitId - PIT id
+ */
+async function closePointInTime(client, pitId) {
+  try {
+    await client.transport.request({
+      method: 'DELETE',
+      path: '/_pit',
+      body: { id: pitId }
+    });
+  } catch (err) {
+    console.warn('Failed to close point in time:', err.message);
+  }
+}
+
+/**
+ * Iterate over all hits of a query, one batch at a time
+ *
+ * Searches with a PIT get the implicit _shard_doc tiebreaker, so the sort
+ * does not need a unique field. The PIT is closed when the iteration ends,
+ * including when the caller stops early (break / return).
+ *
+ * @param {Object} client - Elasticsearch client instance
+ * @param {string} index - Index pattern (e.g., 'web-l')
+ * @param {Object} options - Options object
+ * @param {Object} options.query - Query DSL query (default: match_all)
+ * @param {Array} options.sort - Sort clauses (default: @timestamp desc)
+ * @param {number} options.batchSize - Hits per request (default: 1000)
+ * @param {string} options.keepAlive - PIT keep alive (default: '1m')
+ * @returns {AsyncGenerator<Array>} Batches of hits
+ */
+async function* scanHits(client, index, options = {}) {
+  const {
+    query = { match_all: {} },
+    sort = [{ '@timestamp': { order: 'desc' } }],
+    batchSize = DEFAULT_BATCH_SIZE,
+    keepAlive = DEFAULT_KEEP_ALIVE
+  } = options;
+
+  let pitId = await openPointInTime(client, index, keepAlive);
+  let searchAfter = null;
+
+  try {
+    while (true) {
+      const body = {
+        size: batchSize,
+        query,
+        sort,
+        pit: { id: pitId, keep_alive: keepAlive },
+        track_total_hits: false
+      };
+      if (searchAfter) {
+        body.search_after = searchAfter;
+      }
+
+      // The index comes from the PIT
+      const result = await client.search({ body });
+      const hits = result.hits.hits;
+      pitId = result.pit_id || pitId;
+
+      if (hits.length === 0) {
+        return;
+      }
+
+      yield hits;
+
+      if (hits.length < batchSize) {
+        return;
+      }
+      searchAfter = hits[hits.length - 1].sort;
+    }
+  } finally {
+    await closePointInTime(client, pitId);
+  }
+}
+
+module.exports = {
+  openPointInTime,
+  closePointInTime,
+  scanHits
+};
@@ -0,0 +1,179 @@
+import { Component, OnInit } from '@angular/core';
+import { AlertRule, AlertRuleService, AlertMetric } from '../services/alert-rule.service';
+import { SavedSearch, SavedSearchService } from '../services/saved-search.service';
+import { FilterService } from '../services/filter.service';
+
+const DEFAULT_WINDOW_MINUTES = 5;
+const DEFAULT_THRESHOLD = 100;
+
+/**
+ * Alert rules page (#/alerts)
+ *
+ * Lists the user's threshold alerts and edits them in a form below the
+ * table. A rule watches the documents of a saved search, so the filters are
+ * built on the dashboard and saved before a rule uses them.
+ */
+@Component({
+  selector: 'app-alert-rules',
+  templateUrl: './alert-rules.component.html',
+  styleUrls: ['./alert-rules.component.scss']
+})
+export class AlertRulesComponent implements OnInit {
+  readonly metricOptions: Array<{ value: AlertMetric; label: string }> = [
+    { value: 'count', label: 'Document count' },
+    { value: 'cardinality', label: 'Unique count of a field' }
+  ];
+
+  rules: AlertRule[] = [];
+  savedSearches: SavedSearch[] = [];
+  aggregatableFields: string[] = [];
+
+  editedRule: AlertRule | null = null; // Rule in the form, without id when new
+  loading: boolean = false;
+  saving: boolean = false;
+  error: string | null = null;
+  formError: string | null = null;
+
+  constructor(
+    private alertRuleService: AlertRuleService,
+    private savedSearchService: SavedSearchService,
+    private filterService: FilterService
+  ) {}
+
+  ngOnInit(): void {
+    this.loadRules();
+
+    this.savedSearchService.getSavedSearches().subscribe(
+      (searches) => {
+        this.savedSearches = searches;
+      },
+      (error) => {
+        console.error('Error loading saved searches:', error);
+      }
+    );
+
+    // Group-by and unique count fields must be aggregatable
+    this.filterService.getFieldsWithTypes().subscribe(
+      (fields) => {
+        this.aggregatableFields = fields.filter(f => f.aggregatable).map(f => f.name);
+      },
+      (error) => {
+        console.error('Error loading fields:', error);
+      }
+    );
+  }
+
+  loadRules(): void {
+    this.loading = true;
+    this.error = null;
+    this.alertRuleService.getAlertRules().subscribe(
+      (rules) => {
+        this.rules = rules;
+        this.loading = false;
+      },
+      (error) => {
+        console.error('Error loading alert rules:', error);
+        this.error = error.error?.message || 'Failed to load alert rules';
+        this.loading = false;
+      }
+    );
+  }
+
+  newRule(): void {
+    this.formError = null;
+    this.editedRule = {
+      name: '',
+      enabled: true,
+      savedSearchId: null,
+      windowMinutes: DEFAULT_WINDOW_MINUTES,
+      metric: 'count',
+      metricField: null,
+      threshold: DEFAULT_THRESHOLD,
+      groupBy: null
+    };
+  }
+
+  editRule(rule: AlertRule): void {
+    this.formError = null;
+    this.editedRule = { ...rule };
+  }
+
+  cancelEdit(): void {
+    this.editedRule = null;
+    this.formError = null;
+  }
+
+  saveRule(): void {
+    const rule = this.editedRule;
+    if (!rule) {
+      return;
+    }
+    if (!rule.name.trim() || !rule.savedSearchId) {
+      this.formError = 'Please enter a name and choose a saved search';
+      return;
+    }
+
+    this.saving = true;
+    this.formError = null;
+    const request = rule.id
+      ? this.alertRuleService.updateAlertRule(rule.id, rule)
+      : this.alertRuleService.createAlertRule(rule);
+
+    request.subscribe(
+      () => {
+        this.saving = false;
+        this.editedRule = null;
+        this.loadRules();
+      },
+      (error) => {
+        console.error('Error saving alert rule:', error);
+        this.formError = error.error?.message || 'Failed to save alert rule';
+        this.saving = false;
+      }
+    );
+  }
+
+  toggleEnabled(rule: AlertRule): void {
+    this.alertRuleService.updateAlertRule(rule.id!, { ...rule, enabled: !rule.enabled }).subscribe(
+      (updated) => {
+        this.rules = this.rules.map(r => r.id === updated.id ? updated : r);
+      },
+      (error) => {
+        console.error('Error updating alert rule:', error);
+        this.error = error.error?.message || 'Failed to update alert rule';
+      }
+    );
+  }
+
+  deleteRule(rule: AlertRule): void {
+    if (!confirm(`Delete the alert rule "${rule.name}"?`)) {
+      return;
+    }
+    this.alertRuleService.deleteAlertRule(rule.id!).subscribe(
+      () => {
+        this.rules = this.rules.filter(r => r.id !== rule.id);
+        if (this.editedRule?.id === rule.id) {
+          this.editedRule = null;
+        }
+      },
+      (error) => {
+        console.error('Error deleting alert rule:', error);
+        this.error = error.error?.message || 'Failed to delete alert rule';
+      }
+    );
+  }
+
+  getSavedSearchName(id: number | null): string {
+    const search = this.savedSearches.find(s => s.id === id);
+    return search ? search.name : `Saved search #${id}`;
+  }
+
+  /**
+   * e.g. "more than 100 documents per siem_sourceip in 5 min"
+   */
+  describeCondition(rule: AlertRule): string {
+    const metric = rule.metric === 'cardinality' ? `unique ${rule.metricField} values` : 'documents';
+    const group = rule.groupBy ? ` per ${rule.groupBy}` : '';
+    return `more than ${rule.threshold} ${metric}${group} in ${rule.windowMinutes} min`;
+  }
+}
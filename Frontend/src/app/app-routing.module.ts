@@ -10,6 +10,9 @@ import { HomeComponent } from './home/home.component';
 import { AboutComponent } from './about/about.component';
 import { NotfoundComponent } from './notfound/notfound.component';
 import { DashboardFilterWrapperComponent } from './dashboard-filter-wrapper/dashboard-filter-wrapper.component';
+import { DocumentViewComponent } from './document-view/document-view.component';
+import { SurroundingDocumentsComponent } from './surrounding-documents/surrounding-documents.component';
+import { AlertRulesComponent } from './alert-rules/alert-rules.component';
 const routes: Routes = [
   { path: '', component: LoginComponent  },
 
@@ -28,6 +31,12 @@ const routes: Routes = [
   // {path:'**',component:NotfoundComponent  },
 
    {path:'dashboard',component:DashboardFilterWrapperComponent },
+
+   {path:'doc/:index/:id',component:DocumentViewComponent },
+
+   {path:'context/:index/:id',component:SurroundingDocumentsComponent },
+
+   {path:'alerts',component:AlertRulesComponent },
   
 ];
 
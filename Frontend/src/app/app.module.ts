@@ -29,6 +29,19 @@ import { KibanaDataTableComponent } from './kibana-data-table/kibana-data-table.
 import { KibanaFilterBarComponent } from './kibana-filter-bar/kibana-filter-bar.component';
 import { FilterGroupManagerComponent } from './filter-group-manager/filter-group-manager.component';
 import { FilterBuilderComponent } from './filter-builder/filter-builder.component';
+import { TimePickerComponent } from './time-picker/time-picker.component';
+import { EventHistogramComponent } from './event-histogram/event-histogram.component';
+import { FieldSidebarComponent } from './field-sidebar/field-sidebar.component';
+import { ColumnManagerComponent } from './column-manager/column-manager.component';
+import { DocumentViewComponent } from './document-view/document-view.component';
+import { SurroundingDocumentsComponent } from './surrounding-documents/surrounding-documents.component';
+import { QueryDslEditorComponent } from './query-dsl-editor/query-dsl-editor.component';
+import { AlertRulesComponent } from './alert-rules/alert-rules.component';
+import { NotificationBellComponent } from './notification-bell/notification-bell.component';
+import { DashboardPanelsComponent } from './dashboard-panels/dashboard-panels.component';
+import { PanelChartComponent } from './panel-chart/panel-chart.component';
+import { AttackMapComponent } from './attack-map/attack-map.component';
+import { DragDropModule } from '@angular/cdk/drag-drop';
 @NgModule({
   declarations: [
     AppComponent,
@@ -45,7 +58,19 @@ import { FilterBuilderComponent } from './filter-builder/filter-builder.componen
     KibanaDataTableComponent,
     KibanaFilterBarComponent,
     FilterGroupManagerComponent,
-    FilterBuilderComponent
+    FilterBuilderComponent,
+    TimePickerComponent,
+    EventHistogramComponent,
+    FieldSidebarComponent,
+    ColumnManagerComponent,
+    DocumentViewComponent,
+    SurroundingDocumentsComponent,
+    QueryDslEditorComponent,
+    AlertRulesComponent,
+    NotificationBellComponent,
+    DashboardPanelsComponent,
+    PanelChartComponent,
+    AttackMapComponent
   ],
   imports: [
     BrowserModule.withServerTransition({ appId: 'ng-cli-universal' }),
@@ -59,6 +84,7 @@ import { FilterBuilderComponent } from './filter-builder/filter-builder.componen
     BrowserAnimationsModule,
     ReactiveFormsModule,
     MatDialogModule,
+    DragDropModule,
     ToastrModule.forRoot({
       positionClass :'toast-top-right',
       preventDuplicates: true,
@@ -0,0 +1,396 @@
+import {
+  Component,
+  AfterViewInit,
+  OnChanges,
+  OnDestroy,
+  SimpleChanges,
+  Input,
+  Output,
+  EventEmitter,
+  HostListener,
+  ViewChild,
+  ElementRef,
+  NgZone
+} from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { environment } from 'src/environments/environment';
+import { Subscription } from 'rxjs';
+import { skip } from 'rxjs/operators';
+import * as L from 'leaflet';
+import { IndexField, GeoArea } from '../filter.model';
+import { MapserviceService } from '../services/mapservice.service';
+import { TimefilterService } from '../services/timefilter.service';
+import { LiveAttackService } from '../services/live-attack.service';
+import { resolveAggregatableField } from '../dashboard-panels/dashboard-panels.model';
+import {
+  GeoCluster,
+  SOURCE_IP_FIELD,
+  SOURCE_COUNTRY_FIELD,
+  buildGeoAggs,
+  getGeotilePrecision,
+  parseGeoClusters
+} from './attack-map.model';
+import {
+  HoneypotNode,
+  LiveAttackEvent,
+  ARC_TICK_MS,
+  ARC_LIFETIME_MS,
+  enqueueLiveEvents,
+  getArcBudget,
+  getSeverityColor,
+  getTargetNode,
+  indexNodesByIp,
+  locateNodes
+} from './live-attack.model';
+
+const DRAW_STYLE: L.PolylineOptions = { color: '#0061a8', weight: 2, fillOpacity: 0.1 };
+
+/**
+ * Map of attack sources (siem_sourceip_geoip.location)
+ *
+ * Features:
+ * - Clustered markers sized by event count
+ * - Popups with the top source IPs and countries of a cluster
+ * - Panning and zooming re-aggregate the visible area at a matching precision
+ * - Drawing a rectangle or polygon emits the area for a geo filter
+ * - Live mode draws short-lived arcs from new events to the targeted nodes
+ */
+@Component({
+  selector: 'app-attack-map',
+  templateUrl: './attack-map.component.html',
+  styleUrls: ['./attack-map.component.scss']
+})
+export class AttackMapComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @Input() queryDSL: any = null;
+  @Input() indexFields: IndexField[] = [];
+  @Output() areaDrawn = new EventEmitter<GeoArea>();
+
+  @ViewChild('mapContainer') mapContainer!: ElementRef<HTMLDivElement>;
+
+  clusters: GeoCluster[] = [];
+  loading: boolean = false;
+  error: string | null = null;
+  drawMode: GeoArea['type'] | null = null;
+  live: boolean = false;
+  liveEvents: number = 0;
+  liveDropped: number = 0;
+  liveError: string | null = null;
+
+  private map?: L.Map;
+  private clusterLayer = L.layerGroup();
+  private drawLayer = L.layerGroup();
+  private drawStart: L.LatLng | null = null;
+  private drawPoints: L.LatLng[] = [];
+  private drawShape?: L.Rectangle | L.Polyline;
+  private nodeLayer = L.layerGroup();
+  private arcLayer = L.layerGroup();
+  private nodes = new Map<string, HoneypotNode>();
+  private arcQueue: LiveAttackEvent[] = [];
+  private activeArcs: { arc: L.Polyline; expires: number }[] = [];
+  private arcTimer?: ReturnType<typeof setInterval>;
+  private searchSubscription?: Subscription;
+  private timeSubscription?: Subscription;
+  private nodeSubscription?: Subscription;
+  private liveSubscription?: Subscription;
+
+  constructor(
+    private http: HttpClient,
+    private mapService: MapserviceService,
+    private timefilter: TimefilterService,
+    private liveAttackService: LiveAttackService,
+    private zone: NgZone
+  ) {}
+
+  ngAfterViewInit(): void {
+    // Outside Angular: map animations would otherwise run change detection
+    this.zone.runOutsideAngular(() => {
+      this.map = L.map(this.mapContainer.nativeElement, { worldCopyJump: true }).setView([20, 0], 2);
+      L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+        maxZoom: 18,
+        attribution: '&copy; OpenStreetMap contributors'
+      }).addTo(this.map);
+      this.clusterLayer.addTo(this.map);
+      this.drawLayer.addTo(this.map);
+      this.nodeLayer.addTo(this.map);
+      this.arcLayer.addTo(this.map);
+      this.map.on('moveend', () => this.zone.run(() => this.loadClusters()));
+      this.map.on('mousedown', (e: L.LeafletMouseEvent) => this.onDrawMouseDown(e));
+      this.map.on('mousemove', (e: L.LeafletMouseEvent) => this.onDrawMouseMove(e));
+      this.map.on('mouseup', (e: L.LeafletMouseEvent) => this.onDrawMouseUp(e));
+      this.map.on('click', (e: L.LeafletMouseEvent) => this.onDrawClick(e));
+      this.map.on('dblclick', () => this.onDrawDoubleClick());
+    });
+
+    this.timeSubscription = this.timefilter.timeRangeChanged.pipe(skip(1)).subscribe(() => {
+      this.loadClusters();
+    });
+    this.loadClusters();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    const queryChanged = changes['queryDSL'] && !changes['queryDSL'].firstChange;
+    const fieldsChanged = changes['indexFields'] && !changes['indexFields'].firstChange;
+    if (queryChanged || fieldsChanged) {
+      this.loadClusters();
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (this.searchSubscription) {
+      this.searchSubscription.unsubscribe();
+    }
+    if (this.timeSubscription) {
+      this.timeSubscription.unsubscribe();
+    }
+    this.stopLive();
+    this.map?.remove();
+  }
+
+  get totalEvents(): number {
+    return this.clusters.reduce((sum, cluster) => sum + cluster.count, 0);
+  }
+
+  /**
+   * Aggregates the visible area at the precision of the current zoom
+   */
+  loadClusters(): void {
+    if (!this.map) {
+      return;
+    }
+    if (this.searchSubscription) {
+      this.searchSubscription.unsubscribe();
+    }
+
+    const visible = this.map.getBounds();
+    const aggs = buildGeoAggs(
+      getGeotilePrecision(this.map.getZoom()),
+      { north: visible.getNorth(), south: visible.getSouth(), east: visible.getEast(), west: visible.getWest() },
+      resolveAggregatableField(SOURCE_IP_FIELD, this.indexFields),
+      resolveAggregatableField(SOURCE_COUNTRY_FIELD, this.indexFields)
+    );
+
+    this.loading = true;
+    this.error = null;
+
+    this.searchSubscription = this.http.post<any>(environment.aggregate, {
+      queryDSL: this.timefilter.withTimeRange(this.queryDSL),
+      aggs
+    }).subscribe(
+      (response) => {
+        this.clusters = parseGeoClusters(response.aggregations);
+        this.mapService.drawGeoClusters(this.clusterLayer, this.clusters);
+        this.loading = false;
+      },
+      (error) => {
+        console.error('Error loading attack map:', error);
+        this.error = error.error?.message || 'Failed to load attack map';
+        this.loading = false;
+      }
+    );
+  }
+
+  // ============================================================================
+  // Live Attacks
+  // ============================================================================
+
+  toggleLive(): void {
+    if (this.live) {
+      this.stopLive();
+    } else {
+      this.startLive();
+    }
+  }
+
+  /**
+   * Loads the honeypot nodes, then follows the live events stream
+   */
+  private startLive(): void {
+    this.live = true;
+    this.liveEvents = 0;
+    this.liveDropped = 0;
+    this.liveError = null;
+
+    this.nodeSubscription = this.http.get<any[]>(environment.nodeDetail).subscribe(
+      (response) => {
+        this.nodes = indexNodesByIp(response);
+        this.drawNodes(Array.from(this.nodes.values()).filter(node => node.position));
+
+        this.liveSubscription = this.liveAttackService.connect().subscribe(events => this.queueLiveEvents(events));
+        this.zone.runOutsideAngular(() => {
+          this.arcTimer = setInterval(() => this.drawArcs(), ARC_TICK_MS);
+        });
+      },
+      (error) => {
+        console.error('Error loading honeypot nodes:', error);
+        this.liveError = error.error?.message || 'Failed to load honeypot nodes';
+        this.live = false;
+      }
+    );
+  }
+
+  private stopLive(): void {
+    this.live = false;
+    if (this.nodeSubscription) {
+      this.nodeSubscription.unsubscribe();
+    }
+    if (this.liveSubscription) {
+      this.liveSubscription.unsubscribe();
+    }
+    if (this.arcTimer) {
+      clearInterval(this.arcTimer);
+      this.arcTimer = undefined;
+    }
+    this.arcQueue = [];
+    this.activeArcs = [];
+    this.nodeLayer.clearLayers();
+    this.arcLayer.clearLayers();
+  }
+
+  /**
+   * Runs outside Angular (see LiveAttackService.connect); only the counters
+   * are brought back into the zone, once per batch
+   */
+  private queueLiveEvents(events: LiveAttackEvent[]): void {
+    this.drawNodes(locateNodes(this.nodes, events));
+
+    // Events for nodes that are not on the map would never be drawn
+    const drawable = events.filter(event => getTargetNode(this.nodes, event));
+    const { queue, dropped } = enqueueLiveEvents(this.arcQueue, drawable);
+    this.arcQueue = queue;
+
+    this.zone.run(() => {
+      this.liveEvents += events.length;
+      this.liveDropped += dropped;
+    });
+  }
+
+  private drawNodes(nodes: HoneypotNode[]): void {
+    if (this.map && nodes.length > 0) {
+      this.mapService.getLiveMap(this.map, nodes.map(node => ({
+        lat: node.position!.lat,
+        lng: node.position!.lng,
+        organization: node.name
+      })), 'small', this.nodeLayer);
+    }
+  }
+
+  /**
+   * One animation tick: removes expired arcs and draws the next few queued
+   * events, so a burst is spread over time instead of drawn at once
+   */
+  private drawArcs(): void {
+    const now = Date.now();
+    this.activeArcs = this.activeArcs.filter(active => {
+      if (active.expires > now) {
+        return true;
+      }
+      this.arcLayer.removeLayer(active.arc);
+      return false;
+    });
+
+    const batch = this.arcQueue.splice(0, getArcBudget(this.arcQueue.length, this.activeArcs.length));
+    for (const event of batch) {
+      const arc = this.mapService.drawAttackArc(
+        this.arcLayer,
+        { lat: event.location.lat, lng: event.location.lon },
+        getTargetNode(this.nodes, event)!.position!,
+        getSeverityColor(event.severity)
+      );
+      this.activeArcs.push({ arc, expires: now + ARC_LIFETIME_MS });
+    }
+  }
+
+  // ============================================================================
+  // Area Drawing
+  // ============================================================================
+
+  /**
+   * Rectangles are dragged out, polygons are clicked vertex by vertex and
+   * closed with a double-click
+   */
+  startDrawing(mode: GeoArea['type']): void {
+    this.cancelDrawing();
+    this.drawMode = mode;
+    if (mode === 'rectangle') {
+      this.map?.dragging.disable();
+    } else {
+      this.map?.doubleClickZoom.disable();
+    }
+  }
+
+  @HostListener('document:keydown.escape')
+  cancelDrawing(): void {
+    this.drawMode = null;
+    this.drawStart = null;
+    this.drawPoints = [];
+    this.drawShape = undefined;
+    this.drawLayer.clearLayers();
+    this.map?.dragging.enable();
+    this.map?.doubleClickZoom.enable();
+  }
+
+  private onDrawMouseDown(e: L.LeafletMouseEvent): void {
+    if (this.drawMode !== 'rectangle') {
+      return;
+    }
+    this.drawStart = e.latlng;
+    this.drawShape = L.rectangle(L.latLngBounds(e.latlng, e.latlng), DRAW_STYLE).addTo(this.drawLayer);
+  }
+
+  private onDrawMouseMove(e: L.LeafletMouseEvent): void {
+    if (this.drawMode === 'rectangle' && this.drawStart) {
+      (this.drawShape as L.Rectangle).setBounds(L.latLngBounds(this.drawStart, e.latlng));
+    } else if (this.drawMode === 'polygon' && this.drawPoints.length > 0) {
+      (this.drawShape as L.Polyline).setLatLngs([...this.drawPoints, e.latlng]);
+    }
+  }
+
+  private onDrawMouseUp(e: L.LeafletMouseEvent): void {
+    if (this.drawMode !== 'rectangle' || !this.drawStart) {
+      return;
+    }
+    const bounds = L.latLngBounds(this.drawStart.wrap(), e.latlng.wrap());
+    if (bounds.getNorth() === bounds.getSouth() || bounds.getEast() === bounds.getWest()) {
+      // A click without a drag draws nothing, keep waiting for one
+      this.drawStart = null;
+      this.drawLayer.clearLayers();
+      return;
+    }
+    this.finishDrawing({
+      type: 'rectangle',
+      points: [
+        { lat: bounds.getNorth(), lon: bounds.getWest() },
+        { lat: bounds.getSouth(), lon: bounds.getEast() }
+      ]
+    });
+  }
+
+  private onDrawClick(e: L.LeafletMouseEvent): void {
+    if (this.drawMode !== 'polygon') {
+      return;
+    }
+    this.drawPoints.push(e.latlng.wrap());
+    if (!this.drawShape) {
+      this.drawShape = L.polyline(this.drawPoints, DRAW_STYLE).addTo(this.drawLayer);
+    }
+  }
+
+  private onDrawDoubleClick(): void {
+    if (this.drawMode !== 'polygon') {
+      return;
+    }
+    // The double-click's own clicks added the last vertex twice
+    const points = this.drawPoints.filter((point, index) => index === 0 || !point.equals(this.drawPoints[index - 1]));
+    if (points.length < 3) {
+      return;
+    }
+    this.finishDrawing({ type: 'polygon', points: points.map(point => ({ lat: point.lat, lon: point.lng })) });
+  }
+
+  private finishDrawing(area: GeoArea): void {
+    this.zone.run(() => {
+      this.cancelDrawing();
+      this.areaDrawn.emit(area);
+    });
+  }
+}
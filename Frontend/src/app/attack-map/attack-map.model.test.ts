@@ -0,0 +1,81 @@
+/**
+ * Test Cases for Attack Map Models
+ *
+ * Grid results are shaped like a geotile_grid response on
+ * siem_sourceip_geoip.location.
+ */
+
+import {
+  buildGeoAggs,
+  formatClusterCount,
+  getClusterSize,
+  getGeotilePrecision,
+  parseGeoClusters,
+  toGeoBoundingBox,
+} from './attack-map.model';
+
+// ============================================================================
+// Test Cases
+// ============================================================================
+
+export function runAllTests() {
+  console.log('=== Running Attack Map Model Tests ===\n');
+
+  // Test 1: Grid aggregation
+  testGeoAggs();
+
+  // Test 2: Clusters
+  testClusters();
+
+  console.log('\n=== Tests Complete ===');
+}
+
+// ============================================================================
+// Individual Test Cases
+// ============================================================================
+
+function testGeoAggs() {
+  console.log('\n=== Grid Aggregation ===');
+
+  console.log('Precision at zoom -1, 2, 5.7, 30:', [-1, 2, 5.7, 30].map(getGeotilePrecision));
+  console.log('Expected: [ 2, 5, 8, 29 ]');
+
+  // Leaflet bounds past the antimeridian are clamped; the whole world needs no bounds
+  console.log('Clamped:', JSON.stringify(toGeoBoundingBox({ north: 95, south: -10, east: 200, west: 20 })));
+  console.log('Expected: {"top_left":{"lat":90,"lon":20},"bottom_right":{"lat":-10,"lon":180}}');
+  console.log('Whole world:', toGeoBoundingBox({ north: 85, south: -85, east: 540, west: -180 }));
+  console.log('Expected: null');
+
+  const aggs = buildGeoAggs(5, { north: 60, south: 35, east: 30, west: -10 }, 'siem_sourceip.keyword');
+  console.log('Aggs:', JSON.stringify(aggs));
+  console.log('Expected: geotile_grid precision 5 with bounds, centroid, top_ips on siem_sourceip.keyword, top_countries');
+}
+
+function testClusters() {
+  console.log('\n=== Clusters ===');
+
+  const aggregations = {
+    grid: {
+      buckets: [
+        {
+          key: '5/16/10',
+          doc_count: 1240,
+          centroid: { location: { lat: 48.85, lon: 2.35 }, count: 1240 },
+          top_ips: { buckets: [{ key: '51.15.0.1', doc_count: 900 }] },
+          top_countries: { buckets: [{ key: 'France', doc_count: 1240 }] },
+        },
+        { key: '5/0/0', doc_count: 3 },
+      ],
+    },
+  };
+  console.log('Clusters:', JSON.stringify(parseGeoClusters(aggregations)));
+  console.log('Expected: one cluster at 48.85, 2.35 with 51.15.0.1 (900) and France (1240); the cell without a centroid is skipped');
+  console.log('No result:', parseGeoClusters(undefined));
+  console.log('Expected: []');
+
+  console.log('Sizes:', getClusterSize(1240, 1240), getClusterSize(310, 1240), getClusterSize(5, 0));
+  console.log('Expected: 56 40 24');
+
+  console.log('Labels:', [950, 1200, 1000000, 3450000].map(formatClusterCount));
+  console.log("Expected: [ '950', '1.2k', '1M', '3.5M' ]");
+}
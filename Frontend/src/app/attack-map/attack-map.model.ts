@@ -0,0 +1,156 @@
+/**
+ * Attack Map Models
+ * Source locations are aggregated into geotile grid cells of the visible
+ * map area; each cell becomes one cluster marker at its centroid.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GeoCluster {
+  key: string; // Geotile "zoom/x/y"
+  count: number;
+  lat: number;
+  lon: number;
+  topIps: GeoTermCount[];
+  topCountries: GeoTermCount[];
+}
+
+export interface GeoTermCount {
+  key: string;
+  count: number;
+}
+
+/**
+ * Visible map area, as in Leaflet's LatLngBounds
+ */
+export interface GeoBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const GEO_FIELD = 'siem_sourceip_geoip.location';
+export const SOURCE_IP_FIELD = 'siem_sourceip';
+export const SOURCE_COUNTRY_FIELD = 'siem_sourceip_geoip.country_name';
+
+// Grid cells are 2^GRID_ZOOM_OFFSET times smaller than the map's tiles
+const GRID_ZOOM_OFFSET = 3;
+const MAX_GEOTILE_PRECISION = 29;
+const MAX_CELLS = 2000;
+const TOP_IPS = 5;
+const TOP_COUNTRIES = 3;
+
+const MIN_MARKER_SIZE = 24;
+const MAX_MARKER_SIZE = 56;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * geotile_grid precision for a map zoom level: the closer the zoom, the
+ * finer the cells, so markers keep roughly the same spacing on screen
+ */
+export function getGeotilePrecision(zoom: number): number {
+  return Math.min(Math.max(Math.floor(zoom) + GRID_ZOOM_OFFSET, 0), MAX_GEOTILE_PRECISION);
+}
+
+/**
+ * Clamps the visible area to valid coordinates (Leaflet bounds can extend
+ * past the antimeridian); null when the whole world is visible
+ */
+export function toGeoBoundingBox(bounds: GeoBounds): any | null {
+  if (bounds.east - bounds.west >= 360) {
+    return null;
+  }
+  const clamp = (value: number, limit: number) => Math.min(Math.max(value, -limit), limit);
+  return {
+    top_left: { lat: clamp(bounds.north, 90), lon: clamp(bounds.west, 180) },
+    bottom_right: { lat: clamp(bounds.south, 90), lon: clamp(bounds.east, 180) }
+  };
+}
+
+/**
+ * Grid aggregation with the centroid and the top source IPs and countries
+ * of every cell
+ *
+ * @param precision - geotile precision (see getGeotilePrecision)
+ * @param bounds - Visible area, cells outside it are not returned
+ * @param ipField - Aggregatable source IP field
+ * @param countryField - Aggregatable country field
+ */
+export function buildGeoAggs(
+  precision: number,
+  bounds: GeoBounds | null,
+  ipField: string = SOURCE_IP_FIELD,
+  countryField: string = SOURCE_COUNTRY_FIELD
+): any {
+  const boundingBox = bounds ? toGeoBoundingBox(bounds) : null;
+
+  return {
+    grid: {
+      geotile_grid: {
+        field: GEO_FIELD,
+        precision,
+        size: MAX_CELLS,
+        ...(boundingBox ? { bounds: boundingBox } : {})
+      },
+      aggs: {
+        centroid: { geo_centroid: { field: GEO_FIELD } },
+        top_ips: { terms: { field: ipField, size: TOP_IPS } },
+        top_countries: { terms: { field: countryField, size: TOP_COUNTRIES } }
+      }
+    }
+  };
+}
+
+/**
+ * Turns the grid buckets into clusters (cells without a centroid are skipped)
+ */
+export function parseGeoClusters(aggregations: any): GeoCluster[] {
+  const buckets: any[] = aggregations?.grid?.buckets || [];
+  const toTerms = (agg: any): GeoTermCount[] =>
+    (agg?.buckets || []).map((bucket: any) => ({ key: String(bucket.key), count: bucket.doc_count }));
+
+  return buckets
+    .filter(bucket => bucket.centroid?.location)
+    .map(bucket => ({
+      key: bucket.key,
+      count: bucket.doc_count,
+      lat: bucket.centroid.location.lat,
+      lon: bucket.centroid.location.lon,
+      topIps: toTerms(bucket.top_ips),
+      topCountries: toTerms(bucket.top_countries)
+    }));
+}
+
+/**
+ * Marker diameter in pixels, by square root so areas follow the counts
+ */
+export function getClusterSize(count: number, maxCount: number): number {
+  if (maxCount <= 0) {
+    return MIN_MARKER_SIZE;
+  }
+  const ratio = Math.sqrt(count / maxCount);
+  return Math.round(MIN_MARKER_SIZE + ratio * (MAX_MARKER_SIZE - MIN_MARKER_SIZE));
+}
+
+/**
+ * Short count label: 950, 1.2k, 3.4M
+ */
+export function formatClusterCount(count: number): string {
+  if (count >= 1000000) {
+    return `${(count / 1000000).toFixed(1).replace(/\.0$/, '')}M`;
+  }
+  if (count >= 1000) {
+    return `${(count / 1000).toFixed(1).replace(/\.0$/, '')}k`;
+  }
+  return String(count);
+}
@@ -0,0 +1,141 @@
+/**
+ * Test Cases for Live Attack Models
+ *
+ * Node rows are shaped like the /nodeDetail response (users.controller.js
+ * nodeDetail), which has no coordinates.
+ */
+
+import {
+  LiveAttackEvent,
+  MAX_ARCS_PER_TICK,
+  enqueueLiveEvents,
+  getArcBudget,
+  getSeverityLevel,
+  getTargetNode,
+  indexNodesByIp,
+  locateNodes,
+} from './live-attack.model';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const NODE_DETAIL_ROWS = [
+  {
+    node_id: 3,
+    node_location: 'Pune DC',
+    email_address: 'soc@example.com',
+    last_up_time: '2026-10-19T12:00:00.000Z',
+    node_reg_date: '2026-01-05T09:30:00.000Z',
+    mac_address: '00:1b:44:11:3a:b7',
+    network_type: 'public',
+    node_status: 'up',
+    base_ip: '203.0.113.0',
+    node_ip: '203.0.113.10',
+    sector: 'Banking',
+    city: 'Pune',
+    state: 'Maharashtra',
+    available_hp: 2,
+    deploye_hp: 1,
+  },
+  {
+    node_id: 4,
+    node_location: null,
+    email_address: 'soc@example.com',
+    last_up_time: null,
+    node_reg_date: '2026-02-11T10:00:00.000Z',
+    mac_address: '00:1b:44:11:3a:b8',
+    network_type: 'public',
+    node_status: 'down',
+    base_ip: '198.51.100.0',
+    node_ip: '198.51.100.7',
+    sector: 'Power',
+    city: 'Delhi',
+    state: 'Delhi',
+    available_hp: 0,
+    deploye_hp: 0,
+  },
+];
+
+function createEvent(id: string, targetIp: string | null, targetLocation: LiveAttackEvent['targetLocation']): LiveAttackEvent {
+  return {
+    id,
+    timestamp: '2026-10-19T12:00:01.000Z',
+    sourceIp: '45.33.32.156',
+    targetIp,
+    country: 'United States',
+    severity: 'CRITICAL',
+    location: { lat: 37.77, lon: -122.42 },
+    targetLocation,
+  };
+}
+
+// ============================================================================
+// Test Cases
+// ============================================================================
+
+export function runAllTests() {
+  console.log('=== Running Live Attack Model Tests ===\n');
+
+  // Test 1: Nodes from the /nodeDetail response
+  testNodesFromNodeDetail();
+
+  // Test 2: Throttling
+  testThrottling();
+
+  // Test 3: Severity Levels
+  testSeverityLevels();
+
+  console.log('\n=== Tests Complete ===');
+}
+
+// ============================================================================
+// Individual Test Cases
+// ============================================================================
+
+function testNodesFromNodeDetail() {
+  console.log('\n=== Nodes from the /nodeDetail Response ===');
+
+  const nodes = indexNodesByIp(NODE_DETAIL_ROWS);
+  console.log('Indexed nodes:', JSON.stringify(Array.from(nodes.values())));
+  console.log('Expected: both nodes by node_ip, named "Pune DC" and "Delhi, Delhi", without a position');
+
+  const located = createEvent('e1', '203.0.113.10', { lat: 18.52, lon: 73.86 });
+  const unlocated = createEvent('e2', '198.51.100.7', null);
+  const unknownTarget = createEvent('e3', '192.0.2.1', { lat: 1, lon: 2 });
+  console.log('Before locating:', getTargetNode(nodes, located));
+  console.log('Expected: null (no position yet)');
+
+  const placed = locateNodes(nodes, [located, unlocated, unknownTarget]);
+  console.log('Placed nodes:', placed.map(node => node.ip));
+  console.log('Expected: [ \'203.0.113.10\' ]');
+  console.log('Target of e1:', JSON.stringify(getTargetNode(nodes, located)));
+  console.log('Expected: Pune DC at { lat: 18.52, lng: 73.86 }');
+  console.log('Targets of e2 and e3:', getTargetNode(nodes, unlocated), getTargetNode(nodes, unknownTarget));
+  console.log('Expected: null null');
+
+  // Rows that do carry coordinates (MySQL decimals arrive as strings)
+  const withCoordinates = indexNodesByIp([{ ...NODE_DETAIL_ROWS[0], lat: '18.5204', lng: '73.8567' }]);
+  console.log('Row with lat/lng:', JSON.stringify(withCoordinates.get('203.0.113.10')?.position));
+  console.log('Expected: { lat: 18.5204, lng: 73.8567 }');
+}
+
+function testThrottling() {
+  console.log('\n=== Throttling ===');
+
+  const burst = Array.from({ length: 5000 }, (_, i) => createEvent(`b${i}`, '203.0.113.10', null));
+  const { queue, dropped } = enqueueLiveEvents([], burst);
+  console.log('Queued:', queue.length, 'dropped:', dropped, 'first kept:', queue[0].id);
+  console.log('Expected: 200 queued, 4800 dropped, first kept b4800 (the newest are kept)');
+
+  console.log('Budgets:', getArcBudget(queue.length, 0), getArcBudget(2, 0), getArcBudget(queue.length, 149), getArcBudget(queue.length, 150));
+  console.log(`Expected: ${MAX_ARCS_PER_TICK} 2 1 0`);
+}
+
+function testSeverityLevels() {
+  console.log('\n=== Severity Levels ===');
+
+  const values: Array<string | number | null> = ['CRITICAL', 'warning', 'Notice', 2, '3', 4, 6, null, 'bogus'];
+  console.log('Levels:', values.map(getSeverityLevel));
+  console.log('Expected: critical, medium, low, critical, high, medium, low, unknown, unknown');
+}
@@ -0,0 +1,204 @@
+/**
+ * Live Attack Models
+ * Streamed events are drawn as short-lived arcs from the attacker's
+ * location to the targeted honeypot node. Arcs are rate limited so bursts
+ * of events stay smooth: the newest events wait in a bounded queue and only
+ * a few are drawn per animation tick.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Event pushed by the live events stream
+ */
+export interface LiveAttackEvent {
+  id: string;
+  timestamp: string;
+  sourceIp: string | null;
+  targetIp: string | null;
+  country: string | null;
+  severity: string | number | null;
+  location: { lat: number; lon: number };
+  targetLocation: { lat: number; lon: number } | null; // Geoip of the targeted IP
+}
+
+/**
+ * Honeypot node (from /nodeDetail), by its node_ip
+ */
+export interface HoneypotNode {
+  ip: string;
+  name: string;
+  position: { lat: number; lng: number } | null; // Unknown until located
+}
+
+export type SeverityLevel = 'critical' | 'high' | 'medium' | 'low' | 'unknown';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const ARC_TICK_MS = 100;
+export const MAX_ARCS_PER_TICK = 4;     // At most 40 new arcs per second
+export const MAX_ACTIVE_ARCS = 150;     // Arcs on the map at the same time
+export const MAX_QUEUED_EVENTS = 200;   // Older queued events are dropped
+export const ARC_LIFETIME_MS = 2000;
+
+export const SEVERITY_COLORS: { [level in SeverityLevel]: string } = {
+  critical: '#bd271e',
+  high: '#e7664c',
+  medium: '#d6bf57',
+  low: '#54b399',
+  unknown: '#6092c0'
+};
+
+const SEVERITY_NAMES: { [name: string]: SeverityLevel } = {
+  emergency: 'critical',
+  alert: 'critical',
+  critical: 'critical',
+  error: 'high',
+  high: 'high',
+  warning: 'medium',
+  medium: 'medium',
+  notice: 'low',
+  info: 'low',
+  low: 'low'
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Severity level of a waf_severity_level value: a name, or a number on the
+ * syslog scale (0 = emergency ... 7 = debug)
+ */
+export function getSeverityLevel(severity: string | number | null): SeverityLevel {
+  if (severity === null || severity === undefined || severity === '') {
+    return 'unknown';
+  }
+
+  const numeric = typeof severity === 'number' ? severity : Number(severity);
+  if (!isNaN(numeric)) {
+    if (numeric <= 2) return 'critical';
+    if (numeric === 3) return 'high';
+    if (numeric === 4) return 'medium';
+    return 'low';
+  }
+
+  return SEVERITY_NAMES[String(severity).toLowerCase()] || 'unknown';
+}
+
+export function getSeverityColor(severity: string | number | null): string {
+  return SEVERITY_COLORS[getSeverityLevel(severity)];
+}
+
+/**
+ * Nodes by IP, for finding the honeypot an event targeted
+ *
+ * Node rows only carry a position when they have lat/lng; the others are
+ * placed by locateNodes once an event tells where their IP is.
+ */
+export function indexNodesByIp(nodes: any[]): Map<string, HoneypotNode> {
+  const index = new Map<string, HoneypotNode>();
+
+  (Array.isArray(nodes) ? nodes : []).forEach(node => {
+    if (!node?.node_ip) {
+      return;
+    }
+    const ip = String(node.node_ip);
+    const place = [node.city, node.state].filter(Boolean).join(', ');
+    const hasPosition = node.lat !== null && node.lat !== undefined && node.lng !== null && node.lng !== undefined &&
+      Number.isFinite(Number(node.lat)) && Number.isFinite(Number(node.lng));
+
+    index.set(ip, {
+      ip,
+      name: node.organization || node.node_location || place || ip,
+      position: hasPosition ? { lat: Number(node.lat), lng: Number(node.lng) } : null
+    });
+  });
+
+  return index;
+}
+
+/**
+ * Places the nodes without a position at the target location of the first
+ * event aimed at them
+ *
+ * @returns The nodes placed by these events
+ */
+export function locateNodes(nodes: Map<string, HoneypotNode>, events: LiveAttackEvent[]): HoneypotNode[] {
+  const located: HoneypotNode[] = [];
+
+  events.forEach(event => {
+    const node = event.targetIp ? nodes.get(event.targetIp) : undefined;
+    if (node && !node.position && event.targetLocation) {
+      node.position = { lat: event.targetLocation.lat, lng: event.targetLocation.lon };
+      located.push(node);
+    }
+  });
+
+  return located;
+}
+
+/**
+ * Node an event can be drawn to: a known node with a position
+ */
+export function getTargetNode(nodes: Map<string, HoneypotNode>, event: LiveAttackEvent): HoneypotNode | null {
+  const node = event.targetIp ? nodes.get(event.targetIp) : undefined;
+  return node && node.position ? node : null;
+}
+
+/**
+ * Adds streamed events to the queue, keeping only the newest ones
+ *
+ * @returns The new queue and the number of events dropped
+ */
+export function enqueueLiveEvents(
+  queue: LiveAttackEvent[],
+  events: LiveAttackEvent[],
+  maxQueued: number = MAX_QUEUED_EVENTS
+): { queue: LiveAttackEvent[]; dropped: number } {
+  const combined = [...queue, ...events];
+  const dropped = Math.max(combined.length - maxQueued, 0);
+  return { queue: combined.slice(dropped), dropped };
+}
+
+/**
+ * Number of arcs to draw in one tick: limited per tick and by the arcs
+ * still on the map
+ */
+export function getArcBudget(queued: number, active: number): number {
+  return Math.max(Math.min(queued, MAX_ARCS_PER_TICK, MAX_ACTIVE_ARCS - active), 0);
+}
+
+/**
+ * Points of a curved arc (quadratic Bézier bent to the left of the line)
+ *
+ * @returns [lat, lng] pairs from the source to the target
+ */
+export function buildArcPoints(
+  from: { lat: number; lng: number },
+  to: { lat: number; lng: number },
+  segments: number = 24
+): Array<[number, number]> {
+  const bend = 0.2;
+  const control = {
+    lat: (from.lat + to.lat) / 2 + (to.lng - from.lng) * bend,
+    lng: (from.lng + to.lng) / 2 - (to.lat - from.lat) * bend
+  };
+
+  const points: Array<[number, number]> = [];
+  for (let i = 0; i <= segments; i++) {
+    const t = i / segments;
+    const a = (1 - t) * (1 - t);
+    const b = 2 * (1 - t) * t;
+    const c = t * t;
+    points.push([
+      a * from.lat + b * control.lat + c * to.lat,
+      a * from.lng + b * control.lng + c * to.lng
+    ]);
+  }
+  return points;
+}
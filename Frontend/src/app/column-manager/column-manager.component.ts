@@ -0,0 +1,161 @@
+import { Component, OnInit, Input, Output, EventEmitter } from '@angular/core';
+import { CdkDragDrop, moveItemInArray } from '@angular/cdk/drag-drop';
+import { FilterService } from '../services/filter.service';
+import { ColumnLayoutService, ColumnConfig, ColumnLayout, DEFAULT_INDEX_PATTERN } from '../services/column-layout.service';
+import { FIELD_FORMATTERS, FieldFormatter } from '../utils/field-formatters';
+
+/**
+ * Column manager for the data table
+ *
+ * Features:
+ * - Search over the selected and available fields
+ * - Drag to reorder, per-column formatter, width reset
+ * - Named layouts saved per user and per index (one can be the default)
+ */
+@Component({
+  selector: 'app-column-manager',
+  templateUrl: './column-manager.component.html',
+  styleUrls: ['./column-manager.component.scss']
+})
+export class ColumnManagerComponent implements OnInit {
+  @Input() columns: ColumnConfig[] = [];
+  @Input() index: string = DEFAULT_INDEX_PATTERN;
+  @Input() activeLayoutName: string | null = null;
+  @Output() columnsChange = new EventEmitter<ColumnConfig[]>();
+  @Output() layoutApplied = new EventEmitter<ColumnLayout>();
+  @Output() closed = new EventEmitter<void>();
+
+  readonly formatters = FIELD_FORMATTERS;
+
+  allFields: string[] = [];
+  searchTerm: string = '';
+
+  layouts: ColumnLayout[] = [];
+  layoutName: string = '';
+  saveAsDefault: boolean = false;
+  layoutError: string | null = null;
+  savingLayout: boolean = false;
+
+  constructor(
+    private filterService: FilterService,
+    private columnLayoutService: ColumnLayoutService
+  ) {}
+
+  ngOnInit(): void {
+    this.layoutName = this.activeLayoutName || '';
+
+    this.filterService.getFields().subscribe(
+      (fields: string[]) => this.allFields = [...fields].sort(),
+      (error) => console.error('Error loading fields:', error)
+    );
+    this.loadLayouts();
+  }
+
+  get filteredColumns(): ColumnConfig[] {
+    return this.columns.filter(column => this.matchesSearch(column.field));
+  }
+
+  get availableFields(): string[] {
+    const selected = new Set(this.columns.map(column => column.field));
+    return this.allFields.filter(field => !selected.has(field) && this.matchesSearch(field));
+  }
+
+  /**
+   * Reordering is only possible on the unfiltered list (drop indices are
+   * positions in the rendered list)
+   */
+  get dragDisabled(): boolean {
+    return this.searchTerm.trim() !== '';
+  }
+
+  // ============================================================================
+  // Columns
+  // ============================================================================
+
+  onColumnDropped(event: CdkDragDrop<ColumnConfig[]>): void {
+    if (event.previousIndex === event.currentIndex) return;
+    const columns = [...this.columns];
+    moveItemInArray(columns, event.previousIndex, event.currentIndex);
+    this.columnsChange.emit(columns);
+  }
+
+  addColumn(field: string): void {
+    this.columnsChange.emit([...this.columns, { field }]);
+  }
+
+  removeColumn(column: ColumnConfig): void {
+    this.columnsChange.emit(this.columns.filter(c => c !== column));
+  }
+
+  setFormatter(column: ColumnConfig, formatter: FieldFormatter): void {
+    this.updateColumn(column, { formatter: formatter === 'default' ? undefined : formatter });
+  }
+
+  resetWidth(column: ColumnConfig): void {
+    this.updateColumn(column, { width: undefined });
+  }
+
+  // ============================================================================
+  // Layouts
+  // ============================================================================
+
+  applyLayout(layout: ColumnLayout): void {
+    this.layoutName = layout.name;
+    this.saveAsDefault = layout.isDefault || false;
+    this.layoutApplied.emit(layout);
+  }
+
+  saveLayout(): void {
+    const name = this.layoutName.trim();
+    if (!name) {
+      this.layoutError = 'Enter a layout name';
+      return;
+    }
+
+    this.savingLayout = true;
+    this.layoutError = null;
+    this.columnLayoutService.saveLayout({ name, columns: this.columns, isDefault: this.saveAsDefault }, this.index).subscribe(
+      (saved) => {
+        this.savingLayout = false;
+        this.layoutApplied.emit(saved);
+        this.loadLayouts();
+      },
+      (error) => {
+        console.error('Error saving column layout:', error);
+        this.savingLayout = false;
+        this.layoutError = error.error?.message || 'Failed to save layout';
+      }
+    );
+  }
+
+  deleteLayout(layout: ColumnLayout): void {
+    if (layout.id === undefined) return;
+
+    this.columnLayoutService.deleteLayout(layout.id).subscribe(
+      () => this.layouts = this.layouts.filter(l => l.id !== layout.id),
+      (error) => {
+        console.error('Error deleting column layout:', error);
+        this.layoutError = error.error?.message || 'Failed to delete layout';
+      }
+    );
+  }
+
+  private loadLayouts(): void {
+    this.columnLayoutService.getLayouts(this.index).subscribe(
+      (layouts) => this.layouts = layouts,
+      (error) => {
+        console.error('Error loading column layouts:', error);
+        this.layoutError = 'Failed to load saved layouts';
+      }
+    );
+  }
+
+  private updateColumn(column: ColumnConfig, changes: Partial<ColumnConfig>): void {
+    this.columnsChange.emit(this.columns.map(c => c === column ? { ...c, ...changes } : c));
+  }
+
+  private matchesSearch(field: string): boolean {
+    const term = this.searchTerm.trim().toLowerCase();
+    return !term || field.toLowerCase().includes(term);
+  }
+}
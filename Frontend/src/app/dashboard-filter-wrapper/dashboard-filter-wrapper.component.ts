@@ -3,8 +3,15 @@ import { Component, OnInit, OnDestroy, Input, Output, EventEmitter } from '@angu
 import { environment } from 'src/environments/environment';
 import { Subscription } from 'rxjs';
 import { FilterGroup, FilterGroupState, GroupedFilter, FilterGroupDefinition } from '../filter.model';
-import { buildEsQueryFromGroupedFilters, buildGroupedAST, groupedAstToEsQuery } from '../utils/kibana-filter-utils';
+import { buildEsQueryFromGroupedFilters, buildGroupedAST, groupedAstToEsQuery, decompileEsQuery, isPinnedFilter, splitPinnedFilters, mergePinnedFilters, setFilterPinned, removeFilterAt, applyGroupMetadata } from '../utils/kibana-filter-utils';
 import { FilterField, FilterBuilderOutput, FilterRow } from '../filter-builder/filter-builder.model';
+import { validateQueryDsl } from '../filter-builder/query-dsl-schema';
+import { UrlStateService, AppUrlState } from '../services/url-state.service';
+import { TimefilterService } from '../services/timefilter.service';
+import { skip } from 'rxjs/operators';
+import { FieldFilterEvent } from '../field-sidebar/field-sidebar.component';
+import { SavedSearchService, SavedSearch, SavedSearchVisibility } from '../services/saved-search.service';
+import { PanelData } from '../dashboard-panels/dashboard-panels.model';
 
 @Component({
   selector: 'app-dashboard-filter-wrapper',
@@ -20,6 +27,21 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
   showFilterGroupManager: boolean = true; // Default visible when filters exist
   activeFilters: FilterGroupState | null = null;
   showQueryPreview: boolean = false;
+  showDslImport: boolean = false;
+  dslImportText: string = '';
+  dslImportError: string | null = null;
+  dslImportWarning: string | null = null;
+  loadedDocuments: any[] = [];
+
+  // Saved searches
+  showSavedSearches: boolean = false;
+  savedSearches: SavedSearch[] = [];
+  activeSavedSearch: SavedSearch | null = null;
+  savedSearchName: string = '';
+  savedSearchVisibility: SavedSearchVisibility = 'private';
+  saveAsNew: boolean = false;
+  savingSearch: boolean = false;
+  savedSearchError: string | null = null;
   
   // Available fields for filter builder
   availableFields: FilterField[] = [
@@ -46,25 +68,57 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
   snort !: Subscription;
   bin !: Subscription;
   binary !: Subscription;
+  private urlStateSubscription?: Subscription;
+  private globalStateSubscription?: Subscription;
+  private timeSubscription?: Subscription;
 
-  constructor() { }
+  constructor(
+    private urlState: UrlStateService,
+    private timefilter: TimefilterService,
+    private savedSearchService: SavedSearchService
+  ) { }
 
   ngOnInit(): void {
-    this.loadDashboardData();
+    this.restoreFromUrlState(this.urlState.getAppState());
+    this.loadDashboardData(this.activeFilters || undefined);
+
+    // Back/forward (or an edited URL) replaces the filter state
+    this.urlStateSubscription = this.urlState.appStateChanged.subscribe(state => {
+      this.restoreFromUrlState(state);
+      this.loadDashboardData(this.activeFilters || undefined);
+    });
+
+    // Pinned filters live in the global state (changed by back/forward or another page)
+    this.globalStateSubscription = this.urlState.globalStateChanged.subscribe(state => {
+      if (JSON.stringify(state.filters || []) !== JSON.stringify(this.getPinnedUrlFilters())) {
+        this.restoreFromUrlState(this.urlState.getAppState());
+        this.loadDashboardData(this.activeFilters || undefined);
+      }
+    });
+
+    // Charts reload together with the data table when the time range changes
+    this.timeSubscription = this.timefilter.timeRangeChanged.pipe(skip(1)).subscribe(() => {
+      this.loadDashboardData(this.activeFilters || undefined);
+    });
   }
 
   loadDashboardData(filters?: FilterGroup): void {
-    // Clear existing data
+    // Clear existing data, the dashboard panels reload it (see onPanelsLoaded)
     this.dashboardData.chartAllData = [];
     this.dashboardData.BarData = [];
-    
-    // Note: getSnortAlert, getBinClass, and getBinary methods are removed
-    // Dashboard data should be loaded via Elasticsearch queries instead
     this.emitDataUpdate();
   }
 
-  // Removed getSnortAlert, getBinClass, and getBinary methods
-  // Dashboard data should be loaded via Elasticsearch queries instead
+  /**
+   * Exposes the panel aggregations as dashboard data
+   */
+  onPanelsLoaded(data: { [panelId: string]: PanelData }): void {
+    this.dashboardData.chartAllData = data['actions-over-time']?.series || [];
+    this.dashboardData.BarData = data['top-urls']
+      ? data['top-urls'].keys.map((key, index) => ({ key, count: data['top-urls'].series[0].data[index] }))
+      : [];
+    this.emitDataUpdate();
+  }
 
   emitDataUpdate(): void {
     this.dataUpdated.emit({
@@ -94,19 +148,20 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
   onFilterGroupChanged(event: FilterGroupState): void {
     this.activeFilters = event;
     this.regenerateQueryDSL();
+    this.syncFiltersToUrl();
   }
 
   onFiltersApplied(filterGroup: FilterGroup): void {
-    // Convert to FilterGroupState with empty groups
+    // Convert to FilterGroupState with empty groups, keeping the pinned filters
     this.activeFilters = {
-      filters: filterGroup.filters as GroupedFilter[],
-      groups: [],
-      customLabel: filterGroup.customLabel,
-      queryDSL: filterGroup.queryDSL
+      ...this.keepPinnedFilters(filterGroup.filters as GroupedFilter[], []),
+      customLabel: filterGroup.customLabel
     };
+    this.regenerateQueryDSL();
     this.showFilterBar = false;
     // Open Filter Group Manager when filters are applied
     this.showFilterGroupManager = true;
+    this.syncFiltersToUrl();
     this.loadDashboardData(this.activeFilters);
   }
 
@@ -114,6 +169,7 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
     if (this.activeFilters) {
       this.activeFilters.groups = groups;
       this.regenerateQueryDSL();
+      this.syncFiltersToUrl();
       this.loadDashboardData(this.activeFilters);
     }
   }
@@ -134,12 +190,49 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
     this.activeFilters.queryDSL = queryDSL;
   }
 
+  toggleDslImport(): void {
+    this.showDslImport = !this.showDslImport;
+    this.dslImportError = null;
+    this.dslImportWarning = null;
+  }
+
+  /**
+   * Decompiles pasted Query DSL into editable filters and groups
+   */
+  importQueryDSL(): void {
+    let queryDSL: any;
+    try {
+      queryDSL = JSON.parse(this.dslImportText);
+    } catch (error) {
+      this.dslImportError = `Invalid JSON: ${(error as Error).message}`;
+      return;
+    }
+
+    const { filters, groups, ignoredKeys } = decompileEsQuery(queryDSL);
+    const merged = this.keepPinnedFilters(filters as GroupedFilter[], groups);
+    if (merged.filters.length === 0) {
+      this.clearFilters();
+    } else {
+      this.activeFilters = merged;
+      this.regenerateQueryDSL();
+      this.syncFiltersToUrl();
+      this.loadDashboardData(this.activeFilters);
+    }
+
+    this.dslImportText = '';
+    this.dslImportError = null;
+    // Keep the panel open so the user sees what was left out
+    this.dslImportWarning = ignoredKeys ? `Only the query was imported, ignored: ${ignoredKeys.join(', ')}` : null;
+    this.showDslImport = !!ignoredKeys;
+  }
+
   onCloseFilterBar(): void {
     this.showFilterBar = false;
   }
 
   clearFilters(): void {
     this.activeFilters = null;
+    this.syncFiltersToUrl();
     this.loadDashboardData();
   }
 
@@ -148,36 +241,9 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
       return;
     }
 
-    // Check if filter is in a group and update groups accordingly
-    const filter = this.activeFilters.filters[index];
-    if (filter?.groupMeta?.groupId) {
-      const groupId = filter.groupMeta.groupId;
-      const groupIndex = this.activeFilters.groups?.findIndex(g => g.id === groupId);
-      
-      if (groupIndex !== undefined && groupIndex >= 0 && this.activeFilters.groups) {
-        const group = this.activeFilters.groups[groupIndex];
-        const updatedIndices = group.filterIndices
-          .filter(idx => idx !== index)
-          .map(idx => idx > index ? idx - 1 : idx);
-        
-        if (updatedIndices.length < 2) {
-          // Remove group if less than 2 filters
-          this.activeFilters.groups.splice(groupIndex, 1);
-          // Clear group metadata from remaining filter
-          updatedIndices.forEach(idx => {
-            if (this.activeFilters && this.activeFilters.filters[idx]) {
-              this.activeFilters.filters[idx].groupMeta = undefined;
-            }
-          });
-        } else {
-          // Update group
-          group.filterIndices = updatedIndices;
-        }
-      }
-    }
-
-    // Remove the filter at the specified index
-    this.activeFilters.filters.splice(index, 1);
+    // Remove the filter and shift every (nested) group's indices
+    const { filters, groups } = removeFilterAt(this.activeFilters.filters, this.activeFilters.groups || [], index);
+    this.activeFilters = { ...this.activeFilters, filters, groups };
 
     // If no filters remain, clear all
     if (this.activeFilters.filters.length === 0) {
@@ -187,6 +253,7 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
 
     // Regenerate Query DSL with groups
     this.regenerateQueryDSL();
+    this.syncFiltersToUrl();
 
     // Reload data with updated filters
     this.loadDashboardData(this.activeFilters);
@@ -308,7 +375,9 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
       'is_one_of': 'is one of',
       'is_not_one_of': 'is not one of',
       'exists': 'exists',
-      'does_not_exist': 'does not exist'
+      'does_not_exist': 'does not exist',
+      'geo_within': 'within',
+      'custom': 'DSL'
     };
     return operatorMap[normalizedOperator] || operator;
   }
@@ -317,12 +386,96 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
     if (Array.isArray(value)) {
       return value.join(', ');
     }
+    if (value && typeof value === 'object') {
+      return JSON.stringify(value);
+    }
     return String(value);
   }
 
   onDataTableLoaded(data: any): void {
-    // Handle data table loaded event if needed
-    console.log('Data table loaded:', data);
+    // The field sidebar computes its statistics from the loaded page
+    this.loadedDocuments = data?.logs || [];
+  }
+
+  isPinned(filter: GroupedFilter): boolean {
+    return isPinnedFilter(filter);
+  }
+
+  /**
+   * Pins a filter (kept across pages and saved searches) or unpins it back
+   * to the current view
+   */
+  togglePinFilter(index: number): void {
+    if (!this.activeFilters || !this.activeFilters.filters[index]) return;
+
+    const filter = this.activeFilters.filters[index];
+    const { filters, groups } = setFilterPinned(
+      this.activeFilters.filters,
+      this.activeFilters.groups || [],
+      index,
+      !isPinnedFilter(filter)
+    );
+
+    this.activeFilters = { ...this.activeFilters, filters, groups };
+    this.regenerateQueryDSL();
+    this.syncFiltersToUrl();
+    this.loadDashboardData(this.activeFilters);
+  }
+
+  /**
+   * Switches a filter between including and excluding matching documents
+   */
+  toggleFilterNegate(index: number): void {
+    this.updateFilterAt(index, filter => ({ ...filter, negate: !filter.negate }));
+  }
+
+  /**
+   * Temporarily disables a filter (kept in the bar, left out of the query)
+   */
+  toggleFilterDisabled(index: number): void {
+    this.updateFilterAt(index, filter => ({ ...filter, disabled: !filter.disabled }));
+  }
+
+  private updateFilterAt(index: number, update: (filter: GroupedFilter) => GroupedFilter): void {
+    if (!this.activeFilters || !this.activeFilters.filters[index]) return;
+
+    this.activeFilters = {
+      ...this.activeFilters,
+      filters: this.activeFilters.filters.map((filter, i) => i === index ? update(filter) : filter)
+    };
+    this.regenerateQueryDSL();
+    this.syncFiltersToUrl();
+    this.loadDashboardData(this.activeFilters);
+  }
+
+  /**
+   * Appends an is / is_not filter from the field sidebar
+   */
+  addFieldFilter(event: FieldFilterEvent): void {
+    this.appendFilters([{
+      field: event.field,
+      operator: event.operator,
+      value: event.value,
+      logic: 'AND'
+    }]);
+  }
+
+  /**
+   * Appends the filters of a clicked dashboard panel bar or slice
+   */
+  addPanelFilters(filters: GroupedFilter[]): void {
+    this.appendFilters(filters);
+  }
+
+  private appendFilters(filters: GroupedFilter[]): void {
+    // New object so the data table and the panels see the change
+    this.activeFilters = this.activeFilters
+      ? { ...this.activeFilters, filters: [...this.activeFilters.filters, ...filters] }
+      : { filters, groups: [] };
+
+    this.regenerateQueryDSL();
+    this.syncFiltersToUrl();
+    this.loadDashboardData(this.activeFilters);
   }
 
   /**
@@ -330,29 +483,279 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
    */
   onFilterBuilderApplied(output: FilterBuilderOutput): void {
     // Convert FilterBuilderOutput to FilterGroupState
-    const groupedFilters: GroupedFilter[] = output.rows.map((row, index) => ({
-      field: row.clause.field,
-      operator: row.clause.operator,
-      value: row.clause.values || row.clause.value,
-      logic: row.logicOperator,
-      minValue: row.clause.minValue,
-      maxValue: row.clause.maxValue,
-      minOperator: row.clause.minOperator,
-      maxOperator: row.clause.maxOperator
-    }));
+    const groupedFilters: GroupedFilter[] = output.rows.map((row, index) => {
+      if (row.clause.operator === 'custom') {
+        // Custom DSL is edited as text but stored as the query object
+        return {
+          field: '',
+          operator: 'custom',
+          value: validateQueryDsl(row.clause.value || '').query,
+          alias: row.clause.label || undefined,
+          logic: row.logicOperator
+        };
+      }
+      return {
+        field: row.clause.field,
+        operator: row.clause.operator,
+        value: row.clause.values || row.clause.value,
+        logic: row.logicOperator,
+        minValue: row.clause.minValue,
+        maxValue: row.clause.maxValue,
+        minOperator: row.clause.minOperator,
+        maxOperator: row.clause.maxOperator
+      };
+    });
 
-    this.activeFilters = {
-      filters: groupedFilters,
-      groups: [], // Groups are represented in the AST, not as explicit groups
-      queryDSL: output.queryDSL
-    };
+    // The builder edits the app filters only
+    const groups = this.extractRowGroups(output.rows);
+    this.activeFilters = this.keepPinnedFilters(applyGroupMetadata(groupedFilters, groups), groups);
 
     this.regenerateQueryDSL();
+    this.syncFiltersToUrl();
     this.loadDashboardData(this.activeFilters);
     this.onCloseFilterBar();
   }
 
+  // ============================================================================
+  // Saved Searches
+  // ============================================================================
+
+  toggleSavedSearches(): void {
+    this.showSavedSearches = !this.showSavedSearches;
+    this.savedSearchError = null;
+    if (this.showSavedSearches) {
+      this.savedSearchName = this.activeSavedSearch?.name || '';
+      this.savedSearchVisibility = this.activeSavedSearch?.visibility || 'private';
+      this.saveAsNew = !this.activeSavedSearch?.isOwner;
+      this.loadSavedSearches();
+    }
+  }
+
+  loadSavedSearches(): void {
+    this.savedSearchService.getSavedSearches().subscribe(
+      (searches) => {
+        this.savedSearches = searches;
+      },
+      (error) => {
+        console.error('Error loading saved searches:', error);
+        this.savedSearchError = error.error?.message || 'Failed to load saved searches';
+      }
+    );
+  }
+
+  /**
+   * Restores filters, time range, columns and sort of a saved search
+   */
+  openSavedSearch(search: SavedSearch): void {
+    const columns = search.columns || [];
+    const columnSettings: AppUrlState['columnSettings'] = {};
+    columns.forEach(column => {
+      if (column.width || column.formatter) {
+        columnSettings[column.field] = { width: column.width, formatter: column.formatter };
+      }
+    });
+
+    // Data table and time filter pick the new state up from the URL
+    this.urlState.navigateToState({
+      filters: search.filterState.filters,
+      groups: search.filterState.groups,
+      label: search.filterState.customLabel,
+      sort: search.sort || undefined,
+      columns: columns.length > 0 ? columns.map(column => column.field) : undefined,
+      columnSettings: Object.keys(columnSettings).length > 0 ? columnSettings : undefined
+    }, search.timeRange ? { time: search.timeRange } : {});
+
+    this.activeSavedSearch = search;
+    this.showSavedSearches = false;
+  }
+
+  /**
+   * Saves the current view, overwriting the open search unless saveAsNew is
+   * set (searches of other users are always saved as a copy)
+   */
+  saveCurrentSearch(): void {
+    if (!this.savedSearchName.trim()) {
+      this.savedSearchError = 'Search name is required';
+      return;
+    }
+
+    const search = this.buildSavedSearch();
+    const overwrite = this.activeSavedSearch?.id !== undefined && this.activeSavedSearch.isOwner && !this.saveAsNew;
+    const request = overwrite
+      ? this.savedSearchService.updateSavedSearch(this.activeSavedSearch!.id!, search)
+      : this.savedSearchService.createSavedSearch(search);
+
+    this.savingSearch = true;
+    this.savedSearchError = null;
+    request.subscribe(
+      (saved) => {
+        this.activeSavedSearch = saved;
+        this.saveAsNew = false;
+        this.savingSearch = false;
+        this.loadSavedSearches();
+      },
+      (error) => {
+        console.error('Error saving search:', error);
+        this.savedSearchError = error.error?.message || 'Failed to save search';
+        this.savingSearch = false;
+      }
+    );
+  }
+
+  deleteSavedSearch(search: SavedSearch): void {
+    if (search.id === undefined) return;
+
+    this.savedSearchService.deleteSavedSearch(search.id).subscribe(
+      () => {
+        if (this.activeSavedSearch?.id === search.id) {
+          this.activeSavedSearch = null;
+          this.saveAsNew = true;
+        }
+        this.loadSavedSearches();
+      },
+      (error) => {
+        console.error('Error deleting saved search:', error);
+        this.savedSearchError = error.error?.message || 'Failed to delete saved search';
+      }
+    );
+  }
+
+  /**
+   * Current view: app filters from this component, time range from the time
+   * filter, and columns / sort as written to the URL by the data table
+   */
+  private buildSavedSearch(): SavedSearch {
+    const appState = this.urlState.getAppState();
+    const columnSettings = appState.columnSettings || {};
+    const { app, appGroups } = splitPinnedFilters(this.activeFilters?.filters || [], this.activeFilters?.groups || []);
+
+    return {
+      name: this.savedSearchName.trim(),
+      visibility: this.savedSearchVisibility,
+      filterState: {
+        filters: app.map(({ $state, ...rest }) => rest), // Pinned filters are not part of the search
+        groups: appGroups,
+        customLabel: this.activeFilters?.customLabel
+      },
+      // Alert rules run this query, so it must not include the pinned filters either
+      queryDSL: buildEsQueryFromGroupedFilters(app, appGroups),
+      timeRange: this.timefilter.getTime(),
+      columns: (appState.columns || []).map(field => ({ field, ...columnSettings[field] })),
+      sort: appState.sort || null
+    };
+  }
+
+  // ============================================================================
+  // URL State
+  // ============================================================================
+
+  /**
+   * Pushes app filters to the `_a` param and pinned filters to `_g`
+   * (one history entry per change)
+   */
+  private syncFiltersToUrl(): void {
+    const { app, appGroups } = splitPinnedFilters(this.activeFilters?.filters || [], this.activeFilters?.groups || []);
+
+    this.urlState.updateAppState({
+      filters: app.map(({ $state, ...rest }) => rest),
+      groups: appGroups,
+      label: this.activeFilters?.customLabel,
+      page: undefined // New filters start from the first page
+    });
+    this.urlState.updateGlobalState({ filters: this.getPinnedUrlFilters() });
+  }
+
+  /**
+   * New app filters after the current pinned filters, which survive any
+   * replacement of the app filters
+   */
+  private keepPinnedFilters(app: GroupedFilter[], appGroups: FilterGroupDefinition[]): FilterGroupState {
+    const { pinned } = splitPinnedFilters(this.activeFilters?.filters || [], []);
+    return mergePinnedFilters(pinned, app, appGroups);
+  }
+
+  /**
+   * Pinned filters as stored in `_g` (no group metadata or store)
+   */
+  private getPinnedUrlFilters(): GroupedFilter[] {
+    const { pinned } = splitPinnedFilters(this.activeFilters?.filters || [], []);
+    return pinned.map(({ groupMeta, $state, ...rest }) => rest);
+  }
+
+  /**
+   * Pinned filters come first, followed by the app filters of the view
+   */
+  private restoreFromUrlState(state: AppUrlState): void {
+    const pinned = this.urlState.getGlobalState().filters || [];
+    const app = state.filters || [];
+
+    if (pinned.length === 0 && app.length === 0) {
+      this.activeFilters = null;
+      return;
+    }
+
+    const { filters, groups } = mergePinnedFilters(
+      pinned.map(filter => ({ ...filter })),
+      app.map(filter => ({ ...filter })),
+      (state.groups || []).map(group => ({ ...group, filterIndices: [...group.filterIndices] }))
+    );
+
+    this.activeFilters = {
+      filters,
+      groups,
+      customLabel: state.label
+    };
+    this.regenerateQueryDSL();
+  }
+
+  /**
+   * Turns the rows' groupPath ids (parenthesised KQL expressions) into
+   * explicit groups, one per nesting level, linked with parentGroupId
+   */
+  private extractRowGroups(rows: FilterRow[]): FilterGroupDefinition[] {
+    const groups: FilterGroupDefinition[] = [];
+
+    rows.forEach((row, index) => {
+      (row.groupPath || []).forEach((groupId, depth) => {
+        const group = groups.find(g => g.id === groupId);
+        if (group) {
+          group.filterIndices.push(index);
+        } else {
+          groups.push({
+            id: groupId,
+            type: 'AND',
+            filterIndices: [index],
+            parentGroupId: depth > 0 ? row.groupPath![depth - 1] : undefined
+          });
+        }
+      });
+    });
+
+    return groups
+      .filter(group => group.filterIndices.length > 1)
+      .map(group => {
+        // The operator in front of the group's second direct child (a row
+        // or a sub-group) joins the group's members
+        const depth = rows[group.filterIndices[0]].groupPath!.indexOf(group.id);
+        const childId = (idx: number) => rows[idx].groupPath?.[depth + 1];
+        const secondChild = group.filterIndices.find((idx, i) =>
+          i > 0 && (childId(idx) === undefined || childId(idx) !== childId(group.filterIndices[i - 1]))
+        );
+        const type = secondChild !== undefined ? rows[secondChild].logicOperator || 'AND' : 'AND';
+        return { ...group, type };
+      });
+  }
+
   ngOnDestroy(): void {
+    if (this.urlStateSubscription) {
+      this.urlStateSubscription.unsubscribe();
+    }
+    if (this.globalStateSubscription) {
+      this.globalStateSubscription.unsubscribe();
+    }
+    if (this.timeSubscription) {
+      this.timeSubscription.unsubscribe();
+    }
     if (this.snort) {
       this.snort.unsubscribe();
     }
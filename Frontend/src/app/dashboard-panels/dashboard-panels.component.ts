@@ -0,0 +1,235 @@
+import { Component, OnInit, OnDestroy, OnChanges, SimpleChanges, Input, Output, EventEmitter } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { environment } from 'src/environments/environment';
+import { Subscription } from 'rxjs';
+import { skip } from 'rxjs/operators';
+import { IndexField, GeoArea } from '../filter.model';
+import { FilterService } from '../services/filter.service';
+import { TimefilterService } from '../services/timefilter.service';
+import { calculateAutoInterval, HistogramInterval } from '../utils/date-math';
+import { SimpleFilter } from '../utils/kibana-filter-utils';
+import { GEO_FIELD } from '../attack-map/attack-map.model';
+import {
+  DashboardPanel,
+  PanelChartClick,
+  PanelData,
+  PanelSettings,
+  DEFAULT_PANELS,
+  PANEL_SIZE_OPTIONS,
+  applyPanelSettings,
+  buildPanelAggs,
+  buildPanelDrilldown,
+  parsePanelResult,
+  resolveAggregatableField
+} from './dashboard-panels.model';
+
+const SETTINGS_STORAGE_KEY = 'dashboardPanelSettings';
+
+/**
+ * Security overview panels above the Discover table
+ *
+ * All visible panels are fetched with one aggregation request under the
+ * active filters and time range, and refreshed whenever either changes.
+ * Clicking a bar or slice, or drawing an area on the map, drills down by
+ * emitting a filter for it.
+ */
+@Component({
+  selector: 'app-dashboard-panels',
+  templateUrl: './dashboard-panels.component.html',
+  styleUrls: ['./dashboard-panels.component.scss']
+})
+export class DashboardPanelsComponent implements OnInit, OnDestroy, OnChanges {
+  @Input() queryDSL: any = null;
+  @Output() panelsLoaded = new EventEmitter<{ [panelId: string]: PanelData }>();
+  @Output() filtersAdded = new EventEmitter<SimpleFilter[]>();
+
+  panels: DashboardPanel[] = [];
+  panelData: { [panelId: string]: PanelData } = {};
+  loading: boolean = false;
+  error: string | null = null;
+  showConfig: boolean = false;
+  sizeOptions = PANEL_SIZE_OPTIONS;
+  indexFields: IndexField[] = []; // Shared with the attack map
+
+  private fieldsLoaded: boolean = false;
+  // Panels (with resolved fields) and bucket size of the displayed data
+  private loadedPanels: DashboardPanel[] = [];
+  private loadedInterval: HistogramInterval | null = null;
+  private searchSubscription?: Subscription;
+  private timeSubscription?: Subscription;
+
+  constructor(
+    private http: HttpClient,
+    private filterService: FilterService,
+    private timefilter: TimefilterService
+  ) {}
+
+  ngOnInit(): void {
+    this.panels = applyPanelSettings(DEFAULT_PANELS, this.loadSettings());
+
+    // Text fields must be aggregated on .keyword, the mapping decides
+    this.filterService.getFieldsWithTypes().subscribe(
+      (fields) => {
+        this.indexFields = fields;
+        this.fieldsLoaded = true;
+        this.loadPanels();
+      },
+      (error) => {
+        console.error('Error loading fields:', error);
+        this.fieldsLoaded = true;
+        this.loadPanels();
+      }
+    );
+
+    this.timeSubscription = this.timefilter.timeRangeChanged.pipe(skip(1)).subscribe(() => {
+      this.loadPanels();
+    });
+  }
+
+  ngOnDestroy(): void {
+    if (this.searchSubscription) {
+      this.searchSubscription.unsubscribe();
+    }
+    if (this.timeSubscription) {
+      this.timeSubscription.unsubscribe();
+    }
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['queryDSL'] && !changes['queryDSL'].firstChange) {
+      this.loadPanels();
+    }
+  }
+
+  get visiblePanels(): DashboardPanel[] {
+    return this.panels.filter(panel => panel.visible);
+  }
+
+  /**
+   * Runs the aggregations of all visible panels in a single search
+   */
+  loadPanels(): void {
+    if (!this.fieldsLoaded) {
+      return;
+    }
+    if (this.searchSubscription) {
+      this.searchSubscription.unsubscribe();
+    }
+
+    const panels = this.visiblePanels.map(panel => ({
+      ...panel,
+      field: resolveAggregatableField(panel.field, this.indexFields)
+    }));
+    if (panels.length === 0) {
+      // A request for the last hidden panel may have been cancelled above
+      this.panelData = {};
+      this.loading = false;
+      return;
+    }
+
+    const bounds = this.timefilter.getBounds();
+    const interval = bounds ? calculateAutoInterval(bounds) : null;
+
+    this.loading = true;
+    this.error = null;
+
+    this.searchSubscription = this.http.post<any>(environment.aggregate, {
+      queryDSL: this.timefilter.withTimeRange(this.queryDSL),
+      aggs: buildPanelAggs(panels, interval, bounds)
+    }).subscribe(
+      (response) => {
+        const data: { [panelId: string]: PanelData } = {};
+        panels.forEach(panel => {
+          data[panel.id] = parsePanelResult(panel, response.aggregations?.[panel.id], response.total || 0, interval);
+        });
+        this.panelData = data;
+        this.loadedPanels = panels;
+        this.loadedInterval = interval;
+        this.loading = false;
+        this.panelsLoaded.emit(data);
+      },
+      (error) => {
+        console.error('Error loading dashboard panels:', error);
+        this.error = error.error?.message || 'Failed to load dashboard panels';
+        this.loading = false;
+      }
+    );
+  }
+
+  /**
+   * Adds a filter for the clicked bucket (excluding it on Ctrl/Cmd-click)
+   */
+  onItemClick(panelId: string, click: PanelChartClick): void {
+    const panel = this.loadedPanels.find(p => p.id === panelId);
+    const data = this.panelData[panelId];
+    if (!panel || !data) {
+      return;
+    }
+
+    const filters = buildPanelDrilldown(panel, data, click, this.loadedInterval);
+    if (filters.length > 0) {
+      this.filtersAdded.emit(filters);
+    }
+  }
+
+  /**
+   * Adds a filter for an area drawn on the attack map
+   */
+  onAreaDrawn(area: GeoArea): void {
+    this.filtersAdded.emit([{
+      field: GEO_FIELD,
+      operator: 'geo_within',
+      value: area,
+      logic: 'AND'
+    }]);
+  }
+
+  // ============================================================================
+  // Panel Configuration
+  // ============================================================================
+
+  toggleConfig(): void {
+    this.showConfig = !this.showConfig;
+  }
+
+  togglePanel(panel: DashboardPanel): void {
+    panel.visible = !panel.visible;
+    this.saveSettings();
+    // A shown panel needs its aggregation, a hidden one just disappears
+    if (panel.visible) {
+      this.loadPanels();
+    }
+  }
+
+  setPanelSize(panel: DashboardPanel, size: number): void {
+    panel.size = Number(size);
+    this.saveSettings();
+    this.loadPanels();
+  }
+
+  resetPanels(): void {
+    this.panels = applyPanelSettings(DEFAULT_PANELS, {});
+    localStorage.removeItem(SETTINGS_STORAGE_KEY);
+    this.loadPanels();
+  }
+
+  trackById(index: number, panel: DashboardPanel): string {
+    return panel.id;
+  }
+
+  private loadSettings(): PanelSettings {
+    try {
+      return JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private saveSettings(): void {
+    const settings: PanelSettings = {};
+    this.panels.forEach(panel => {
+      settings[panel.id] = { visible: panel.visible, size: panel.size };
+    });
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }
+}
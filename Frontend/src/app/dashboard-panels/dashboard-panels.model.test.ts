@@ -0,0 +1,140 @@
+/**
+ * Test Cases for Dashboard Panel Models
+ *
+ * Aggregations, results and drilldowns of the default "Actions over time"
+ * (stacked terms_over_time) and "Severity breakdown" (top_terms) panels.
+ */
+
+import { buildEsQueryFromFilters } from '../utils/kibana-filter-utils';
+import { HistogramInterval } from '../utils/date-math';
+import {
+  DEFAULT_PANELS,
+  DashboardPanel,
+  PanelData,
+  applyPanelSettings,
+  buildPanelAggs,
+  buildPanelDrilldown,
+  parsePanelResult,
+} from './dashboard-panels.model';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const ACTIONS_PANEL = DEFAULT_PANELS.find(panel => panel.id === 'actions-over-time') as DashboardPanel;
+const SEVERITY_PANEL = DEFAULT_PANELS.find(panel => panel.id === 'severity') as DashboardPanel;
+
+const HOUR: HistogramInterval = { esInterval: '1h', ms: 3600000, label: 'hour' };
+
+const ACTIONS_DATA: PanelData = {
+  keys: [Date.UTC(2026, 9, 19, 10), Date.UTC(2026, 9, 19, 11)],
+  labels: ['10:00', '11:00'],
+  series: [
+    { name: 'blocked', key: 'blocked', data: [12, 4] },
+    { name: 'allowed', key: 'allowed', data: [30, 18] },
+  ],
+  total: 64,
+};
+
+const SEVERITY_DATA: PanelData = {
+  keys: ['CRITICAL', 'WARNING'],
+  labels: ['CRITICAL', 'WARNING'],
+  series: [{ name: 'Count', key: null, data: [7, 21] }],
+  total: 28,
+};
+
+// ============================================================================
+// Test Cases
+// ============================================================================
+
+export function runAllTests() {
+  console.log('=== Running Dashboard Panel Model Tests ===\n');
+
+  // Test 1: Panel aggregations
+  testPanelAggs();
+
+  // Test 2: Panel results
+  testPanelResults();
+
+  // Test 3: Stacked segment drilldowns
+  testStackedSegmentDrilldown();
+
+  // Test 4: Terms drilldowns
+  testTermsDrilldown();
+
+  console.log('\n=== Tests Complete ===');
+}
+
+// ============================================================================
+// Individual Test Cases
+// ============================================================================
+
+function testPanelAggs() {
+  console.log('\n=== Panel Aggregations ===');
+
+  const panels = applyPanelSettings(DEFAULT_PANELS, { 'top-urls': { visible: false, size: 20 }, severity: { visible: true, size: 5 } });
+  const aggs = buildPanelAggs(panels, HOUR, { min: new Date(ACTIONS_DATA.keys[0]), max: new Date(ACTIONS_DATA.keys[1]) });
+  console.log('Panels:', Object.keys(aggs));
+  console.log("Expected: [ 'actions-over-time', 'top-countries', 'severity' ] (hidden top-urls skipped)");
+  console.log('Severity:', JSON.stringify(aggs['severity']));
+  console.log('Expected: {"terms":{"field":"waf_severity_level","size":5}}');
+  const histogram = aggs['actions-over-time'];
+  console.log('Actions over time:', histogram.date_histogram.fixed_interval, JSON.stringify(histogram.date_histogram.extended_bounds), JSON.stringify(histogram.aggs));
+  console.log(`Expected: 1h {"min":${ACTIONS_DATA.keys[0]},"max":${ACTIONS_DATA.keys[1]}} {"values":{"terms":{"field":"waf_action","size":5}}}`);
+
+  console.log('Without an interval:', Object.keys(buildPanelAggs(DEFAULT_PANELS, null, null)));
+  console.log("Expected: [ 'top-urls', 'top-countries', 'severity' ]");
+}
+
+function testPanelResults() {
+  console.log('\n=== Panel Results ===');
+
+  const result = {
+    buckets: [
+      { key: ACTIONS_DATA.keys[0], doc_count: 42, values: { buckets: [{ key: 'allowed', doc_count: 30 }, { key: 'blocked', doc_count: 12 }] } },
+      { key: ACTIONS_DATA.keys[1], doc_count: 4, values: { buckets: [{ key: 'blocked', doc_count: 4 }] } },
+    ],
+  };
+  const data = parsePanelResult(ACTIONS_PANEL, result, 46, HOUR);
+  console.log('Series:', JSON.stringify(data.series));
+  console.log('Expected: allowed [30,0] then blocked [12,4]');
+
+  const severity = parsePanelResult(SEVERITY_PANEL, { buckets: [{ key: 'CRITICAL', doc_count: 7 }] }, 28, null);
+  console.log('Top terms:', JSON.stringify(severity));
+  console.log('Expected: {"keys":["CRITICAL"],"labels":["CRITICAL"],"series":[{"name":"Count","key":null,"data":[7]}],"total":28}');
+}
+
+function testStackedSegmentDrilldown() {
+  console.log('\n=== Stacked Segment Drilldown ===');
+
+  const click = { index: 1, seriesIndex: 0, exclude: false };
+  const included = buildPanelDrilldown(ACTIONS_PANEL, ACTIONS_DATA, click, HOUR);
+  console.log('Include:', JSON.stringify(included));
+  console.log('Expected: @timestamp range 11:00-12:00 and waf_action is blocked');
+
+  // Excluding drops only the clicked segment: NOT (range AND term)
+  const excluded = buildPanelDrilldown(ACTIONS_PANEL, ACTIONS_DATA, { ...click, exclude: true }, HOUR);
+  console.log('Exclude:', JSON.stringify(excluded));
+  console.log('Expected: one negated custom filter');
+  console.log('Query:', JSON.stringify(buildEsQueryFromFilters(excluded)));
+  console.log('Expected: must_not holds a single bool with both the range and waf_action: blocked');
+
+  // Without a series (count only) the time bucket alone is excluded
+  const countData: PanelData = { ...ACTIONS_DATA, series: [{ name: 'Count', key: null, data: [42, 22] }] };
+  const bucket = buildPanelDrilldown(ACTIONS_PANEL, countData, { ...click, exclude: true }, HOUR);
+  console.log('Exclude bucket:', JSON.stringify(bucket));
+  console.log('Expected: the @timestamp range with negate: true');
+}
+
+function testTermsDrilldown() {
+  console.log('\n=== Terms Drilldown ===');
+
+  const included = buildPanelDrilldown(SEVERITY_PANEL, SEVERITY_DATA, { index: 0, seriesIndex: 0, exclude: false }, null);
+  const excluded = buildPanelDrilldown(SEVERITY_PANEL, SEVERITY_DATA, { index: 1, seriesIndex: 0, exclude: true }, null);
+  console.log('Include/exclude:', included[0].operator, included[0].value, excluded[0].operator, excluded[0].value);
+  console.log('Expected: is CRITICAL is_not WARNING');
+
+  const missed = buildPanelDrilldown(SEVERITY_PANEL, SEVERITY_DATA, { index: 5, seriesIndex: 0, exclude: false }, null);
+  console.log('Click outside the buckets:', missed);
+  console.log('Expected: []');
+}
@@ -0,0 +1,271 @@
+import { IndexField } from '../filter.model';
+import { HistogramInterval } from '../utils/date-math';
+import { TIME_FIELD } from '../services/timefilter.service';
+import { buildEsQueryFromFilters, buildPreviewString, SimpleFilter } from '../utils/kibana-filter-utils';
+
+/**
+ * Dashboard Panel Models
+ * Aggregation panels shown above the Discover table. Every visible panel
+ * adds one aggregation (keyed by the panel id) to a single size-0 search
+ * under the active filters and time range.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PanelType =
+  | 'top_terms'        // Most frequent values of a field
+  | 'terms_over_time'; // Most frequent values per time bucket
+
+export type PanelChart = 'bar' | 'horizontal_bar' | 'pie' | 'stacked_bar';
+
+export interface DashboardPanel {
+  id: string;
+  title: string;
+  type: PanelType;
+  field: string;
+  size: number; // Number of values shown
+  chart: PanelChart;
+  visible: boolean;
+}
+
+/**
+ * Chart-ready panel data
+ */
+export interface PanelData {
+  keys: any[];      // Bucket keys (field values, or epoch ms for time buckets)
+  labels: string[]; // Formatted keys
+  series: PanelSeries[];
+  total: number;    // Documents matched by the search
+}
+
+export interface PanelSeries {
+  name: string;
+  key: any; // Field value of the series (terms_over_time), null for the count
+  data: number[];
+}
+
+/**
+ * Click on a bar or slice
+ */
+export interface PanelChartClick {
+  index: number;       // Bucket (category) index
+  seriesIndex: number; // Dataset index, the stack segment of stacked bars
+  exclude: boolean;    // Ctrl/Cmd-click
+}
+
+/**
+ * User changes to the default panels (stored in localStorage)
+ */
+export interface PanelSettings {
+  [panelId: string]: { visible: boolean; size: number };
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+export const DEFAULT_PANELS: DashboardPanel[] = [
+  { id: 'top-urls', title: 'Top attacked URLs', type: 'top_terms', field: 'waf_http_url', size: 10, chart: 'horizontal_bar', visible: true },
+  { id: 'actions-over-time', title: 'Actions over time', type: 'terms_over_time', field: 'waf_action', size: 5, chart: 'stacked_bar', visible: true },
+  { id: 'top-countries', title: 'Top source countries', type: 'top_terms', field: 'siem_sourceip_geoip.country_name', size: 10, chart: 'horizontal_bar', visible: true },
+  { id: 'severity', title: 'Severity breakdown', type: 'top_terms', field: 'waf_severity_level', size: 10, chart: 'pie', visible: true },
+];
+
+export const PANEL_SIZE_OPTIONS = [5, 10, 20];
+
+// Kibana's default categorical palette
+export const PANEL_COLORS = [
+  '#54b399', '#6092c0', '#d36086', '#9170b8', '#ca8eae',
+  '#d6bf57', '#b9a888', '#da8b45', '#aa6556', '#e7664c'
+];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Applies stored settings to the default panels
+ */
+export function applyPanelSettings(panels: DashboardPanel[], settings: PanelSettings): DashboardPanel[] {
+  return panels.map(panel => {
+    const setting = settings[panel.id];
+    return setting ? { ...panel, visible: setting.visible, size: setting.size || panel.size } : { ...panel };
+  });
+}
+
+/**
+ * Text fields are aggregated on their .keyword sub-field
+ */
+export function resolveAggregatableField(field: string, indexFields: IndexField[]): string {
+  const mapped = indexFields.find(f => f.name === field);
+  if (!mapped || mapped.aggregatable) {
+    return field;
+  }
+  const keyword = indexFields.find(f => f.name === `${field}.keyword` && f.aggregatable);
+  return keyword ? keyword.name : field;
+}
+
+/**
+ * Aggregations of the visible panels, keyed by panel id
+ *
+ * @param panels - Panels with their aggregatable fields resolved
+ * @param interval - Time bucket size (required by terms_over_time panels)
+ * @param bounds - Current time range, for empty buckets at both ends
+ */
+export function buildPanelAggs(
+  panels: DashboardPanel[],
+  interval: HistogramInterval | null,
+  bounds: { min: Date; max: Date } | null
+): { [panelId: string]: any } {
+  const aggs: { [panelId: string]: any } = {};
+
+  panels.filter(panel => panel.visible).forEach(panel => {
+    const terms = { terms: { field: panel.field, size: panel.size } };
+
+    if (panel.type === 'top_terms') {
+      aggs[panel.id] = terms;
+    } else if (interval) {
+      aggs[panel.id] = {
+        date_histogram: {
+          field: TIME_FIELD,
+          fixed_interval: interval.esInterval,
+          time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          min_doc_count: 0,
+          ...(bounds ? { extended_bounds: { min: bounds.min.getTime(), max: bounds.max.getTime() } } : {})
+        },
+        aggs: { values: terms }
+      };
+    }
+  });
+
+  return aggs;
+}
+
+/**
+ * Turns a panel's aggregation result into chart data
+ */
+export function parsePanelResult(
+  panel: DashboardPanel,
+  result: any,
+  total: number,
+  interval: HistogramInterval | null
+): PanelData {
+  const buckets: any[] = result?.buckets || [];
+
+  if (panel.type === 'top_terms') {
+    return {
+      keys: buckets.map(bucket => bucket.key),
+      labels: buckets.map(bucket => String(bucket.key_as_string ?? bucket.key)),
+      series: [{ name: 'Count', key: null, data: buckets.map(bucket => bucket.doc_count) }],
+      total
+    };
+  }
+
+  // One series per value, in order of first appearance
+  const seriesByKey = new Map<any, PanelSeries>();
+  buckets.forEach((bucket, index) => {
+    (bucket.values?.buckets || []).forEach((value: any) => {
+      if (!seriesByKey.has(value.key)) {
+        seriesByKey.set(value.key, {
+          name: String(value.key_as_string ?? value.key),
+          key: value.key,
+          data: new Array(buckets.length).fill(0)
+        });
+      }
+      seriesByKey.get(value.key)!.data[index] = value.doc_count;
+    });
+  });
+
+  return {
+    keys: buckets.map(bucket => bucket.key),
+    labels: buckets.map(bucket => formatBucketTime(bucket.key, interval)),
+    series: [...seriesByKey.values()],
+    total
+  };
+}
+
+/**
+ * Time of day for short intervals, the date from daily buckets up
+ */
+export function formatBucketTime(key: number, interval: HistogramInterval | null): string {
+  const date = new Date(key);
+  const ms = interval?.ms || 0;
+
+  if (ms >= 86400000) {
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  }
+  return date.toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: ms < 60000 ? '2-digit' : undefined,
+    hour12: false
+  });
+}
+
+/**
+ * Filters for a clicked bar or slice: the value of a terms bucket, or the
+ * time range of a date_histogram bucket plus, on a stacked segment, the
+ * series value (like Kibana). Excluding a stacked segment adds one custom
+ * filter negating the pair, so only that segment is dropped.
+ *
+ * @param panel - Panel with its aggregatable field resolved
+ * @returns Filters to add, empty when the click hit no bucket
+ */
+export function buildPanelDrilldown(
+  panel: DashboardPanel,
+  data: PanelData,
+  click: PanelChartClick,
+  interval: HistogramInterval | null
+): SimpleFilter[] {
+  const key = data.keys[click.index];
+  if (key === undefined || key === null) {
+    return [];
+  }
+
+  if (panel.type === 'top_terms') {
+    return [{
+      field: panel.field,
+      operator: click.exclude ? 'is_not' : 'is',
+      value: key,
+      logic: 'AND'
+    }];
+  }
+
+  if (!interval) {
+    return [];
+  }
+
+  const timeFilter: SimpleFilter = {
+    field: TIME_FIELD,
+    operator: 'range',
+    minValue: new Date(key).toISOString(),
+    minOperator: 'gte',
+    maxValue: new Date(key + interval.ms).toISOString(),
+    maxOperator: 'lt',
+    logic: 'AND'
+  };
+
+  const seriesKey = data.series[click.seriesIndex]?.key;
+  if (panel.type !== 'terms_over_time' || seriesKey === undefined || seriesKey === null) {
+    return [click.exclude ? { ...timeFilter, negate: true } : timeFilter];
+  }
+
+  const filters: SimpleFilter[] = [
+    timeFilter,
+    { field: panel.field, operator: 'is', value: seriesKey, logic: 'AND' }
+  ];
+  if (!click.exclude) {
+    return filters;
+  }
+
+  return [{
+    field: '',
+    operator: 'custom',
+    value: buildEsQueryFromFilters(filters).query,
+    alias: buildPreviewString(filters),
+    negate: true,
+    logic: 'AND'
+  }];
+}
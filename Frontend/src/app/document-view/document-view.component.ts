@@ -0,0 +1,88 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { ActivatedRoute } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { DocumentService } from '../services/document.service';
+import { SearchHit, flattenDocument, formatDocumentValue } from '../utils/document-utils';
+
+/**
+ * Single document view (#/doc/:index/:id)
+ *
+ * Shows every field of one document as a table or as JSON, with a link to
+ * the documents surrounding it.
+ */
+@Component({
+  selector: 'app-document-view',
+  templateUrl: './document-view.component.html',
+  styleUrls: ['./document-view.component.scss']
+})
+export class DocumentViewComponent implements OnInit, OnDestroy {
+  index: string = '';
+  id: string = '';
+  document: SearchHit | null = null;
+  fields: Array<{ path: string; value: string }> = [];
+  searchTerm: string = '';
+  viewMode: 'table' | 'json' = 'table';
+  loading: boolean = false;
+  error: string | null = null;
+
+  private routeSubscription?: Subscription;
+  private documentSubscription?: Subscription;
+
+  constructor(
+    private route: ActivatedRoute,
+    private documentService: DocumentService
+  ) {}
+
+  ngOnInit(): void {
+    this.routeSubscription = this.route.paramMap.subscribe(params => {
+      this.index = params.get('index') || '';
+      this.id = params.get('id') || '';
+      this.loadDocument();
+    });
+  }
+
+  ngOnDestroy(): void {
+    if (this.routeSubscription) {
+      this.routeSubscription.unsubscribe();
+    }
+    if (this.documentSubscription) {
+      this.documentSubscription.unsubscribe();
+    }
+  }
+
+  get filteredFields(): Array<{ path: string; value: string }> {
+    const term = this.searchTerm.trim().toLowerCase();
+    return term ? this.fields.filter(f => f.path.toLowerCase().includes(term)) : this.fields;
+  }
+
+  get documentJson(): string {
+    return this.document ? JSON.stringify(this.document._source, null, 2) : '';
+  }
+
+  loadDocument(): void {
+    this.loading = true;
+    this.error = null;
+
+    if (this.documentSubscription) {
+      this.documentSubscription.unsubscribe();
+    }
+
+    this.documentSubscription = this.documentService.getDocument(this.index, this.id).subscribe(
+      (document) => {
+        const flattened = flattenDocument(document._source);
+        this.document = document;
+        this.fields = Object.keys(flattened)
+          .sort()
+          .map(path => ({ path, value: formatDocumentValue(flattened[path]) }));
+        this.loading = false;
+      },
+      (error) => {
+        console.error('Error loading document:', error);
+        this.document = null;
+        this.fields = [];
+        this.error = error.error?.message || 'Failed to load document';
+        this.loading = false;
+      }
+    );
+  }
+}
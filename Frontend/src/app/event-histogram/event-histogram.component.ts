@@ -0,0 +1,198 @@
+import {
+  Component,
+  AfterViewInit,
+  OnChanges,
+  OnDestroy,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef
+} from '@angular/core';
+import { Chart, BarController, BarElement, CategoryScale, LinearScale, Tooltip } from 'chart.js';
+import { HistogramInterval } from '../utils/date-math';
+
+Chart.register(BarController, BarElement, CategoryScale, LinearScale, Tooltip);
+
+/**
+ * date_histogram bucket as returned by Elasticsearch
+ */
+export interface HistogramBucket {
+  key: number;
+  key_as_string?: string;
+  doc_count: number;
+}
+
+/**
+ * Discover-style hits-over-time histogram
+ *
+ * Features:
+ * - Bar per date_histogram bucket
+ * - Drag across bars to select a time range (brush-to-zoom)
+ * - Click a bar to zoom into that bucket
+ */
+@Component({
+  selector: 'app-event-histogram',
+  templateUrl: './event-histogram.component.html',
+  styleUrls: ['./event-histogram.component.scss']
+})
+export class EventHistogramComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @Input() buckets: HistogramBucket[] = [];
+  @Input() interval: HistogramInterval | null = null;
+  @Input() totalHits: number = 0;
+  @Input() loading: boolean = false;
+  @Output() timeRangeSelected = new EventEmitter<{ from: Date; to: Date }>();
+
+  @ViewChild('chartCanvas') chartCanvas!: ElementRef<HTMLCanvasElement>;
+
+  // Brush selection in pixels, relative to the chart container
+  brushStart: number | null = null;
+  brushEnd: number | null = null;
+
+  private chart?: Chart<'bar'>;
+
+  ngAfterViewInit(): void {
+    this.chart = new Chart(this.chartCanvas.nativeElement, {
+      type: 'bar',
+      data: { labels: [], datasets: [{ data: [], backgroundColor: '#54b399', categoryPercentage: 1, barPercentage: 0.9 }] },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: false,
+        scales: {
+          x: { grid: { display: false }, ticks: { autoSkip: true, maxRotation: 0, font: { size: 11 } } },
+          y: { beginAtZero: true, ticks: { precision: 0, font: { size: 11 } } }
+        },
+        plugins: {
+          tooltip: {
+            callbacks: {
+              title: items => this.formatBucketTime(this.buckets[items[0].dataIndex]?.key, true),
+              label: item => `Count: ${item.formattedValue}`
+            }
+          }
+        }
+      }
+    });
+    this.updateChart();
+  }
+
+  ngOnChanges(): void {
+    this.updateChart();
+  }
+
+  ngOnDestroy(): void {
+    this.chart?.destroy();
+  }
+
+  get intervalLabel(): string {
+    return this.interval ? `per ${this.interval.label}` : '';
+  }
+
+  private updateChart(): void {
+    if (!this.chart) {
+      return;
+    }
+    this.chart.data.labels = this.buckets.map(bucket => this.formatBucketTime(bucket.key, false));
+    this.chart.data.datasets[0].data = this.buckets.map(bucket => bucket.doc_count);
+    this.chart.update();
+  }
+
+  // ============================================================================
+  // Brush / Click To Zoom
+  // ============================================================================
+
+  onMouseDown(event: MouseEvent): void {
+    if (event.button !== 0 || this.buckets.length === 0) {
+      return;
+    }
+    this.brushStart = this.brushEnd = this.getChartX(event);
+  }
+
+  onMouseMove(event: MouseEvent): void {
+    if (this.brushStart !== null) {
+      this.brushEnd = this.getChartX(event);
+    }
+  }
+
+  onMouseUp(event: MouseEvent): void {
+    if (this.brushStart === null) {
+      return;
+    }
+
+    const x = this.getChartX(event);
+    const start = Math.min(this.brushStart, x);
+    const end = Math.max(this.brushStart, x);
+    this.brushStart = this.brushEnd = null;
+
+    // A short drag is a click on a single bar
+    const first = this.getBucketIndexAt(start);
+    const last = end - start < 4 ? first : this.getBucketIndexAt(end);
+    if (first === null || last === null) {
+      return;
+    }
+
+    this.zoomToBuckets(first, last);
+  }
+
+  onMouseLeave(): void {
+    this.brushStart = this.brushEnd = null;
+  }
+
+  get brushLeft(): number {
+    return Math.min(this.brushStart ?? 0, this.brushEnd ?? 0);
+  }
+
+  get brushWidth(): number {
+    return Math.abs((this.brushEnd ?? 0) - (this.brushStart ?? 0));
+  }
+
+  /**
+   * Mouse x relative to the chart container (the canvas fills it)
+   */
+  private getChartX(event: MouseEvent): number {
+    const container = event.currentTarget as HTMLElement;
+    return event.clientX - container.getBoundingClientRect().left;
+  }
+
+  private getBucketIndexAt(x: number): number | null {
+    const scale = this.chart?.scales['x'];
+    if (!scale || this.buckets.length === 0) {
+      return null;
+    }
+    const index = Math.round(scale.getValueForPixel(x) ?? -1);
+    return Math.min(Math.max(index, 0), this.buckets.length - 1);
+  }
+
+  /**
+   * Emits the range from the start of the first bucket to the last
+   * millisecond of the last one
+   */
+  private zoomToBuckets(first: number, last: number): void {
+    if (!this.interval) {
+      return;
+    }
+    const from = new Date(this.buckets[first].key);
+    const to = new Date(this.buckets[last].key + this.interval.ms - 1);
+    this.timeRangeSelected.emit({ from, to });
+  }
+
+  private formatBucketTime(key: number | undefined, withDate: boolean): string {
+    if (key === undefined) {
+      return '';
+    }
+    const date = new Date(key);
+    const ms = this.interval?.ms || 0;
+
+    if (ms >= 86400000) {
+      return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    }
+
+    const time = date.toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      second: ms < 60000 ? '2-digit' : undefined,
+      hour12: false
+    });
+    return withDate ? `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} ${time}` : time;
+  }
+}
@@ -0,0 +1,203 @@
+import { Component, OnInit, OnChanges, Input, Output, EventEmitter } from '@angular/core';
+import { FilterService } from '../services/filter.service';
+import { IndexField } from '../filter.model';
+import { flattenDocument } from '../utils/document-utils';
+
+/**
+ * Emitted by the +/- buttons of a field value
+ */
+export interface FieldFilterEvent {
+  field: string;
+  operator: 'is' | 'is_not';
+  value: any;
+}
+
+interface SidebarField {
+  name: string;
+  type: string;
+  filterField: string; // .keyword sub-field for text fields, so filters match exactly
+  docCount: number;
+  share: number;
+}
+
+interface FieldValueCount {
+  value: any;
+  label: string;
+  count: number;
+  percent: number;
+}
+
+/**
+ * Discover-style field list
+ *
+ * Features:
+ * - Fields from /api/elastic/fields with their mapped type
+ * - Share of the loaded documents containing each field
+ * - Top 5 values (with percentages) of the loaded documents
+ * - Filter for / filter out buttons per value
+ */
+@Component({
+  selector: 'app-field-sidebar',
+  templateUrl: './field-sidebar.component.html',
+  styleUrls: ['./field-sidebar.component.scss']
+})
+export class FieldSidebarComponent implements OnInit, OnChanges {
+  @Input() documents: Array<{ _source: { [key: string]: any } }> = [];
+  @Output() filterAdded = new EventEmitter<FieldFilterEvent>();
+
+  indexFields: IndexField[] = [];
+  availableFields: SidebarField[] = [];
+  emptyFields: SidebarField[] = [];
+  searchTerm: string = '';
+  expandedField: string | null = null;
+  topValues: FieldValueCount[] = [];
+  showEmptyFields: boolean = false;
+
+  private flattenedDocs: Array<{ [path: string]: any }> = [];
+
+  constructor(private filterService: FilterService) {}
+
+  ngOnInit(): void {
+    this.filterService.getFieldsWithTypes().subscribe(
+      (fields: IndexField[]) => {
+        this.indexFields = fields;
+        this.updateFieldStats();
+      },
+      (error) => {
+        console.error('Error loading fields:', error);
+        // Fall back to the fields present in the loaded documents
+        this.indexFields = [];
+        this.updateFieldStats();
+      }
+    );
+  }
+
+  ngOnChanges(): void {
+    this.updateFieldStats();
+  }
+
+  get filteredAvailableFields(): SidebarField[] {
+    return this.filterBySearch(this.availableFields);
+  }
+
+  get filteredEmptyFields(): SidebarField[] {
+    return this.filterBySearch(this.emptyFields);
+  }
+
+  toggleField(field: SidebarField): void {
+    if (this.expandedField === field.name) {
+      this.expandedField = null;
+      return;
+    }
+    this.expandedField = field.name;
+    this.topValues = this.computeTopValues(field);
+  }
+
+  filterFor(field: SidebarField, value: FieldValueCount): void {
+    this.filterAdded.emit({ field: field.filterField, operator: 'is', value: value.value });
+  }
+
+  filterOut(field: SidebarField, value: FieldValueCount): void {
+    this.filterAdded.emit({ field: field.filterField, operator: 'is_not', value: value.value });
+  }
+
+  getTypeIcon(type: string): string {
+    const icons: { [key: string]: string } = {
+      text: 't',
+      keyword: 'k',
+      date: 'd',
+      ip: 'ip',
+      boolean: 'b',
+      geo_point: 'geo',
+      long: '#',
+      integer: '#',
+      short: '#',
+      byte: '#',
+      double: '#',
+      float: '#',
+      half_float: '#',
+      scaled_float: '#'
+    };
+    return icons[type] || '?';
+  }
+
+  // ============================================================================
+  // Statistics
+  // ============================================================================
+
+  private updateFieldStats(): void {
+    this.flattenedDocs = (this.documents || []).map(doc => flattenDocument(doc._source || {}));
+    const total = this.flattenedDocs.length;
+    const fieldNames = new Set(this.indexFields.map(f => f.name));
+
+    const sidebarFields: SidebarField[] = this.getDisplayFields().map(({ name, type }) => {
+      const docCount = this.flattenedDocs.filter(doc => this.hasValue(doc[name])).length;
+      const keywordField = `${name}.keyword`;
+      return {
+        name,
+        type,
+        filterField: type === 'text' && fieldNames.has(keywordField) ? keywordField : name,
+        docCount,
+        share: total > 0 ? (docCount / total) * 100 : 0
+      };
+    });
+
+    this.availableFields = sidebarFields.filter(f => f.docCount > 0);
+    this.emptyFields = sidebarFields.filter(f => f.docCount === 0);
+
+    // Keep the expanded field's values in sync with the loaded documents
+    const expanded = sidebarFields.find(f => f.name === this.expandedField);
+    this.topValues = expanded ? this.computeTopValues(expanded) : [];
+  }
+
+  /**
+   * Mapped fields without their .keyword sub-fields (like Discover), or the
+   * document paths when the mapping could not be loaded
+   */
+  private getDisplayFields(): Array<{ name: string; type: string }> {
+    if (this.indexFields.length === 0) {
+      const paths = new Set<string>();
+      this.flattenedDocs.forEach(doc => Object.keys(doc).forEach(path => paths.add(path)));
+      return [...paths].sort().map(name => ({ name, type: 'unknown' }));
+    }
+
+    const names = new Set(this.indexFields.map(f => f.name));
+    return this.indexFields
+      .filter(f => !(f.name.endsWith('.keyword') && names.has(f.name.slice(0, -'.keyword'.length))))
+      .map(f => ({ name: f.name, type: f.type }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private computeTopValues(field: SidebarField): FieldValueCount[] {
+    const counts = new Map<string, FieldValueCount>();
+
+    this.flattenedDocs.forEach(doc => {
+      const raw = doc[field.name];
+      if (!this.hasValue(raw)) return;
+
+      // Each array element counts as a value (only once per document)
+      const values = new Set(Array.isArray(raw) ? raw : [raw]);
+      values.forEach(value => {
+        if (!this.hasValue(value)) return;
+        const label = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        const entry = counts.get(label) || { value, label, count: 0, percent: 0 };
+        entry.count++;
+        counts.set(label, entry);
+      });
+    });
+
+    return [...counts.values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5)
+      .map(entry => ({ ...entry, percent: field.docCount > 0 ? (entry.count / field.docCount) * 100 : 0 }));
+  }
+
+  private hasValue(value: any): boolean {
+    return value !== null && value !== undefined && !(Array.isArray(value) && value.length === 0);
+  }
+
+  private filterBySearch(fields: SidebarField[]): SidebarField[] {
+    const term = this.searchTerm.trim().toLowerCase();
+    return term ? fields.filter(f => f.name.toLowerCase().includes(term)) : fields;
+  }
+}
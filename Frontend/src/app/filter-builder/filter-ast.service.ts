@@ -11,6 +11,9 @@ import {
   generateId,
   ASTNode
 } from './filter-builder.model';
+import { parseKql } from './kql-parser';
+import { validateQueryDsl } from './query-dsl-schema';
+import { buildGeoAreaQuery } from '../utils/kibana-filter-utils';
 
 /**
  * Filter AST Service
@@ -58,19 +61,44 @@ export class FilterAstService {
       return createClauseNode(rows[0].clause);
     }
 
-    // Start with first row
-    let result: FilterASTNode = createClauseNode(rows[0].clause);
+    return this.buildLevel(rows, 0);
+  }
+
+  /**
+   * Builds one nesting level of the AST
+   *
+   * Consecutive rows sharing groupPath[depth] are built into their own group
+   * first; everything else is combined left-to-right as described above.
+   */
+  private buildLevel(rows: FilterRow[], depth: number): FilterASTNode {
+    let result: FilterASTNode | null = null;
+    let index = 0;
+
+    while (index < rows.length) {
+      const groupId = rows[index].groupPath?.[depth];
+      let end = index + 1;
+      if (groupId) {
+        while (end < rows.length && rows[end].groupPath?.[depth] === groupId) {
+          end++;
+        }
+      }
+
+      let node: FilterASTNode = groupId
+        ? this.buildLevel(rows.slice(index, end), depth + 1)
+        : createClauseNode(rows[index].clause);
 
-    // Process remaining rows
-    for (let i = 1; i < rows.length; i++) {
-      const row = rows[i];
-      const operator = row.logicOperator || 'AND';
-      const nextNode = createClauseNode(row.clause);
+      // Reuse the rows' group id so astToRows round-trips to the same groupPath
+      if (groupId && node.type === 'group') {
+        node = { ...node, id: groupId };
+      }
 
-      result = this.combineNodes(result, nextNode, operator);
+      result = result
+        ? this.combineNodes(result, node, rows[index].logicOperator || 'AND')
+        : node;
+      index = end;
     }
 
-    return result;
+    return result as FilterASTNode;
   }
 
   /**
@@ -91,6 +119,55 @@ export class FilterAstService {
     return createGroupNode(operator, [left, right]);
   }
 
+  // ============================================================================
+  // Text Query Parsing
+  // ============================================================================
+
+  /**
+   * Parses a KQL-style query string into an AST
+   * Throws KqlSyntaxError (with position) on invalid input
+   */
+  parseQuery(query: string): FilterASTNode | null {
+    return parseKql(query);
+  }
+
+  /**
+   * Converts an AST back into filter rows
+   *
+   * Each row's logicOperator connects it to the previous row at the level where
+   * their groupPath diverges, so buildAST(astToRows(ast)) rebuilds the same tree.
+   */
+  astToRows(ast: FilterASTNode | null): FilterRow[] {
+    if (!ast) {
+      return [];
+    }
+
+    const rows: FilterRow[] = [];
+
+    const visit = (node: FilterASTNode, path: string[], connector: LogicalOperator | undefined, isRoot: boolean) => {
+      if (node.type === 'clause') {
+        rows.push({
+          id: generateId(),
+          clause: node.clause,
+          logicOperator: rows.length > 0 ? connector : undefined,
+          level: path.length,
+          parentGroupId: path[path.length - 1],
+          groupPath: path.length > 0 ? path : undefined
+        });
+        return;
+      }
+
+      // The root group is the top level itself; nested groups extend the path
+      const childPath = isRoot ? path : [...path, node.id];
+      (node.children as FilterASTNode[]).forEach((child, i) =>
+        visit(child, childPath, i === 0 ? connector : node.operator, false)
+      );
+    };
+
+    visit(ast, [], undefined, true);
+    return rows;
+  }
+
   // ============================================================================
   // AST Manipulation
   // ============================================================================
@@ -278,6 +355,11 @@ export class FilterAstService {
   private formatClause(clause: FilterClause): string {
     const { field, operator, value, values, minValue, maxValue } = clause;
 
+    // Custom DSL has no field: the pill shows its label
+    if (operator === 'custom') {
+      return `DSL: ${clause.label || 'custom query'}`;
+    }
+
     if (!field) {
       return '...';
     }
@@ -304,6 +386,8 @@ export class FilterAstService {
         return `${field} matches "${value}"`;
       case 'query_string':
         return `${field}: "${value}"`;
+      case 'geo_within':
+        return `${field} within drawn area`;
       case 'is_not':
         return `${field} is not "${value}"`;
       case 'is':
@@ -366,9 +450,13 @@ export class FilterAstService {
   /**
    * Converts a single clause to Query DSL
    */
-  private clauseToQueryDSL(clause: FilterClause): any {
+  clauseToQueryDSL(clause: FilterClause): any {
     const { field, operator, value, values, minValue, maxValue, minOperator, maxOperator } = clause;
 
+    if (operator === 'custom') {
+      return this.parseCustomDsl(value) || { match_all: {} };
+    }
+
     if (!field) {
       return { match_all: {} };
     }
@@ -424,11 +512,26 @@ export class FilterAstService {
       case 'query_string':
         return { query_string: { default_field: field, query: value } };
 
+      case 'geo_within':
+        return buildGeoAreaQuery(field, value) || { match_all: {} };
+
       default:
         return { match_all: {} };
     }
   }
 
+  /**
+   * Gets the query of a custom clause (edited as JSON text)
+   *
+   * @returns null when the DSL does not pass schema validation
+   */
+  parseCustomDsl(value: any): any | null {
+    if (value && typeof value === 'object') {
+      return value;
+    }
+    return validateQueryDsl(typeof value === 'string' ? value : '').query;
+  }
+
   /**
    * Checks if value is numeric
    */
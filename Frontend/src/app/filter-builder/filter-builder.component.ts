@@ -1,5 +1,8 @@
-import { Component, Input, Output, EventEmitter, OnInit, OnChanges, SimpleChanges } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnInit, OnChanges, SimpleChanges, HostListener } from '@angular/core';
 import { FilterAstService } from './filter-ast.service';
+import { KqlSyntaxError } from './kql-parser';
+import { UndoHistory, getUndoShortcut, isTextInputTarget } from '../utils/undo-history';
+import { buildGeoAreaQuery } from '../utils/kibana-filter-utils';
 import {
   FilterRow,
   FilterClause,
@@ -27,6 +30,9 @@ import {
  * - Order-dependent grouping (click-order determines grouping)
  * - Real-time preview with parenthesis
  * - AST tree representation
+ * - KQL-style text query bar that parses into rows
+ * - Custom Query DSL clauses ("Edit as Query DSL") with schema validation
+ * - Undo / redo of row edits (Ctrl+Z / Ctrl+Shift+Z)
  */
 @Component({
   selector: 'app-filter-builder',
@@ -63,6 +69,14 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
   // Track which rows are expanded for multi-value input
   expandedRows: Set<string> = new Set();
 
+  // KQL query bar
+  queryText: string = '';
+  queryError: KqlSyntaxError | null = null;
+
+  // Undo / redo of row edits
+  readonly history = new UndoHistory<FilterRow[]>();
+  private isTrackingChange = false;
+
   constructor(private astService: FilterAstService) { }
 
   // ============================================================================
@@ -76,16 +90,62 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
       // Start with one empty row
       this.addRow();
     }
+    this.history.clear();
     this.updatePreview();
   }
 
   ngOnChanges(changes: SimpleChanges): void {
     if (changes['initialRows'] && changes['initialRows'].currentValue) {
-      this.rows = [...changes['initialRows'].currentValue];
+      const rows: FilterRow[] = changes['initialRows'].currentValue;
+
+      // The parent echoes rowsChanged back; any other rows start a new history
+      const isEcho = rows.length === this.rows.length && rows.every((row, i) => row === this.rows[i]);
+      if (!isEcho) {
+        this.history.clear();
+      }
+
+      this.rows = [...rows];
       this.updatePreview();
     }
   }
 
+  // ============================================================================
+  // Undo / Redo
+  // ============================================================================
+
+  /**
+   * Ctrl+Z / Ctrl+Shift+Z while focus is inside the builder (text inputs
+   * keep the browser's own undo)
+   */
+  @HostListener('keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    const action = getUndoShortcut(event);
+    if (!action || isTextInputTarget(event.target)) {
+      return;
+    }
+
+    event.preventDefault();
+    if (action === 'undo') {
+      this.undo();
+    } else {
+      this.redo();
+    }
+  }
+
+  undo(): void {
+    const entry = this.history.undo();
+    if (entry) {
+      this.restoreRows(entry.before);
+    }
+  }
+
+  redo(): void {
+    const entry = this.history.redo();
+    if (entry) {
+      this.restoreRows(entry.after);
+    }
+  }
+
   // ============================================================================
   // Row Management
   // ============================================================================
@@ -94,20 +154,22 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
    * Adds a new filter row after the specified index
    */
   addRow(afterIndex?: number, logicOperator: LogicalOperator = 'AND'): void {
-    const newRow = createFilterRow(logicOperator);
-    
-    if (afterIndex === undefined || afterIndex < 0 || afterIndex >= this.rows.length) {
-      // Add to end
-      this.rows.push(newRow);
-    } else {
-      // Insert after specified index
-      this.rows.splice(afterIndex + 1, 0, newRow);
+    this.trackChange(`added ${logicOperator} filter`, () => {
+      const newRow = createFilterRow(logicOperator);
       
-      // Set the logic operator for the new row
-      newRow.logicOperator = logicOperator;
-    }
-    
-    this.onRowsChanged();
+      if (afterIndex === undefined || afterIndex < 0 || afterIndex >= this.rows.length) {
+        // Add to end
+        this.rows.push(newRow);
+      } else {
+        // Insert after specified index
+        this.rows.splice(afterIndex + 1, 0, newRow);
+        
+        // Set the logic operator for the new row
+        newRow.logicOperator = logicOperator;
+      }
+      
+      this.onRowsChanged();
+    });
   }
 
   /**
@@ -118,19 +180,21 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
       return;
     }
     
-    this.rows.splice(index, 1);
-    
-    // If we removed the first row, clear the logic operator of the new first row
-    if (index === 0 && this.rows.length > 0) {
-      this.rows[0].logicOperator = undefined;
-    }
-    
-    // If no rows left, add an empty one
-    if (this.rows.length === 0) {
-      this.addRow();
-    }
-    
-    this.onRowsChanged();
+    this.trackChange(`removed ${this.describeRow(this.rows[index])}`, () => {
+      this.rows.splice(index, 1);
+      
+      // If we removed the first row, clear the logic operator of the new first row
+      if (index === 0 && this.rows.length > 0) {
+        this.rows[0].logicOperator = undefined;
+      }
+      
+      // If no rows left, add an empty one
+      if (this.rows.length === 0) {
+        this.addRow();
+      }
+      
+      this.onRowsChanged();
+    });
   }
 
   /**
@@ -149,21 +213,72 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
       level: sourceRow.level
     };
     
-    this.rows.splice(index + 1, 0, newRow);
-    this.onRowsChanged();
+    this.trackChange(`duplicated ${this.describeRow(sourceRow)}`, () => {
+      this.rows.splice(index + 1, 0, newRow);
+      this.onRowsChanged();
+    });
   }
 
   /**
    * Moves a row up or down
    */
   moveRow(index: number, direction: 'up' | 'down'): void {
-    if (direction === 'up' && index > 0) {
-      [this.rows[index], this.rows[index - 1]] = [this.rows[index - 1], this.rows[index]];
-      this.onRowsChanged();
-    } else if (direction === 'down' && index < this.rows.length - 1) {
-      [this.rows[index], this.rows[index + 1]] = [this.rows[index + 1], this.rows[index]];
+    const target = direction === 'up' ? index - 1 : index + 1;
+    if (index < 0 || index >= this.rows.length || target < 0 || target >= this.rows.length) {
+      return;
+    }
+
+    this.trackChange(`moved ${this.describeRow(this.rows[index])} ${direction}`, () => {
+      [this.rows[index], this.rows[target]] = [this.rows[target], this.rows[index]];
       this.onRowsChanged();
+    });
+  }
+
+  // ============================================================================
+  // Text Query
+  // ============================================================================
+
+  /**
+   * Parses the KQL query bar and replaces the rows with the result
+   */
+  applyQuery(): void {
+    this.queryError = null;
+
+    let ast: FilterASTNode | null;
+    try {
+      ast = this.astService.parseQuery(this.queryText);
+    } catch (error) {
+      if (error instanceof KqlSyntaxError) {
+        this.queryError = error;
+        return;
+      }
+      throw error;
     }
+
+    if (!ast) {
+      return;
+    }
+
+    const rows = this.astService.astToRows(ast);
+    this.trackChange(`parsed query "${this.queryText.trim()}"`, () => {
+      this.rows = rows;
+      this.onRowsChanged();
+    });
+  }
+
+  /**
+   * Updates the query text and clears any stale syntax error
+   */
+  updateQueryText(text: string): void {
+    this.queryText = text;
+    this.queryError = null;
+  }
+
+  /**
+   * Gets the padding that points at the error position under the query input
+   */
+  getQueryErrorMarker(): string {
+    return this.queryError ? ' '.repeat(this.queryError.position) + '^' : '';
   }
 
   // ============================================================================
@@ -179,14 +294,16 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
     }
     
     const row = this.rows[rowIndex];
-    row.clause.field = field;
-    
-    // Reset operator and value when field changes
-    row.clause.operator = 'is';
-    row.clause.value = '';
-    row.clause.values = undefined;
-    
-    this.onRowsChanged();
+    this.trackChange(`set field ${field || '(none)'} on row ${rowIndex + 1}`, () => {
+      row.clause.field = field;
+      
+      // Reset operator and value when field changes
+      row.clause.operator = 'is';
+      row.clause.value = '';
+      row.clause.values = undefined;
+      
+      this.onRowsChanged();
+    });
   }
 
   /**
@@ -198,26 +315,49 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
     }
     
     const row = this.rows[rowIndex];
-    const oldOperator = row.clause.operator;
-    row.clause.operator = operator;
-    
-    // Clear values if operator doesn't require them
-    if (!operatorRequiresValue(operator)) {
-      row.clause.value = '';
-      row.clause.values = undefined;
-    }
-    
-    // Initialize values array for multi-value operators
-    if (operatorSupportsMultipleValues(operator) && !row.clause.values) {
-      row.clause.values = [];
-    }
-    
-    // Clear single value if switching to multi-value
-    if (operatorSupportsMultipleValues(operator)) {
-      row.clause.value = '';
-    }
-    
-    this.onRowsChanged();
+    const label = `changed ${row.clause.field || 'filter'} operator to "${getOperatorDef(operator)?.label || operator}"`;
+    const wasCustom = row.clause.operator === 'custom';
+    const wasGeo = row.clause.operator === 'geo_within';
+
+    // Switching to custom DSL starts from the clause's current query
+    const customDsl = operator === 'custom' && !wasCustom
+      ? JSON.stringify(this.astService.clauseToQueryDSL(row.clause), null, 2)
+      : undefined;
+    const customLabel = row.clause.field ? this.describeRow(row) : '';
+
+    this.trackChange(label, () => {
+      row.clause.operator = operator;
+
+      if (customDsl !== undefined) {
+        row.clause.value = customDsl;
+        row.clause.values = undefined;
+        row.clause.label = row.clause.label || customLabel;
+      } else if (wasCustom && operator !== 'custom') {
+        row.clause.value = '';
+        row.clause.label = undefined;
+      } else if (wasGeo || operator === 'geo_within') {
+        // Drawn areas are not typed in, and cannot be typed over
+        row.clause.value = '';
+      }
+      
+      // Clear values if operator doesn't require them
+      if (!operatorRequiresValue(operator)) {
+        row.clause.value = '';
+        row.clause.values = undefined;
+      }
+      
+      // Initialize values array for multi-value operators
+      if (operatorSupportsMultipleValues(operator) && !row.clause.values) {
+        row.clause.values = [];
+      }
+      
+      // Clear single value if switching to multi-value
+      if (operatorSupportsMultipleValues(operator)) {
+        row.clause.value = '';
+      }
+      
+      this.onRowsChanged();
+    });
   }
 
   /**
@@ -228,8 +368,33 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
       return;
     }
     
-    this.rows[rowIndex].clause.value = value;
-    this.onRowsChanged();
+    const row = this.rows[rowIndex];
+    this.trackChange(() => `set ${this.describeRow(row)}`, () => {
+      row.clause.value = value;
+      this.onRowsChanged();
+    }, `value:${row.id}`);
+  }
+
+  /**
+   * Updates the pill label of a custom DSL clause
+   */
+  updateLabel(rowIndex: number, label: string): void {
+    if (rowIndex < 0 || rowIndex >= this.rows.length) {
+      return;
+    }
+
+    const row = this.rows[rowIndex];
+    this.trackChange(`renamed custom DSL to "${label}"`, () => {
+      row.clause.label = label;
+      this.onRowsChanged();
+    }, `label:${row.id}`);
+  }
+
+  /**
+   * Turns a row into a custom DSL clause holding its current query
+   */
+  editAsQueryDsl(rowIndex: number): void {
+    this.updateOperator(rowIndex, 'custom');
   }
 
   /**
@@ -240,8 +405,11 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
       return;
     }
     
-    this.rows[rowIndex].clause.values = values;
-    this.onRowsChanged();
+    const row = this.rows[rowIndex];
+    this.trackChange(() => `set ${this.describeRow(row)}`, () => {
+      row.clause.values = values;
+      this.onRowsChanged();
+    });
   }
 
   /**
@@ -253,13 +421,15 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
     }
     
     const row = this.rows[rowIndex];
-    if (type === 'min') {
-      row.clause.minValue = value;
-    } else {
-      row.clause.maxValue = value;
-    }
-    
-    this.onRowsChanged();
+    this.trackChange(() => `set ${this.describeRow(row)}`, () => {
+      if (type === 'min') {
+        row.clause.minValue = value;
+      } else {
+        row.clause.maxValue = value;
+      }
+      
+      this.onRowsChanged();
+    }, `${type}:${row.id}`);
   }
 
   // ============================================================================
@@ -275,8 +445,11 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
       return;
     }
     
-    this.rows[rowIndex].logicOperator = operator;
-    this.onRowsChanged();
+    const row = this.rows[rowIndex];
+    this.trackChange(`joined ${this.describeRow(row)} with ${operator}`, () => {
+      row.logicOperator = operator;
+      this.onRowsChanged();
+    });
   }
 
   /**
@@ -310,6 +483,70 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
     this.rowsChanged.emit([...this.rows]);
   }
 
+  /**
+   * Runs a change and records it in the history (changes made while
+   * another one is being recorded belong to that entry). The label can be
+   * a function when it depends on the result.
+   */
+  private trackChange(label: string | (() => string), change: () => void, mergeKey?: string): void {
+    if (this.isTrackingChange) {
+      change();
+      return;
+    }
+
+    const before = this.snapshotRows();
+    this.isTrackingChange = true;
+    try {
+      change();
+    } finally {
+      this.isTrackingChange = false;
+    }
+
+    const after = this.snapshotRows();
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      this.history.record(typeof label === 'function' ? label() : label, before, after, mergeKey);
+    }
+  }
+
+  /**
+   * Rows are edited in place, so history entries keep deep copies
+   */
+  private snapshotRows(): FilterRow[] {
+    return JSON.parse(JSON.stringify(this.rows));
+  }
+
+  private restoreRows(rows: FilterRow[]): void {
+    this.rows = JSON.parse(JSON.stringify(rows));
+    this.onRowsChanged();
+  }
+
+  /**
+   * Readable description of a row for history labels ("host.name is web01")
+   */
+  private describeRow(row: FilterRow): string {
+    const clause = row.clause;
+    if (clause.operator === 'custom') {
+      return `DSL: ${clause.label || 'custom query'}`;
+    }
+    if (!clause.field) {
+      return 'empty filter';
+    }
+
+    const operator = getOperatorDef(clause.operator)?.label || clause.operator;
+    let value = '';
+    if (clause.operator === 'range') {
+      value = `${clause.minValue ?? '*'} and ${clause.maxValue ?? '*'}`;
+    } else if (clause.operator === 'geo_within') {
+      value = 'drawn area';
+    } else if (clause.values && clause.values.length > 0) {
+      value = clause.values.join(', ');
+    } else if (clause.value !== undefined && clause.value !== '') {
+      value = String(clause.value);
+    }
+
+    return [clause.field, operator, value].filter(Boolean).join(' ');
+  }
+
   // ============================================================================
   // Actions
   // ============================================================================
@@ -338,9 +575,11 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
    * Clears all filters and resets to initial state
    */
   clearFilters(): void {
-    this.rows = [];
-    this.addRow();
-    this.onRowsChanged();
+    this.trackChange('cleared all filters', () => {
+      this.rows = [];
+      this.addRow();
+      this.onRowsChanged();
+    });
     this.filtersCleared.emit();
   }
 
@@ -369,6 +608,20 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
     return operatorSupportsMultipleValues(row.clause.operator);
   }
 
+  /**
+   * Checks if a row holds a custom Query DSL clause
+   */
+  isCustomOperator(row: FilterRow): boolean {
+    return row.clause.operator === 'custom';
+  }
+
+  /**
+   * Checks if a row filters on an area drawn on the map
+   */
+  isGeoOperator(row: FilterRow): boolean {
+    return row.clause.operator === 'geo_within';
+  }
+
   /**
    * Checks if operator is range
    */
@@ -399,6 +652,11 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
    */
   isRowValid(row: FilterRow): boolean {
     const clause = row.clause;
+
+    // Custom DSL needs no field, only a query passing schema validation
+    if (clause.operator === 'custom') {
+      return this.astService.parseCustomDsl(clause.value) !== null;
+    }
     
     if (!clause.field) {
       return false;
@@ -408,6 +666,10 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
       return true;
     }
     
+    if (clause.operator === 'geo_within') {
+      return buildGeoAreaQuery(clause.field, clause.value) !== null;
+    }
+
     if (clause.operator === 'range') {
       return clause.minValue !== undefined && clause.minValue !== '' ||
              clause.maxValue !== undefined && clause.maxValue !== '';
@@ -465,8 +727,10 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
     }
     
     if (!row.clause.values.includes(value.trim())) {
-      row.clause.values.push(value.trim());
-      this.onRowsChanged();
+      this.trackChange(`added ${value.trim()} to ${row.clause.field || 'filter'}`, () => {
+        row.clause.values = [...(row.clause.values || []), value.trim()];
+        this.onRowsChanged();
+      });
     }
   }
 
@@ -476,8 +740,10 @@ export class FilterBuilderComponent implements OnInit, OnChanges {
   removeMultiValue(rowIndex: number, value: string): void {
     const row = this.rows[rowIndex];
     if (row.clause.values) {
-      row.clause.values = row.clause.values.filter(v => v !== value);
-      this.onRowsChanged();
+      this.trackChange(`removed ${value} from ${row.clause.field || 'filter'}`, () => {
+        row.clause.values = (row.clause.values || []).filter(v => v !== value);
+        this.onRowsChanged();
+      });
     }
   }
 
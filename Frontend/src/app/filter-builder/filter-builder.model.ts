@@ -17,7 +17,9 @@ export type FilterOperator =
   | 'range'
   | 'prefix'
   | 'wildcard'
-  | 'query_string';
+  | 'query_string'
+  | 'geo_within' // Geo point inside an area drawn on the map
+  | 'custom'; // Raw Query DSL clause
 
 export type LogicalOperator = 'AND' | 'OR';
 
@@ -34,6 +36,7 @@ export interface FilterClause {
   maxValue?: any; // For range
   minOperator?: string; // For range
   maxOperator?: string; // For range
+  label?: string; // For custom: pill label shown instead of the raw DSL
 }
 
 // ============================================================================
@@ -86,6 +89,7 @@ export interface FilterRow {
   logicOperator?: LogicalOperator; // Operator connecting to previous row (null for first row)
   level: number; // Nesting level for indentation
   parentGroupId?: string;
+  groupPath?: string[]; // Ids of enclosing groups, outermost first
 }
 
 // ============================================================================
@@ -131,6 +135,8 @@ export const FILTER_OPERATORS: FilterOperatorDef[] = [
   { value: 'prefix', label: 'starts with', description: 'Starts with prefix', requiresValue: true, supportsMultipleValues: false },
   { value: 'wildcard', label: 'matches pattern', description: 'Matches wildcard pattern', requiresValue: true, supportsMultipleValues: false },
   { value: 'query_string', label: 'query string', description: 'Lucene query syntax', requiresValue: true, supportsMultipleValues: false },
+  { value: 'geo_within', label: 'is within', description: 'Inside an area drawn on the map', requiresValue: true, supportsMultipleValues: false },
+  { value: 'custom', label: 'custom DSL', description: 'Raw Elasticsearch Query DSL', requiresValue: true, supportsMultipleValues: false },
 ];
 
 // ============================================================================
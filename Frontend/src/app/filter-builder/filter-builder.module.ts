@@ -3,10 +3,12 @@ import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { FilterBuilderComponent } from './filter-builder.component';
 import { FilterAstService } from './filter-ast.service';
+import { QueryDslEditorComponent } from '../query-dsl-editor/query-dsl-editor.component';
 
 @NgModule({
   declarations: [
-    FilterBuilderComponent
+    FilterBuilderComponent,
+    QueryDslEditorComponent
   ],
   imports: [
     CommonModule,
@@ -0,0 +1,91 @@
+import { parseKql, tokenizeKql, KqlSyntaxError } from './kql-parser';
+import { FilterAstService } from './filter-ast.service';
+import { ClauseNode, GroupNode } from './filter-builder.model';
+
+describe('KQL Parser', () => {
+  const astService = new FilterAstService();
+
+  describe('Tokenizer', () => {
+    it('should tokenize fields, operators and keywords', () => {
+      const tokens = tokenizeKql('verb:GET and bytes >= 10');
+      expect(tokens.map(t => t.type)).toEqual(['word', 'colon', 'word', 'and', 'word', 'range', 'word', 'eof']);
+      expect(tokens[5].value).toBe('>=');
+    });
+
+    it('should keep quoted phrases and escaped characters', () => {
+      const tokens = tokenizeKql('message:"a \\"b\\" c" path:a\\:b');
+      expect(tokens[2].value).toBe('a "b" c');
+      expect(tokens[5].value).toBe('a:b');
+    });
+  });
+
+  describe('Clauses', () => {
+    it('should parse field:value as is', () => {
+      const ast = parseKql('waf_action:blocked') as ClauseNode;
+      expect(ast.clause.field).toBe('waf_action');
+      expect(ast.clause.operator).toBe('is');
+      expect(ast.clause.value).toBe('blocked');
+    });
+
+    it('should parse wildcards, exists and ranges', () => {
+      expect((parseKql('siem_sourceip:10.*') as ClauseNode).clause.operator).toBe('wildcard');
+      expect((parseKql('host.name:*') as ClauseNode).clause.operator).toBe('exists');
+
+      const range = (parseKql('bytes > 100') as ClauseNode).clause;
+      expect(range.operator).toBe('range');
+      expect(range.minValue).toBe('100');
+      expect(range.minOperator).toBe('gt');
+    });
+
+    it('should collapse field:(a or b) into is_one_of', () => {
+      const ast = parseKql('verb:(GET or POST or PUT)') as ClauseNode;
+      expect(ast.clause.operator).toBe('is_one_of');
+      expect(ast.clause.values).toEqual(['GET', 'POST', 'PUT']);
+    });
+  });
+
+  describe('Boolean logic', () => {
+    it('should give AND precedence over OR', () => {
+      const ast = parseKql('a:1 or b:2 and c:3') as GroupNode;
+      expect(ast.operator).toBe('OR');
+      expect((ast.children[1] as GroupNode).operator).toBe('AND');
+    });
+
+    it('should push NOT down to the clauses', () => {
+      const ast = parseKql('not (a:1 or b:*)') as GroupNode;
+      expect(ast.operator).toBe('AND');
+      expect((ast.children[0] as ClauseNode).clause.operator).toBe('is_not');
+      expect((ast.children[1] as ClauseNode).clause.operator).toBe('does_not_exist');
+    });
+
+    it('should produce the same preview as the builder', () => {
+      const ast = parseKql('waf_action:blocked and (siem_sourceip:10.* or not verb:GET)');
+      expect(astService.generatePreview(ast))
+        .toBe('waf_action is "blocked" AND (siem_sourceip matches "10.*" OR verb is not "GET")');
+    });
+  });
+
+  describe('Errors', () => {
+    it('should report the position of a missing value', () => {
+      try {
+        parseKql('waf_action: and verb:GET');
+        fail('expected a syntax error');
+      } catch (error) {
+        expect(error instanceof KqlSyntaxError).toBe(true);
+        expect((error as KqlSyntaxError).position).toBe(12);
+      }
+    });
+
+    it('should report unbalanced parentheses', () => {
+      expect(() => parseKql('(a:1 or b:2')).toThrowError(KqlSyntaxError, "Expected ')' at position 11");
+    });
+  });
+
+  describe('Rows round trip', () => {
+    it('should rebuild the same query DSL from astToRows', () => {
+      const ast = parseKql('a:1 and (b:2 or (c:3 and d:4)) or e:5');
+      const rows = astService.astToRows(ast);
+      expect(astService.toQueryDSL(astService.buildAST(rows))).toEqual(astService.toQueryDSL(ast));
+    });
+  });
+});
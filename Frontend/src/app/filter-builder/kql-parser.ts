@@ -0,0 +1,526 @@
+/**
+ * KQL Parser
+ * Kibana Query Language (subset) → filter AST
+ *
+ * Supported syntax:
+ * - field:value, field:"quoted phrase"
+ * - field:* (exists), field:val* (wildcard)
+ * - field:(a or b or c) (is one of)
+ * - field > 10, field >= 10, field < 10, field <= 10 (range)
+ * - and / or / not with parentheses (not > and > or)
+ * - bare values without a field (query string on all fields)
+ *
+ * NOT is pushed down to the clauses (De Morgan), so the resulting tree only
+ * contains ClauseNode and GroupNode and can be fed straight into
+ * FilterAstService.toQueryDSL / generatePreview.
+ */
+
+import {
+  FilterASTNode,
+  FilterClause,
+  LogicalOperator,
+  createClauseNode,
+  createGroupNode,
+  generateId
+} from './filter-builder.model';
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Syntax error with the character offset where parsing failed
+ */
+export class KqlSyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'KqlSyntaxError';
+  }
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+export type KqlTokenType =
+  | 'lparen'
+  | 'rparen'
+  | 'colon'
+  | 'range'
+  | 'and'
+  | 'or'
+  | 'not'
+  | 'quoted'
+  | 'word'
+  | 'eof';
+
+export interface KqlToken {
+  type: KqlTokenType;
+  value: string;
+  position: number;
+  /** True when an unescaped * appears in a word token */
+  hasWildcard?: boolean;
+}
+
+const KEYWORDS: { [key: string]: KqlTokenType } = {
+  and: 'and',
+  or: 'or',
+  not: 'not'
+};
+
+const WORD_TERMINATORS = new Set([' ', '\t', '\n', '\r', '(', ')', ':', '<', '>', '"']);
+
+/**
+ * Splits a KQL string into tokens
+ */
+export function tokenizeKql(input: string): KqlToken[] {
+  const tokens: KqlToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '(') {
+      tokens.push({ type: 'lparen', value: ch, position: i++ });
+      continue;
+    }
+
+    if (ch === ')') {
+      tokens.push({ type: 'rparen', value: ch, position: i++ });
+      continue;
+    }
+
+    if (ch === ':') {
+      tokens.push({ type: 'colon', value: ch, position: i++ });
+      continue;
+    }
+
+    if (ch === '<' || ch === '>') {
+      const op = input[i + 1] === '=' ? ch + '=' : ch;
+      tokens.push({ type: 'range', value: op, position: i });
+      i += op.length;
+      continue;
+    }
+
+    if (ch === '"') {
+      const start = i++;
+      let value = '';
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          i++;
+        }
+        value += input[i++];
+      }
+      if (i >= input.length) {
+        throw new KqlSyntaxError('Unterminated quoted string', start);
+      }
+      i++; // closing quote
+      tokens.push({ type: 'quoted', value, position: start });
+      continue;
+    }
+
+    // Unquoted word (field name or value)
+    const start = i;
+    let value = '';
+    let hasWildcard = false;
+    while (i < input.length && !WORD_TERMINATORS.has(input[i]) && !/\s/.test(input[i])) {
+      if (input[i] === '\\' && i + 1 < input.length) {
+        value += input[i + 1];
+        i += 2;
+        continue;
+      }
+      if (input[i] === '*') {
+        hasWildcard = true;
+      }
+      value += input[i++];
+    }
+
+    const keyword = KEYWORDS[value.toLowerCase()];
+    if (keyword && input.slice(start, i) === value) {
+      tokens.push({ type: keyword, value, position: start });
+    } else {
+      tokens.push({ type: 'word', value, position: start, hasWildcard });
+    }
+  }
+
+  tokens.push({ type: 'eof', value: '', position: input.length });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+const RANGE_OPERATORS: { [key: string]: { bound: 'min' | 'max'; op: string } } = {
+  '>': { bound: 'min', op: 'gt' },
+  '>=': { bound: 'min', op: 'gte' },
+  '<': { bound: 'max', op: 'lt' },
+  '<=': { bound: 'max', op: 'lte' }
+};
+
+/**
+ * Recursive-descent parser
+ *
+ * Grammar:
+ *   query      := orExpr EOF
+ *   orExpr     := andExpr ( OR andExpr )*
+ *   andExpr    := notExpr ( AND notExpr )*
+ *   notExpr    := NOT notExpr | primary
+ *   primary    := '(' orExpr ')' | field ':' valueExpr | field RANGE value | value
+ *   valueExpr  := value | '(' valueOr ')'
+ *   valueOr    := valueAnd ( OR valueAnd )*
+ *   valueAnd   := valueNot ( AND valueNot )*
+ *   valueNot   := NOT valueNot | value | '(' valueOr ')'
+ */
+class KqlParser {
+  private index = 0;
+
+  constructor(private tokens: KqlToken[]) { }
+
+  parse(): FilterASTNode | null {
+    if (this.peek().type === 'eof') {
+      return null;
+    }
+
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new KqlSyntaxError(`Unexpected '${next.value}'`, next.position);
+    }
+    return node;
+  }
+
+  // --------------------------------------------------------------------------
+  // Boolean expressions
+  // --------------------------------------------------------------------------
+
+  private parseOr(): FilterASTNode {
+    const children = [this.parseAnd()];
+    while (this.peek().type === 'or') {
+      this.advance();
+      children.push(this.parseAnd());
+    }
+    return combine('OR', children);
+  }
+
+  private parseAnd(): FilterASTNode {
+    const children = [this.parseNot()];
+    while (this.peek().type === 'and') {
+      this.advance();
+      children.push(this.parseNot());
+    }
+    return combine('AND', children);
+  }
+
+  private parseNot(): FilterASTNode {
+    if (this.peek().type === 'not') {
+      this.advance();
+      return negateNode(this.parseNot());
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterASTNode {
+    const token = this.peek();
+
+    if (token.type === 'lparen') {
+      this.advance();
+      const node = this.parseOr();
+      this.expect('rparen', "Expected ')'");
+      return node;
+    }
+
+    if (token.type === 'word' || token.type === 'quoted') {
+      this.advance();
+      const next = this.peek();
+
+      if (next.type === 'colon') {
+        if (token.type === 'quoted') {
+          throw new KqlSyntaxError('Field name cannot be quoted', token.position);
+        }
+        this.advance();
+        return this.parseFieldValue(token.value);
+      }
+
+      if (next.type === 'range') {
+        if (token.type === 'quoted') {
+          throw new KqlSyntaxError('Field name cannot be quoted', token.position);
+        }
+        this.advance();
+        return this.parseRange(token.value, next);
+      }
+
+      // Bare value: search all fields
+      return createClauseNode(freeTextClause(token));
+    }
+
+    if (token.type === 'eof') {
+      throw new KqlSyntaxError('Unexpected end of query', token.position);
+    }
+
+    throw new KqlSyntaxError(`Unexpected '${token.value}'`, token.position);
+  }
+
+  // --------------------------------------------------------------------------
+  // Field expressions
+  // --------------------------------------------------------------------------
+
+  private parseFieldValue(field: string): FilterASTNode {
+    if (this.peek().type === 'lparen') {
+      this.advance();
+      const node = this.parseValueOr(field);
+      this.expect('rparen', "Expected ')'");
+      return collapseOneOf(node);
+    }
+    return createClauseNode(this.parseValue(field));
+  }
+
+  private parseValueOr(field: string): FilterASTNode {
+    const children = [this.parseValueAnd(field)];
+    while (this.peek().type === 'or') {
+      this.advance();
+      children.push(this.parseValueAnd(field));
+    }
+    return combine('OR', children);
+  }
+
+  private parseValueAnd(field: string): FilterASTNode {
+    const children = [this.parseValueNot(field)];
+    while (this.peek().type === 'and') {
+      this.advance();
+      children.push(this.parseValueNot(field));
+    }
+    return combine('AND', children);
+  }
+
+  private parseValueNot(field: string): FilterASTNode {
+    const token = this.peek();
+    if (token.type === 'not') {
+      this.advance();
+      return negateNode(this.parseValueNot(field));
+    }
+    if (token.type === 'lparen') {
+      this.advance();
+      const node = this.parseValueOr(field);
+      this.expect('rparen', "Expected ')'");
+      return node;
+    }
+    return createClauseNode(this.parseValue(field));
+  }
+
+  private parseValue(field: string): FilterClause {
+    const token = this.peek();
+
+    if (token.type === 'quoted') {
+      this.advance();
+      return { id: generateId(), field, operator: 'is', value: token.value };
+    }
+
+    if (token.type === 'word') {
+      this.advance();
+      if (token.value === '*') {
+        return { id: generateId(), field, operator: 'exists' };
+      }
+      if (token.hasWildcard) {
+        return { id: generateId(), field, operator: 'wildcard', value: token.value };
+      }
+      return { id: generateId(), field, operator: 'is', value: token.value };
+    }
+
+    throw new KqlSyntaxError(`Expected a value for '${field}'`, token.position);
+  }
+
+  private parseRange(field: string, opToken: KqlToken): FilterASTNode {
+    const valueToken = this.peek();
+    if (valueToken.type !== 'word' && valueToken.type !== 'quoted') {
+      throw new KqlSyntaxError(`Expected a value after '${opToken.value}'`, valueToken.position);
+    }
+    if (valueToken.type === 'word' && valueToken.hasWildcard) {
+      throw new KqlSyntaxError('Wildcards are not allowed in range values', valueToken.position);
+    }
+    this.advance();
+
+    const { bound, op } = RANGE_OPERATORS[opToken.value];
+    const clause: FilterClause = { id: generateId(), field, operator: 'range' };
+    if (bound === 'min') {
+      clause.minValue = valueToken.value;
+      clause.minOperator = op;
+    } else {
+      clause.maxValue = valueToken.value;
+      clause.maxOperator = op;
+    }
+    return createClauseNode(clause);
+  }
+
+  // --------------------------------------------------------------------------
+  // Token helpers
+  // --------------------------------------------------------------------------
+
+  private peek(): KqlToken {
+    return this.tokens[this.index];
+  }
+
+  private advance(): KqlToken {
+    return this.tokens[this.index++];
+  }
+
+  private expect(type: KqlTokenType, message: string): KqlToken {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw new KqlSyntaxError(message, token.position);
+    }
+    return this.advance();
+  }
+}
+
+// ============================================================================
+// AST Helpers
+// ============================================================================
+
+/**
+ * Builds a group, flattening children that already use the same operator
+ */
+function combine(operator: LogicalOperator, children: FilterASTNode[]): FilterASTNode {
+  if (children.length === 1) {
+    return children[0];
+  }
+
+  const flattened: FilterASTNode[] = [];
+  children.forEach(child => {
+    if (child.type === 'group' && child.operator === operator) {
+      flattened.push(...(child.children as FilterASTNode[]));
+    } else {
+      flattened.push(child);
+    }
+  });
+
+  return createGroupNode(operator, flattened) as FilterASTNode;
+}
+
+/**
+ * Turns field:(a or b or c) into a single is_one_of clause
+ */
+function collapseOneOf(node: FilterASTNode): FilterASTNode {
+  if (node.type !== 'group' || node.operator !== 'OR') {
+    return node;
+  }
+
+  const children = node.children as FilterASTNode[];
+  const allPlainValues = children.every(child => child.type === 'clause' && child.clause.operator === 'is');
+  if (!allPlainValues) {
+    return node;
+  }
+
+  const first = (children[0] as { clause: FilterClause }).clause;
+  return createClauseNode({
+    id: generateId(),
+    field: first.field,
+    operator: 'is_one_of',
+    values: children.map(child => (child as { clause: FilterClause }).clause.value)
+  });
+}
+
+/**
+ * Bare value without a field: query string across all fields
+ */
+function freeTextClause(token: KqlToken): FilterClause {
+  const query = token.type === 'quoted' ? `"${token.value}"` : token.value;
+  return { id: generateId(), field: '*', operator: 'query_string', value: query };
+}
+
+/**
+ * Applies NOT to a node by pushing it down to the clauses (De Morgan)
+ */
+function negateNode(node: FilterASTNode): FilterASTNode {
+  if (node.type === 'group') {
+    const flipped: LogicalOperator = node.operator === 'AND' ? 'OR' : 'AND';
+    return combine(flipped, (node.children as FilterASTNode[]).map(negateNode));
+  }
+  return negateClause(node.clause);
+}
+
+/**
+ * Returns the logical inverse of a single clause
+ */
+function negateClause(clause: FilterClause): FilterASTNode {
+  const base = { id: generateId(), field: clause.field };
+
+  switch (clause.operator) {
+    case 'is':
+      return createClauseNode({ ...base, operator: 'is_not', value: clause.value });
+    case 'is_not':
+      return createClauseNode({ ...base, operator: 'is', value: clause.value });
+    case 'is_one_of':
+      return createClauseNode({ ...base, operator: 'is_not_one_of', values: clause.values });
+    case 'is_not_one_of':
+      return createClauseNode({ ...base, operator: 'is_one_of', values: clause.values });
+    case 'exists':
+      return createClauseNode({ ...base, operator: 'does_not_exist' });
+    case 'does_not_exist':
+      return createClauseNode({ ...base, operator: 'exists' });
+    case 'range':
+      return negateRange(clause);
+    case 'prefix':
+      return createClauseNode({ ...base, operator: 'query_string', value: `NOT ${clause.value}*` });
+    case 'wildcard':
+      return createClauseNode({ ...base, operator: 'query_string', value: `NOT ${clause.value}` });
+    case 'query_string':
+    default:
+      return createClauseNode({ ...base, operator: 'query_string', value: `NOT (${clause.value})` });
+  }
+}
+
+const INVERTED_RANGE: { [key: string]: { bound: 'min' | 'max'; op: string } } = {
+  gt: { bound: 'max', op: 'lte' },
+  gte: { bound: 'max', op: 'lt' },
+  lt: { bound: 'min', op: 'gte' },
+  lte: { bound: 'min', op: 'gt' }
+};
+
+/**
+ * NOT (min..max) becomes (< min) OR (> max)
+ */
+function negateRange(clause: FilterClause): FilterASTNode {
+  const parts: FilterASTNode[] = [];
+
+  const invert = (value: any, operator: string) => {
+    const { bound, op } = INVERTED_RANGE[operator];
+    const inverted: FilterClause = { id: generateId(), field: clause.field, operator: 'range' };
+    if (bound === 'min') {
+      inverted.minValue = value;
+      inverted.minOperator = op;
+    } else {
+      inverted.maxValue = value;
+      inverted.maxOperator = op;
+    }
+    parts.push(createClauseNode(inverted));
+  };
+
+  if (clause.minValue !== undefined && clause.minValue !== '') {
+    invert(clause.minValue, clause.minOperator || 'gte');
+  }
+  if (clause.maxValue !== undefined && clause.maxValue !== '') {
+    invert(clause.maxValue, clause.maxOperator || 'lte');
+  }
+
+  return parts.length > 0 ? combine('OR', parts) : createClauseNode(clause);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parses a KQL string into a filter AST
+ *
+ * @returns The AST, or null for an empty query
+ * @throws KqlSyntaxError with the offending character position
+ */
+export function parseKql(input: string): FilterASTNode | null {
+  return new KqlParser(tokenizeKql(input)).parse();
+}
@@ -0,0 +1,49 @@
+import { validateQueryDsl } from './query-dsl-schema';
+
+describe('Query DSL Schema', () => {
+  it('should accept compound, nested and geo queries', () => {
+    const result = validateQueryDsl(JSON.stringify({
+      bool: {
+        must: [
+          { nested: { path: 'events', query: { term: { 'events.type': 'login' } } } },
+          { geo_distance: { distance: '10km', 'siem_sourceip_geoip.location': { lat: 48.8, lon: 2.3 } } }
+        ],
+        must_not: { exists: { field: 'tags' } }
+      }
+    }));
+
+    expect(result.errors).toEqual([]);
+    expect(result.query.bool.must.length).toBe(2);
+  });
+
+  it('should report syntax errors with line and column', () => {
+    const result = validateQueryDsl('{\n  "term": {\n    "verb": "GET",\n  }\n}');
+
+    expect(result.query).toBeNull();
+    expect(result.errors.length).toBe(1);
+    expect(result.errors[0].line).toBe(4);
+    expect(result.errors[0].column).toBe(3);
+  });
+
+  it('should point schema errors at the offending key', () => {
+    const result = validateQueryDsl('{\n  "bool": {\n    "must": [{ "trm": { "verb": "GET" } }],\n    "shuold": []\n  }\n}');
+    const messages = result.errors.map(e => e.message);
+
+    expect(messages).toContain('Unknown query type "trm"');
+    expect(messages).toContain('Unknown property "shuold" in "bool"');
+    expect(result.errors.find(e => e.message.includes('shuold'))?.line).toBe(4);
+  });
+
+  it('should check required properties and single-field queries', () => {
+    const messages = validateQueryDsl('{"nested": {"query": {"match_all": {}}}}').errors.map(e => e.message);
+    expect(messages).toEqual(['"nested" requires "path"']);
+
+    const range = validateQueryDsl('{"range": {"bytes": {"gte": 1}, "status": {"lt": 500}}}');
+    expect(range.errors[0].message).toContain('single field');
+  });
+
+  it('should explain an outer "query" key', () => {
+    const result = validateQueryDsl('{"query": {"match_all": {}}}');
+    expect(result.errors[0].message).toContain('Remove the outer "query" key');
+  });
+});
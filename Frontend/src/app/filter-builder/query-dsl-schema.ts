@@ -0,0 +1,498 @@
+/**
+ * Query DSL Schema
+ * Validation of raw Elasticsearch Query DSL for custom filter clauses
+ *
+ * The JSON is parsed with its own parser so every error can point at a line
+ * and column of the editor:
+ * - Syntax errors (unexpected character, unterminated string, ...)
+ * - Unknown query types, or more than one type in a clause
+ * - Unknown / missing / mistyped properties of a query type
+ * - Field queries (term, range, geo_distance, ...) on more than one field
+ *
+ * Only the structure is checked; field names and values are left to
+ * Elasticsearch.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DslValidationError {
+  message: string;
+  path: string; // JSON pointer of the offending value, e.g. /bool/must/0
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface DslValidationResult {
+  query: any | null; // Parsed query when there are no errors
+  errors: DslValidationError[];
+}
+
+/**
+ * Expected value of a query property
+ * - query: a single query clause
+ * - queries: a query clause or an array of them
+ * - queryArray: an array of query clauses
+ * - scalar: a string or a number
+ * - script: an inline script string or a script object
+ */
+type PropertyKind =
+  | 'query'
+  | 'queries'
+  | 'queryArray'
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'scalar'
+  | 'array'
+  | 'object'
+  | 'script'
+  | 'any';
+
+interface QueryTypeSchema {
+  properties: { [name: string]: PropertyKind };
+  required?: string[];
+  /** Keys outside `properties` are field names; exactly one is expected */
+  fieldKeyed?: boolean;
+  /** Expected value under the field name */
+  fieldValue?: PropertyKind;
+  /** Options vary too much to list (query_string, ...): only check required */
+  openProperties?: boolean;
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const COMMON: { [name: string]: PropertyKind } = { boost: 'number', _name: 'string' };
+
+const FIELD_QUERY: QueryTypeSchema = { properties: { ...COMMON }, fieldKeyed: true, fieldValue: 'any' };
+
+export const QUERY_DSL_SCHEMA: { [type: string]: QueryTypeSchema } = {
+  // Compound queries
+  bool: {
+    properties: {
+      must: 'queries', filter: 'queries', should: 'queries', must_not: 'queries',
+      minimum_should_match: 'scalar', ...COMMON
+    }
+  },
+  constant_score: { properties: { filter: 'query', ...COMMON }, required: ['filter'] },
+  dis_max: { properties: { queries: 'queryArray', tie_breaker: 'number', ...COMMON }, required: ['queries'] },
+  boosting: {
+    properties: { positive: 'query', negative: 'query', negative_boost: 'number', ...COMMON },
+    required: ['positive', 'negative', 'negative_boost']
+  },
+  function_score: {
+    properties: {
+      query: 'query', functions: 'array', score_mode: 'string', boost_mode: 'string',
+      max_boost: 'number', min_score: 'number', weight: 'number',
+      script_score: 'object', random_score: 'object', field_value_factor: 'object',
+      gauss: 'object', linear: 'object', exp: 'object', ...COMMON
+    }
+  },
+  script_score: {
+    properties: { query: 'query', script: 'script', min_score: 'number', ...COMMON },
+    required: ['query', 'script']
+  },
+
+  // Joining queries
+  nested: {
+    properties: {
+      path: 'string', query: 'query', score_mode: 'string', ignore_unmapped: 'boolean',
+      inner_hits: 'object', ...COMMON
+    },
+    required: ['path', 'query']
+  },
+  has_child: {
+    properties: {
+      type: 'string', query: 'query', score_mode: 'string', min_children: 'number',
+      max_children: 'number', ignore_unmapped: 'boolean', inner_hits: 'object', ...COMMON
+    },
+    required: ['type', 'query']
+  },
+  has_parent: {
+    properties: {
+      parent_type: 'string', query: 'query', score: 'boolean', ignore_unmapped: 'boolean',
+      inner_hits: 'object', ...COMMON
+    },
+    required: ['parent_type', 'query']
+  },
+
+  // Term-level and full-text queries without a field key
+  match_all: { properties: { ...COMMON } },
+  match_none: { properties: { _name: 'string' } },
+  exists: { properties: { field: 'string', ...COMMON }, required: ['field'] },
+  ids: { properties: { values: 'array', ...COMMON }, required: ['values'] },
+  script: { properties: { script: 'script', ...COMMON }, required: ['script'] },
+  query_string: { properties: { query: 'string' }, required: ['query'], openProperties: true },
+  simple_query_string: { properties: { query: 'string' }, required: ['query'], openProperties: true },
+  multi_match: { properties: { query: 'scalar', fields: 'array' }, required: ['query'], openProperties: true },
+
+  // Queries on a single field
+  term: FIELD_QUERY,
+  terms: FIELD_QUERY,
+  terms_set: { ...FIELD_QUERY, fieldValue: 'object' },
+  match: FIELD_QUERY,
+  match_phrase: FIELD_QUERY,
+  match_phrase_prefix: FIELD_QUERY,
+  match_bool_prefix: FIELD_QUERY,
+  prefix: FIELD_QUERY,
+  wildcard: FIELD_QUERY,
+  regexp: FIELD_QUERY,
+  fuzzy: FIELD_QUERY,
+  range: { ...FIELD_QUERY, fieldValue: 'object' },
+
+  // Geo queries
+  geo_distance: {
+    properties: {
+      distance: 'scalar', distance_type: 'string', validation_method: 'string',
+      ignore_unmapped: 'boolean', ...COMMON
+    },
+    required: ['distance'],
+    fieldKeyed: true,
+    fieldValue: 'any'
+  },
+  geo_bounding_box: {
+    properties: { validation_method: 'string', ignore_unmapped: 'boolean', type: 'string', ...COMMON },
+    fieldKeyed: true,
+    fieldValue: 'object'
+  },
+  geo_polygon: {
+    properties: { validation_method: 'string', ignore_unmapped: 'boolean', ...COMMON },
+    fieldKeyed: true,
+    fieldValue: 'object'
+  },
+  geo_shape: {
+    properties: { ignore_unmapped: 'boolean', ...COMMON },
+    fieldKeyed: true,
+    fieldValue: 'object'
+  }
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Parses and validates a single Query DSL clause, e.g. {"nested": {...}}
+ */
+export function validateQueryDsl(text: string): DslValidationResult {
+  if (!text || !text.trim()) {
+    return { query: null, errors: [{ message: 'Enter a Query DSL clause', path: '', line: 1, column: 1 }] };
+  }
+
+  const parser = new JsonSourceParser(text);
+  let value: any;
+  try {
+    value = parser.parse();
+  } catch (error) {
+    if (error instanceof JsonSyntaxError) {
+      const { line, column } = toLineColumn(text, error.position);
+      return { query: null, errors: [{ message: error.message, path: '', line, column }] };
+    }
+    throw error;
+  }
+
+  const issues: { message: string; path: string }[] = [];
+  validateQuery(value, '', issues);
+
+  const errors = issues.map(issue => ({
+    ...issue,
+    ...toLineColumn(text, parser.positions.get(issue.path) ?? 0)
+  }));
+  return { query: errors.length === 0 ? value : null, errors };
+}
+
+function validateQuery(value: any, path: string, issues: { message: string; path: string }[]): void {
+  if (!isPlainObject(value)) {
+    issues.push({ message: 'A query clause must be an object like {"term": {...}}', path });
+    return;
+  }
+
+  const types = Object.keys(value);
+  if (types.length !== 1) {
+    issues.push({
+      message: types.length === 0
+        ? 'Empty query clause'
+        : `A query clause has exactly one type, found ${types.map(t => `"${t}"`).join(', ')}`,
+      path
+    });
+    return;
+  }
+
+  const type = types[0];
+  const typePath = `${path}/${escapePointer(type)}`;
+  const schema = QUERY_DSL_SCHEMA[type];
+  if (!schema) {
+    issues.push({
+      message: type === 'query'
+        ? 'Remove the outer "query" key: a filter holds a single clause'
+        : `Unknown query type "${type}"`,
+      path: typePath
+    });
+    return;
+  }
+
+  const body = value[type];
+  if (!isPlainObject(body)) {
+    issues.push({ message: `"${type}" expects an object`, path: typePath });
+    return;
+  }
+
+  validateQueryBody(type, schema, body, typePath, issues);
+}
+
+function validateQueryBody(
+  type: string,
+  schema: QueryTypeSchema,
+  body: any,
+  path: string,
+  issues: { message: string; path: string }[]
+): void {
+  const fields: string[] = [];
+
+  Object.keys(body).forEach(key => {
+    const keyPath = `${path}/${escapePointer(key)}`;
+    const kind = schema.properties[key];
+
+    if (kind) {
+      validateProperty(`${type}.${key}`, kind, body[key], keyPath, issues);
+    } else if (schema.fieldKeyed) {
+      fields.push(key);
+      validateProperty(`${type}.${key}`, schema.fieldValue || 'any', body[key], keyPath, issues);
+    } else if (!schema.openProperties) {
+      issues.push({ message: `Unknown property "${key}" in "${type}"`, path: keyPath });
+    }
+  });
+
+  (schema.required || [])
+    .filter(name => body[name] === undefined)
+    .forEach(name => issues.push({ message: `"${type}" requires "${name}"`, path }));
+
+  if (schema.fieldKeyed && fields.length !== 1) {
+    issues.push({
+      message: fields.length === 0
+        ? `"${type}" needs a field, e.g. {"${type}": {"field_name": ...}}`
+        : `"${type}" works on a single field, found ${fields.map(f => `"${f}"`).join(', ')}`,
+      path
+    });
+  }
+}
+
+function validateProperty(
+  name: string,
+  kind: PropertyKind,
+  value: any,
+  path: string,
+  issues: { message: string; path: string }[]
+): void {
+  switch (kind) {
+    case 'query':
+      validateQuery(value, path, issues);
+      return;
+    case 'queries':
+      if (Array.isArray(value)) {
+        value.forEach((item, i) => validateQuery(item, `${path}/${i}`, issues));
+      } else {
+        validateQuery(value, path, issues);
+      }
+      return;
+    case 'queryArray':
+      if (!Array.isArray(value)) {
+        issues.push({ message: `"${name}" expects an array of queries`, path });
+        return;
+      }
+      value.forEach((item, i) => validateQuery(item, `${path}/${i}`, issues));
+      return;
+    case 'any':
+      return;
+  }
+
+  if (!matchesKind(kind, value)) {
+    issues.push({ message: `"${name}" expects ${describeKind(kind)}`, path });
+  }
+}
+
+function matchesKind(kind: PropertyKind, value: any): boolean {
+  switch (kind) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number';
+    case 'boolean': return typeof value === 'boolean';
+    case 'scalar': return typeof value === 'string' || typeof value === 'number';
+    case 'array': return Array.isArray(value);
+    case 'object': return isPlainObject(value);
+    case 'script': return typeof value === 'string' || isPlainObject(value);
+    default: return true;
+  }
+}
+
+function describeKind(kind: PropertyKind): string {
+  switch (kind) {
+    case 'scalar': return 'a string or a number';
+    case 'array': return 'an array';
+    case 'object': return 'an object';
+    case 'script': return 'a script string or object';
+    default: return `a ${kind}`;
+  }
+}
+
+function isPlainObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Converts a character offset to a 1-based line and column
+ */
+function toLineColumn(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+// ============================================================================
+// JSON Parser (with source positions)
+// ============================================================================
+
+/**
+ * Syntax error with the character offset where parsing failed
+ */
+export class JsonSyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'JsonSyntaxError';
+  }
+}
+
+/**
+ * Recursive-descent JSON parser recording where every value starts
+ * (object members point at their key), keyed by JSON pointer
+ */
+class JsonSourceParser {
+  readonly positions = new Map<string, number>();
+  private index = 0;
+
+  constructor(private readonly input: string) {}
+
+  parse(): any {
+    const value = this.readValue('');
+    this.skipWhitespace();
+    if (this.index < this.input.length) {
+      throw new JsonSyntaxError(`Unexpected '${this.input[this.index]}' after the query`, this.index);
+    }
+    return value;
+  }
+
+  private readValue(path: string): any {
+    this.skipWhitespace();
+    if (!this.positions.has(path)) {
+      this.positions.set(path, this.index);
+    }
+
+    const char = this.input[this.index];
+    switch (char) {
+      case '{': return this.readObject(path);
+      case '[': return this.readArray(path);
+      case '"': return this.readString();
+      case 't': return this.readLiteral('true', true);
+      case 'f': return this.readLiteral('false', false);
+      case 'n': return this.readLiteral('null', null);
+      case undefined: throw new JsonSyntaxError('Unexpected end of input', this.index);
+      default:
+        if (char === '-' || (char >= '0' && char <= '9')) {
+          return this.readNumber();
+        }
+        throw new JsonSyntaxError(`Unexpected '${char}'`, this.index);
+    }
+  }
+
+  private readObject(path: string): { [key: string]: any } {
+    const result: { [key: string]: any } = {};
+    this.index++; // {
+    this.skipWhitespace();
+    if (this.input[this.index] === '}') {
+      this.index++;
+      return result;
+    }
+
+    while (true) {
+      this.skipWhitespace();
+      const keyStart = this.index;
+      if (this.input[this.index] !== '"') {
+        throw new JsonSyntaxError('Expected a quoted property name', this.index);
+      }
+      const key = this.readString();
+      const keyPath = `${path}/${escapePointer(key)}`;
+      if (Object.prototype.hasOwnProperty.call(result, key)) {
+        throw new JsonSyntaxError(`Duplicate property "${key}"`, keyStart);
+      }
+      this.positions.set(keyPath, keyStart);
+
+      this.skipWhitespace();
+      if (this.input[this.index] !== ':') {
+        throw new JsonSyntaxError(`Expected ':' after "${key}"`, this.index);
+      }
+      this.index++;
+      result[key] = this.readValue(keyPath);
+
+      this.skipWhitespace();
+      const char = this.input[this.index++];
+      if (char === '}') return result;
+      if (char !== ',') throw new JsonSyntaxError("Expected ',' or '}'", this.index - 1);
+    }
+  }
+
+  private readArray(path: string): any[] {
+    const items: any[] = [];
+    this.index++; // [
+    this.skipWhitespace();
+    if (this.input[this.index] === ']') {
+      this.index++;
+      return items;
+    }
+
+    while (true) {
+      items.push(this.readValue(`${path}/${items.length}`));
+      this.skipWhitespace();
+      const char = this.input[this.index++];
+      if (char === ']') return items;
+      if (char !== ',') throw new JsonSyntaxError("Expected ',' or ']'", this.index - 1);
+    }
+  }
+
+  private readString(): string {
+    const start = this.index;
+    const match = /^"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/.exec(this.input.slice(start));
+    if (!match) {
+      throw new JsonSyntaxError('Unterminated or invalid string', start);
+    }
+    this.index += match[0].length;
+    return JSON.parse(match[0]);
+  }
+
+  private readNumber(): number {
+    const match = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/.exec(this.input.slice(this.index));
+    if (!match) {
+      throw new JsonSyntaxError('Invalid number', this.index);
+    }
+    this.index += match[0].length;
+    return Number(match[0]);
+  }
+
+  private readLiteral(text: string, value: any): any {
+    if (!this.input.startsWith(text, this.index)) {
+      throw new JsonSyntaxError(`Unexpected '${this.input[this.index]}'`, this.index);
+    }
+    this.index += text.length;
+    return value;
+  }
+
+  private skipWhitespace(): void {
+    while (this.index < this.input.length && ' \t\n\r'.includes(this.input[this.index])) {
+      this.index++;
+    }
+  }
+}
@@ -37,7 +37,7 @@ describe('FilterGroupManagerComponent', () => {
       expect(component.groups[0].type).toBe('OR');
     });
 
-    it('should not create group with non-contiguous filters', () => {
+    it('should move non-contiguous filters together before grouping them', () => {
       component.filters = [
         { field: 'A', operator: 'is', value: '1' },
         { field: 'B', operator: 'is', value: '2' },
@@ -45,10 +45,25 @@ describe('FilterGroupManagerComponent', () => {
       ];
       component.selectedIndices = [0, 2]; // Non-contiguous
       
-      spyOn(console, 'warn');
       component.createGroupFromSelection('OR');
 
-      expect(console.warn).toHaveBeenCalledWith('Cannot create group with non-contiguous filters');
+      expect(component.filters.map(f => f.field)).toEqual(['A', 'C', 'B']);
+      expect(component.groups[0].filterIndices).toEqual([0, 1]);
+      expect(component.filters[1].groupMeta?.isGroupEnd).toBe(true);
+    });
+
+    it('should keep groups consistent when a pill is dropped inside a group', () => {
+      component.filters = [
+        { field: 'A', operator: 'is', value: '1' },
+        { field: 'B', operator: 'is', value: '2' },
+        { field: 'C', operator: 'is', value: '3' }
+      ];
+      component.groups = [{ id: 'g1', type: 'OR', filterIndices: [1, 2] }];
+
+      component.onFilterDropped({ previousIndex: 0, currentIndex: 1 } as any);
+
+      expect(component.filters.map(f => f.field)).toEqual(['B', 'A', 'C']);
+      expect(component.groups[0].filterIndices).toEqual([0, 1, 2]);
     });
 
     it('should remove group and clear filter metadata', () => {
@@ -183,6 +198,40 @@ describe('FilterGroupManagerComponent', () => {
     });
   });
 
+  describe('Undo / Redo', () => {
+    it('should undo and redo a change with a readable label', () => {
+      component.filters = [
+        { field: 'host.name', operator: 'is', value: 'web01' },
+        { field: 'B', operator: 'is', value: '2' }
+      ];
+
+      component.toggleDisabled(0);
+      expect(component.history.undoLabel).toBe('disabled host.name: web01');
+
+      component.undo();
+      expect(component.filters[0].disabled).toBeFalsy();
+      expect(component.history.canRedo).toBe(true);
+
+      component.redo();
+      expect(component.filters[0].disabled).toBe(true);
+    });
+
+    it('should undo a group created from a non-contiguous selection', () => {
+      component.filters = [
+        { field: 'A', operator: 'is', value: '1' },
+        { field: 'B', operator: 'is', value: '2' },
+        { field: 'C', operator: 'is', value: '3' }
+      ];
+      component.selectedIndices = [0, 2];
+      component.createGroupFromSelection('OR');
+
+      component.onKeydown(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true }));
+
+      expect(component.filters.map(f => f.field)).toEqual(['A', 'B', 'C']);
+      expect(component.groups).toEqual([]);
+    });
+  });
+
   describe('Group Status Helpers', () => {
     it('should correctly identify filters in groups', () => {
       component.filters = [
@@ -1,6 +1,14 @@
-import { Component, Input, Output, EventEmitter, OnInit, OnChanges, SimpleChanges } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnInit, OnChanges, SimpleChanges, HostListener } from '@angular/core';
+import { CdkDragDrop } from '@angular/cdk/drag-drop';
 import { GroupedFilter, FilterGroupDefinition, FilterSeparator, FilterGroupState } from '../filter.model';
 import { FilterRow, FilterField, FilterBuilderOutput } from '../filter-builder/filter-builder.model';
+import {
+  isPinnedFilter, setFilterPinned, isFilterNegated, formatFilterText, setAllFiltersDisabled, invertAllFilters,
+  groupFilters, moveFilter, ungroupLevel, applyGroupMetadata, getGroupDepth, removeFilterAt
+} from '../utils/kibana-filter-utils';
+import { UndoHistory, getUndoShortcut, isTextInputTarget } from '../utils/undo-history';
+
+type FilterSnapshot = Pick<FilterGroupState, 'filters' | 'groups'>;
 
 /**
  * Filter Group Manager Component
@@ -10,6 +18,9 @@ import { FilterRow, FilterField, FilterBuilderOutput } from '../filter-builder/f
  * - Implicit grouping (top-level AND by default)
  * - UI separators between filter pills
  * - Click-order dependent grouping behavior
+ * - Nested groups: (A AND (B OR C)) OR D
+ * - Drag to reorder; grouping non-adjacent filters moves them together
+ * - Undo / redo (Ctrl+Z / Ctrl+Shift+Z)
  */
 @Component({
   selector: 'app-filter-group-manager',
@@ -41,6 +52,10 @@ export class FilterGroupManagerComponent implements OnInit, OnChanges {
   showFilterBuilder: boolean = false;
   filterBuilderRows: FilterRow[] = [];
 
+  // Undo / redo; the state last set here tells parent echoes from outside changes
+  readonly history = new UndoHistory<FilterSnapshot>();
+  private expectedState: string | null = null;
+
   constructor() {}
 
   ngOnInit(): void {
@@ -49,61 +64,80 @@ export class FilterGroupManagerComponent implements OnInit, OnChanges {
 
   ngOnChanges(changes: SimpleChanges): void {
     if (changes['filters'] || changes['groups']) {
+      // Filters changed outside the manager: earlier entries would drop them
+      if (JSON.stringify(this.snapshot()) !== this.expectedState) {
+        this.history.clear();
+      }
       this.calculateSeparators();
     }
   }
 
+  // ============================================================================
+  // Undo / Redo
+  // ============================================================================
+
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    const action = getUndoShortcut(event);
+    if (!action || event.defaultPrevented || isTextInputTarget(event.target)) {
+      return;
+    }
+
+    event.preventDefault();
+    if (action === 'undo') {
+      this.undo();
+    } else {
+      this.redo();
+    }
+  }
+
+  undo(): void {
+    const entry = this.history.undo();
+    if (entry) {
+      this.restoreState(entry.before);
+    }
+  }
+
+  redo(): void {
+    const entry = this.history.redo();
+    if (entry) {
+      this.restoreState(entry.after);
+    }
+  }
+
   // ============================================================================
   // Group Management
   // ============================================================================
 
   /**
    * Creates a new group from selected filters
-   * This implements Kibana's click-order dependent grouping behavior
+   * This implements Kibana's click-order dependent grouping behavior.
+   * Non-adjacent filters are moved next to the first selected one.
    */
   createGroupFromSelection(type: 'AND' | 'OR'): void {
     if (this.selectedIndices.length < 2) {
       return;
     }
 
-    // Sort indices to ensure proper order
-    const sortedIndices = [...this.selectedIndices].sort((a, b) => a - b);
-    
-    // Check if indices are contiguous
-    const isContiguous = sortedIndices.every((idx, i) => {
-      if (i === 0) return true;
-      return idx === sortedIndices[i - 1] + 1;
-    });
-
-    if (!isContiguous) {
-      console.warn('Cannot create group with non-contiguous filters');
-      return;
-    }
-
     // Generate unique group ID
     const groupId = `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-    // Create new group
-    const newGroup: FilterGroupDefinition = {
-      id: groupId,
-      type,
-      filterIndices: sortedIndices
-    };
-
-    // Remove any existing groups that overlap with these indices
-    const filteredGroups = this.groups.filter(g => {
-      return !sortedIndices.some(idx => g.filterIndices.includes(idx));
-    });
-
-    // Add new group
-    const updatedGroups = [...filteredGroups, newGroup];
+    // Nest the new group inside / around existing groups
+    const result = groupFilters(this.filters, this.groups, this.selectedIndices, type, groupId);
+    if (!result) {
+      console.warn('Cannot create group crossing another group or matching an existing one');
+      return;
+    }
 
-    // Update filter metadata
-    this.updateFilterMetadata(sortedIndices, groupId, type);
+    const before = this.snapshot();
+    this.filters = result.filters;
+    this.groups = result.groups;
+    this.recordChange(`grouped ${this.selectedIndices.length} filters with ${type}`, before);
 
-    // Emit changes
-    this.groupsChanged.emit(updatedGroups);
+    // Emit changes (filters first: they may have been reordered)
     this.emitFilterState();
+    this.groupsChanged.emit(result.groups);
+    this.calculateSeparators();
 
     // Clear selection
     this.selectedIndices = [];
@@ -111,21 +145,19 @@ export class FilterGroupManagerComponent implements OnInit, OnChanges {
   }
 
   /**
-   * Removes a group and ungroups its filters
+   * Removes one level of grouping: the group's filters and sub-groups move
+   * up to its parent group
    */
   removeGroup(groupId: string): void {
     const group = this.groups.find(g => g.id === groupId);
     if (!group) return;
 
-    // Clear metadata for filters in this group
-    group.filterIndices.forEach(idx => {
-      if (this.filters[idx]) {
-        this.filters[idx].groupMeta = undefined;
-      }
-    });
+    const before = this.snapshot();
+    const updatedGroups = ungroupLevel(this.groups, groupId);
+    this.groups = updatedGroups;
+    this.filters = applyGroupMetadata(this.filters, updatedGroups);
+    this.recordChange(`ungrouped ${group.type} group`, before);
 
-    // Remove group
-    const updatedGroups = this.groups.filter(g => g.id !== groupId);
     this.groupsChanged.emit(updatedGroups);
     this.emitFilterState();
     this.calculateSeparators();
@@ -246,12 +278,27 @@ export class FilterGroupManagerComponent implements OnInit, OnChanges {
       };
     }
 
+    // Different levels of a nested group - use the innermost group holding both
+    const commonGroup = this.groups
+      .filter(g => g.filterIndices.includes(index - 1) && g.filterIndices.includes(index))
+      .sort((a, b) => this.getGroupDepth(b) - this.getGroupDepth(a))[0];
+
+    if (commonGroup) {
+      return {
+        position: 'before',
+        index,
+        type: commonGroup.type,
+        isGroupBoundary: true,
+        groupId: commonGroup.id
+      };
+    }
+
     // Different groups or ungrouped - check for group boundary
     const isGroupBoundary = !!(prevGroupId || currGroupId);
 
     // Default to AND for top-level ungrouped filters
-    // Use the filter's logic property if available
-    const separatorType = currFilter.logic || 'AND';
+    // Use the filter's logic property if available (pinned filters are always ANDed)
+    const separatorType = isPinnedFilter(prevFilter) || isPinnedFilter(currFilter) ? 'AND' : (currFilter.logic || 'AND');
 
     return {
       position: 'before',
@@ -319,6 +366,40 @@ export class FilterGroupManagerComponent implements OnInit, OnChanges {
     return this.groups.find(g => g.id === groupId);
   }
 
+  getGroupDepth(group: FilterGroupDefinition): number {
+    return getGroupDepth(this.groups, group);
+  }
+
+  /**
+   * Groups ordered outermost first (for the group visualization bar)
+   */
+  getGroupsByDepth(): FilterGroupDefinition[] {
+    return [...this.groups].sort((a, b) => this.getGroupDepth(a) - this.getGroupDepth(b));
+  }
+
+  /**
+   * Groups opening at a filter, outermost first
+   */
+  getGroupsStartingAt(index: number): FilterGroupDefinition[] {
+    return this.getGroupsByDepth().filter(g => Math.min(...g.filterIndices) === index);
+  }
+
+  /**
+   * Groups closing at a filter, innermost first
+   */
+  getGroupsEndingAt(index: number): FilterGroupDefinition[] {
+    return this.getGroupsByDepth().reverse().filter(g => Math.max(...g.filterIndices) === index);
+  }
+
+  /**
+   * How far a bracket sits from the pill: one step per deeper group around
+   * the same filter, so outer brackets enclose inner ones
+   */
+  getBracketOffset(group: FilterGroupDefinition, index: number): number {
+    const depth = this.getGroupDepth(group);
+    return this.groups.filter(g => g.filterIndices.includes(index) && this.getGroupDepth(g) > depth).length;
+  }
+
   /**
    * Gets the CSS grid column span for a group indicator
    */
@@ -334,39 +415,99 @@ export class FilterGroupManagerComponent implements OnInit, OnChanges {
   // ============================================================================
 
   /**
-   * Removes a filter and updates groups
+   * Removes a filter (the parent shifts the group indices, see removeFilterAt)
    */
   removeFilter(index: number): void {
-    // Check if filter is in a group
-    const groupId = this.filters[index]?.groupMeta?.groupId;
-    
-    if (groupId) {
-      // Update the group to remove this filter
-      const group = this.groups.find(g => g.id === groupId);
-      if (group) {
-        const updatedIndices = group.filterIndices
-          .filter(idx => idx !== index)
-          .map(idx => idx > index ? idx - 1 : idx); // Adjust indices
-
-        if (updatedIndices.length < 2) {
-          // Group has less than 2 filters, remove it
-          this.removeGroup(groupId);
-        } else {
-          // Update group
-          const updatedGroup = { ...group, filterIndices: updatedIndices };
-          const updatedGroups = this.groups.map(g => 
-            g.id === groupId ? updatedGroup : g
-          );
-          this.groupsChanged.emit(updatedGroups);
-        }
-      }
+    if (this.filters[index]) {
+      // Same result as the parent's removal, so the echo keeps the history
+      const after = removeFilterAt(this.filters, this.groups, index);
+      this.recordChange(`removed ${formatFilterText(this.filters[index])}`, this.snapshot(), after);
     }
 
-    // Emit filter removal
     this.filterRemoved.emit(index);
     this.clearSelection();
   }
 
+  isPinned(index: number): boolean {
+    return !!this.filters[index] && isPinnedFilter(this.filters[index]);
+  }
+
+  /**
+   * Pins a filter (global: kept across pages and saved searches) or unpins
+   * it back to the current view. Pinning takes the filter out of its group.
+   */
+  togglePin(index: number): void {
+    if (!this.filters[index]) return;
+
+    const before = this.snapshot();
+    const pin = !this.isPinned(index);
+    const { filters, groups } = setFilterPinned(this.filters, this.groups, index, pin);
+    this.filters = filters;
+    this.groups = groups;
+    this.recordChange(`${pin ? 'pinned' : 'unpinned'} ${formatFilterText(before.filters[index])}`, before);
+
+    this.emitFilterState();
+    this.calculateSeparators();
+    this.clearSelection();
+  }
+
+  isNegated(index: number): boolean {
+    return !!this.filters[index] && isFilterNegated(this.filters[index]);
+  }
+
+  /**
+   * Switches a filter between including and excluding matching documents
+   */
+  toggleNegate(index: number): void {
+    if (!this.filters[index]) return;
+    const label = `${this.isNegated(index) ? 'included' : 'excluded'} ${formatFilterText({ ...this.filters[index], negate: false })}`;
+    this.updateFilters(this.filters.map((filter, i) => i === index ? { ...filter, negate: !filter.negate } : filter), label);
+  }
+
+  /**
+   * Temporarily disables a filter (kept in the bar, left out of the query)
+   */
+  toggleDisabled(index: number): void {
+    if (!this.filters[index]) return;
+    const label = `${this.filters[index].disabled ? 'enabled' : 'disabled'} ${formatFilterText(this.filters[index])}`;
+    this.updateFilters(this.filters.map((filter, i) => i === index ? { ...filter, disabled: !filter.disabled } : filter), label);
+  }
+
+  setAllDisabled(disabled: boolean): void {
+    this.updateFilters(setAllFiltersDisabled(this.filters, disabled), disabled ? 'disabled all filters' : 'enabled all filters');
+  }
+
+  invertAll(): void {
+    this.updateFilters(invertAllFilters(this.filters), 'inverted all filters');
+  }
+
+  hasEnabledFilters(): boolean {
+    return this.filters.some(filter => !filter.disabled);
+  }
+
+  hasDisabledFilters(): boolean {
+    return this.filters.some(filter => filter.disabled);
+  }
+
+  /**
+   * Moves a dropped pill to its new position (see moveFilter for how it
+   * joins or leaves groups)
+   */
+  onFilterDropped(event: CdkDragDrop<GroupedFilter[]>): void {
+    if (event.previousIndex === event.currentIndex) return;
+
+    const before = this.snapshot();
+    const { filters, groups } = moveFilter(this.filters, this.groups, event.previousIndex, event.currentIndex);
+    this.filters = filters;
+    this.groups = groups;
+    this.recordChange(`moved ${formatFilterText(before.filters[event.previousIndex])}`, before);
+
+    this.emitFilterState();
+    this.groupsChanged.emit(groups);
+    this.calculateSeparators();
+    this.clearSelection();
+  }
+
   /**
    * Handler for remove button click in template
    */
@@ -393,24 +534,38 @@ export class FilterGroupManagerComponent implements OnInit, OnChanges {
   // Private Helpers
   // ============================================================================
 
+  private updateFilters(filters: GroupedFilter[], label: string): void {
+    const before = this.snapshot();
+    this.filters = filters;
+    this.recordChange(label, before);
+    this.emitFilterState();
+  }
+
+  private snapshot(): FilterSnapshot {
+    return { filters: this.filters, groups: this.groups };
+  }
+
   /**
-   * Updates filter metadata for grouped filters
-   */
-  private updateFilterMetadata(
-    indices: number[],
-    groupId: string,
-    groupType: 'AND' | 'OR'
-  ): void {
-    indices.forEach((idx, i) => {
-      if (this.filters[idx]) {
-        this.filters[idx].groupMeta = {
-          groupId,
-          groupType,
-          isGroupStart: i === 0,
-          isGroupEnd: i === indices.length - 1
-        };
-      }
-    });
+   * Records a change made by the manager. Filters and groups are replaced
+   * rather than edited, so snapshots can share them.
+   */
+  private recordChange(label: string, before: FilterSnapshot, after: FilterSnapshot = this.snapshot()): void {
+    this.history.record(label, before, after);
+    this.expectedState = JSON.stringify(after);
+  }
+
+  /**
+   * Applies an undo / redo snapshot and pushes it to the parent
+   */
+  private restoreState(state: FilterSnapshot): void {
+    this.filters = state.filters;
+    this.groups = state.groups;
+    this.expectedState = JSON.stringify(state);
+
+    this.emitFilterState();
+    this.groupsChanged.emit(state.groups);
+    this.calculateSeparators();
+    this.clearSelection();
   }
 
   /**
@@ -431,29 +586,37 @@ export class FilterGroupManagerComponent implements OnInit, OnChanges {
 
   /**
    * Builds a human-readable preview of the grouped filters
+   * (disabled filters are left out, excluded ones are prefixed with NOT)
    */
   buildPreview(): string {
-    if (this.filters.length === 0) {
-      return '';
-    }
+    const enabledIndices = this.filters
+      .map((filter, index) => index)
+      .filter(index => !this.filters[index].disabled);
 
     const parts: string[] = [];
-    
-    this.filters.forEach((filter, index) => {
-      if (index > 0) {
+
+    enabledIndices.forEach((index, position) => {
+      const filter = this.filters[index];
+      if (position > 0) {
         const separator = this.getSeparator(index);
         parts.push(separator?.type || 'AND');
       }
 
-      let filterText = `${filter.field}: ${filter.value || '-'}`;
-      
-      // Add parentheses for group boundaries
-      if (this.isGroupStart(index)) {
-        filterText = '(' + filterText;
-      }
-      if (this.isGroupEnd(index)) {
-        filterText = filterText + ')';
-      }
+      let filterText = formatFilterText(filter);
+
+      // Add parentheses around the enabled filters of each (nested) group
+      this.getGroupsByDepth().forEach(group => {
+        const groupIndices = enabledIndices.filter(idx => group.filterIndices.includes(idx));
+        if (groupIndices.length > 1 && groupIndices[0] === index) {
+          filterText = '(' + filterText;
+        }
+      });
+      this.getGroupsByDepth().reverse().forEach(group => {
+        const groupIndices = enabledIndices.filter(idx => group.filterIndices.includes(idx));
+        if (groupIndices.length > 1 && groupIndices[groupIndices.length - 1] === index) {
+          filterText = filterText + ')';
+        }
+      });
 
       parts.push(filterText);
     });
@@ -470,8 +633,8 @@ export class FilterGroupManagerComponent implements OnInit, OnChanges {
    */
   openFilterBuilder(): void {
     this.showFilterBuilder = true;
-    // Convert existing filters to filter builder rows
-    this.filterBuilderRows = this.convertFiltersToRows(this.filters);
+    // Convert existing app filters to filter builder rows (pinned ones stay as they are)
+    this.filterBuilderRows = this.convertFiltersToRows(this.filters.filter(filter => !isPinnedFilter(filter)));
   }
 
   /**
@@ -492,11 +655,19 @@ export class FilterGroupManagerComponent implements OnInit, OnChanges {
         id: `clause_${index}_${Date.now()}`,
         field: filter.field || '',
         operator: (filter.operator as any) || 'is',
-        value: filter.value,
-        values: Array.isArray(filter.value) ? filter.value : undefined
+        // Custom DSL is edited as JSON text
+        value: filter.operator === 'custom' ? JSON.stringify(filter.value, null, 2) : filter.value,
+        values: Array.isArray(filter.value) ? filter.value : undefined,
+        label: filter.alias
       },
-      logicOperator: index > 0 ? (filter.logic || 'AND') : undefined,
-      level: 0
+      // Inside a group, rows are joined by the group's type
+      logicOperator: index === 0 ? undefined
+        : filter.groupMeta?.groupId && !filter.groupMeta.isGroupStart
+          ? (filter.groupMeta.groupType || 'AND')
+          : (filter.logic || 'AND'),
+      level: filter.groupMeta?.groupId ? 1 : 0,
+      parentGroupId: filter.groupMeta?.groupId,
+      groupPath: filter.groupMeta?.groupId ? [filter.groupMeta.groupId] : undefined
     }));
   }
 
@@ -33,6 +33,16 @@ export interface GroupedFilter extends Filter {
   groupMeta?: FilterGroupMetadata;
   disabled?: boolean;
   negate?: boolean;
+  alias?: string; // Pill label, e.g. for custom DSL filters
+  $state?: { store?: 'appState' | 'globalState' }; // globalState = pinned
+}
+
+/**
+ * Map area of a geo filter (geo_within), drawn on the attack map
+ */
+export interface GeoArea {
+  type: 'rectangle' | 'polygon';
+  points: Array<{ lat: number; lon: number }>; // Rectangle: top-left and bottom-right corners
 }
 
 /**
@@ -55,6 +65,15 @@ export interface FilterGroupState {
   queryDSL?: any;
 }
 
+/**
+ * Index field as returned by /api/elastic/fields?withTypes=true
+ */
+export interface IndexField {
+  name: string;
+  type: string;
+  aggregatable: boolean;
+}
+
 /**
  * UI Separator between filters
  */
@@ -24,7 +24,7 @@ export class HeaderComponent implements OnInit {
   username: any;
   notificationCount = 0;
   assetPath = environment.assetPath;
-  @Input() countData?: number;
+  @Input() countData?: number; // Unread notifications, kept up to date by the bell
   constructor(private router: Router,
     public lazyRouter: ActivatedRoute,
     private loginService: LoginService,
@@ -1,8 +1,18 @@
-import { Component, OnInit, OnDestroy, OnChanges, SimpleChanges, Input, Output, EventEmitter } from '@angular/core';
+import { Component, OnInit, OnDestroy, OnChanges, SimpleChanges, Input, Output, EventEmitter, HostListener } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { environment } from 'src/environments/environment';
 import { FilterGroup } from '../filter.model';
 import { Subscription } from 'rxjs';
+import { UrlStateService, AppUrlState } from '../services/url-state.service';
+import { TimefilterService, TIME_FIELD } from '../services/timefilter.service';
+import { calculateAutoInterval, HistogramInterval } from '../utils/date-math';
+import { HistogramBucket } from '../event-histogram/event-histogram.component';
+import { skip } from 'rxjs/operators';
+import { ColumnLayoutService, ColumnConfig, ColumnLayout, DEFAULT_INDEX_PATTERN } from '../services/column-layout.service';
+import { formatFieldValue, FieldFormatter } from '../utils/field-formatters';
+import { ExportService, ExportFormat, ExportProgress } from '../services/export.service';
+import { buildHighlightRequest, highlightToHtml } from '../utils/highlight-utils';
+import { flattenDocument } from '../utils/document-utils';
 
 interface LogEntry {
   _id?: string;
@@ -12,6 +22,8 @@ interface LogEntry {
     [key: string]: any;
      // Flexible structure to support all field types
   };
+  highlight?: { [field: string]: string[] }; // Tagged matches from Elasticsearch
+  detailFields?: string[]; // Flattened field paths, filled when expanded
 }
 
 @Component({
@@ -30,6 +42,17 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
   pageSize: number = 100;
   loading: boolean = false;
   error: string | null = null;
+
+  // Cursor paging: pages are jumpable up to max_result_window, deeper hits
+  // come from "load more" (search_after on the same point in time)
+  readonly maxResultWindow: number = 10000;
+  loadingMore: boolean = false;
+  private pitId: string | null = null;
+  private searchAfter: any[] | null = null;
+
+  // Hits-over-time histogram (returned with the hits)
+  histogramBuckets: HistogramBucket[] = [];
+  histogramInterval: HistogramInterval | null = null;
   
   
 
@@ -131,32 +154,111 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
 
   sortField: string = '@timestamp';
   sortOrder: 'asc' | 'desc' = 'desc';
+
+  // Column widths / formatters (order comes from selectedFields)
+  columnSettings: { [field: string]: { width?: number; formatter?: FieldFormatter } } = {};
+  readonly indexPattern: string = DEFAULT_INDEX_PATTERN;
+  activeLayoutName: string | null = null;
+  showColumnManager: boolean = false;
+
+  private resizeState: { field: string; startX: number; startWidth: number } | null = null;
+
+  // Full result export
+  showExportMenu: boolean = false;
+  exportProgress: ExportProgress | null = null;
+  exportError: string | null = null;
+  private exportSubscription?: Subscription;
+
+  // Defaults are left out of the URL to keep links short
+  private readonly defaultFields: string[] = [...this.selectedFields];
+  private readonly defaultSortField: string = this.sortField;
+  private readonly defaultSortOrder: 'asc' | 'desc' = this.sortOrder;
+  private readonly defaultPageSize: number = this.pageSize;
   
   private searchSubscription?: Subscription;
+  private urlStateSubscription?: Subscription;
+  private timeSubscription?: Subscription;
 
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    private urlState: UrlStateService,
+    private timefilter: TimefilterService,
+    private columnLayoutService: ColumnLayoutService,
+    private exportService: ExportService
+  ) {}
 
   ngOnInit(): void {
+    const appState = this.urlState.getAppState();
+    this.applyUrlState(appState);
     this.loadData();
+
+    // Columns in the URL win over the user's default layout
+    if (!appState.columns) {
+      this.applyDefaultLayout();
+    }
+
+    // Back/forward restores sort, paging and columns
+    this.urlStateSubscription = this.urlState.appStateChanged.subscribe(state => {
+      this.applyUrlState(state);
+      this.loadData();
+    });
+
+    // A new time range starts from the first page
+    this.timeSubscription = this.timefilter.timeRangeChanged.pipe(skip(1)).subscribe(() => {
+      this.currentPage = 0;
+      this.syncTableStateToUrl();
+      this.loadData();
+    });
   }
 
   ngOnDestroy(): void {
     if (this.searchSubscription) {
       this.searchSubscription.unsubscribe();
     }
+    // Nothing reuses the point in time once the table is gone
+    if (this.pitId) {
+      this.http.delete(environment.closePit, { body: { pitId: this.pitId } }).subscribe(
+        () => {},
+        (error) => console.warn('Failed to close point in time:', error)
+      );
+      this.pitId = null;
+    }
+    if (this.urlStateSubscription) {
+      this.urlStateSubscription.unsubscribe();
+    }
+    if (this.timeSubscription) {
+      this.timeSubscription.unsubscribe();
+    }
+    if (this.exportSubscription) {
+      this.exportSubscription.unsubscribe();
+    }
   }
 
-  ngOnChanges(): void {
-    if (this.filters) {
-      this.currentPage = 0;
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['filters'] && !changes['filters'].firstChange) {
+      // The dashboard drops the page from the URL when filters change
+      this.currentPage = this.urlState.getAppState().page || 0;
       this.loadData();
     }
   }
 
-  loadData(): void {
+  /**
+   * Loads the current page. A new search opens a new point in time; page
+   * changes (keepPit) stay on the previous one so results do not shift.
+   */
+  loadData(options: { keepPit?: boolean } = {}): void {
     this.loading = true;
+    this.loadingMore = false;
     this.error = null;
 
+    if (this.searchSubscription) {
+      this.searchSubscription.unsubscribe();
+    }
+
+    // Pages past max_result_window can't be reached with from/size
+    this.currentPage = Math.min(this.currentPage, Math.max(this.getMaxJumpPages() - 1, 0));
+    const keepPit = !!options.keepPit && !!this.pitId;
+
     const payload: any = {
       page: this.currentPage,
       size: this.pageSize,
@@ -164,11 +266,18 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
       sortOrder: this.sortOrder
     };
 
-    // Add Query DSL if filters are provided
-    if (this.filters && this.filters.queryDSL) {
-      payload.queryDSL = this.filters.queryDSL;
+    if (keepPit) {
+      payload.pitId = this.pitId;
+    } else {
+      payload.previousPitId = this.pitId || undefined;
+      // The histogram does not change between pages of the same search
+      payload.aggs = this.buildHistogramAggs();
     }
 
+    // Combine the filters' Query DSL with the global time range
+    payload.queryDSL = this.timefilter.withTimeRange(this.filters?.queryDSL);
+    payload.highlight = buildHighlightRequest(this.filters?.queryDSL);
+
     this.searchSubscription = this.http.post<any>(
       environment.webLogsSearch,
       payload
@@ -176,6 +285,11 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
       (response) => {
         this.logs = response.hits || response.data || [];
         this.totalHits = response.total || 0;
+        this.pitId = response.pitId || null;
+        this.searchAfter = response.searchAfter || null;
+        if (!keepPit) {
+          this.histogramBuckets = response.aggregations?.histogram?.buckets || [];
+        }
         this.loading = false;
         this.dataLoaded.emit({
           logs: this.logs,
@@ -183,6 +297,12 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
         });
       },
       (error) => {
+        // Point in time expired while the user was idle: start a new search
+        if (error.status === 410 && keepPit) {
+          this.pitId = null;
+          this.loadData();
+          return;
+        }
         console.error('Error loading data:', error);
         this.error = error.error?.message || 'Failed to load data';
         this.loading = false;
@@ -191,14 +311,63 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
     );
   }
 
+  /**
+   * Appends the next page after the last loaded hit (search_after)
+   */
+  loadMore(): void {
+    if (!this.pitId || !this.searchAfter || this.loading || this.loadingMore) return;
+    this.loadingMore = true;
+
+    if (this.searchSubscription) {
+      this.searchSubscription.unsubscribe();
+    }
+
+    const payload: any = {
+      size: this.pageSize,
+      sortField: this.sortField,
+      sortOrder: this.sortOrder,
+      pitId: this.pitId,
+      searchAfter: this.searchAfter,
+      queryDSL: this.timefilter.withTimeRange(this.filters?.queryDSL),
+      highlight: buildHighlightRequest(this.filters?.queryDSL)
+    };
+
+    this.searchSubscription = this.http.post<any>(
+      environment.webLogsSearch,
+      payload
+    ).subscribe(
+      (response) => {
+        this.logs = [...this.logs, ...(response.hits || [])];
+        this.pitId = response.pitId || this.pitId;
+        this.searchAfter = response.searchAfter || null;
+        this.loadingMore = false;
+        this.dataLoaded.emit({
+          logs: this.logs,
+          total: this.totalHits
+        });
+      },
+      (error) => {
+        console.error('Error loading more data:', error);
+        this.loadingMore = false;
+        if (error.status === 410) {
+          this.pitId = null;
+          this.searchAfter = null;
+        }
+        this.error = error.error?.message || 'Failed to load more data';
+      }
+    );
+  }
+
   onPageChange(page: number): void {
     this.currentPage = page;
-    this.loadData();
+    this.syncTableStateToUrl();
+    this.loadData({ keepPit: true });
   }
 
   onPageSizeChange(size: number): void {
-    this.pageSize = size;
+    this.pageSize = Number(size);
     this.currentPage = 0;
+    this.syncTableStateToUrl();
     this.loadData();
   }
 
@@ -209,13 +378,64 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
       this.sortField = field;
       this.sortOrder = 'desc';
     }
+    this.syncTableStateToUrl();
     this.loadData();
   }
 
+  /**
+   * Zooms the global time range to the brushed / clicked buckets
+   */
+  onHistogramRangeSelected(range: { from: Date; to: Date }): void {
+    this.timefilter.setTime({ from: range.from.toISOString(), to: range.to.toISOString() });
+  }
+
+  /**
+   * Auto-sized date_histogram over the current time range
+   */
+  private buildHistogramAggs(): any {
+    const bounds = this.timefilter.getBounds();
+    if (!bounds) {
+      this.histogramInterval = null;
+      return undefined;
+    }
+
+    this.histogramInterval = calculateAutoInterval(bounds);
+    return {
+      histogram: {
+        date_histogram: {
+          field: TIME_FIELD,
+          fixed_interval: this.histogramInterval.esInterval,
+          time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          min_doc_count: 0,
+          extended_bounds: { min: bounds.min.getTime(), max: bounds.max.getTime() }
+        }
+      }
+    };
+  }
+
   getTotalPages(): number {
     return Math.ceil(this.totalHits / this.pageSize);
   }
 
+  /**
+   * Pages reachable with "jump to page" (from + size <= max_result_window)
+   */
+  getJumpablePages(): number {
+    return Math.min(this.getTotalPages(), this.getMaxJumpPages());
+  }
+
+  /**
+   * "Load more" takes over on the last jumpable page
+   */
+  canLoadMore(): boolean {
+    const loaded = this.currentPage * this.pageSize + this.logs.length;
+    return !!this.searchAfter && loaded < this.totalHits && this.currentPage >= this.getJumpablePages() - 1;
+  }
+
+  private getMaxJumpPages(): number {
+    return Math.floor(this.maxResultWindow / this.pageSize);
+  }
+
   formatTimestamp(timestamp: string | undefined): string {
     if (!timestamp) return '-';
     try {
@@ -277,11 +497,36 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
     return value;
   }
 
+  /**
+   * Value with the matched terms in <mark>, from the hit's highlight
+   * fragments (a query on `field.keyword` highlights the `field` column)
+   */
+  getHighlightHtml(entry: LogEntry, field: string): string | null {
+    const fragments = entry.highlight?.[field] || entry.highlight?.[`${field}.keyword`];
+    if (!fragments || fragments.length === 0) {
+      return null;
+    }
+    return fragments.map(fragment => highlightToHtml(fragment)).join(', ');
+  }
+
+  /**
+   * Highlighted cell content, unless a formatter changes how the value looks
+   */
+  getCellHighlightHtml(entry: LogEntry, field: string): string | null {
+    const formatter = this.getColumnFormatter(field);
+    return !formatter || formatter === 'default' ? this.getHighlightHtml(entry, field) : null;
+  }
+
   isFieldHighlighted(entry: LogEntry, field: string): boolean {
     if (!this.filters || !this.filters.filters) {
       return false;
     }
 
+    // Server-side highlights mark the matched terms instead of the whole cell
+    if (this.getHighlightHtml(entry, field)) {
+      return false;
+    }
+
     // Check if this field matches any active filter (Kibana-style highlighting)
     return this.filters.filters.some(filter => {
       // Normalize field comparison (handle .keyword suffix)
@@ -351,18 +596,200 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
     const index = this.selectedFields.indexOf(field);
     if (index > -1) {
       this.selectedFields.splice(index, 1);
+      delete this.columnSettings[field];
     } else {
       this.selectedFields.push(field);
     }
+    this.syncTableStateToUrl();
+  }
+
+  // ============================================================================
+  // Columns
+  // ============================================================================
+
+  get columns(): ColumnConfig[] {
+    return this.selectedFields.map(field => ({ field, ...this.columnSettings[field] }));
+  }
+
+  formatCell(entry: LogEntry, field: string): string {
+    return formatFieldValue(this.getFieldValue(entry, field), this.getColumnFormatter(field));
+  }
+
+  getColumnWidth(field: string): number | undefined {
+    return this.columnSettings[field]?.width;
+  }
+
+  getColumnFormatter(field: string): FieldFormatter | undefined {
+    return this.columnSettings[field]?.formatter;
+  }
+
+  onColumnsChanged(columns: ColumnConfig[]): void {
+    this.setColumns(columns);
+    this.syncTableStateToUrl();
+  }
+
+  onLayoutApplied(layout: ColumnLayout): void {
+    this.setColumns(layout.columns);
+    this.activeLayoutName = layout.name;
+    this.syncTableStateToUrl();
+  }
+
+  startResize(event: MouseEvent, field: string): void {
+    // Do not sort when grabbing the handle
+    event.preventDefault();
+    event.stopPropagation();
+
+    const header = (event.target as HTMLElement).closest('th');
+    this.resizeState = {
+      field,
+      startX: event.clientX,
+      startWidth: header ? header.getBoundingClientRect().width : this.getColumnWidth(field) || 150
+    };
+  }
+
+  @HostListener('document:mousemove', ['$event'])
+  onResizeMove(event: MouseEvent): void {
+    if (!this.resizeState) return;
+    const { field, startX, startWidth } = this.resizeState;
+    const width = Math.max(60, Math.round(startWidth + event.clientX - startX));
+    this.columnSettings = { ...this.columnSettings, [field]: { ...this.columnSettings[field], width } };
+  }
+
+  @HostListener('document:mouseup')
+  onResizeEnd(): void {
+    if (!this.resizeState) return;
+    this.resizeState = null;
+
+    // The click ending a drag would otherwise sort the column
+    const swallowClick = (event: Event) => event.stopPropagation();
+    document.addEventListener('click', swallowClick, { capture: true, once: true });
+    setTimeout(() => document.removeEventListener('click', swallowClick, { capture: true }));
+
+    this.syncTableStateToUrl();
+  }
+
+  private setColumns(columns: ColumnConfig[]): void {
+    this.selectedFields = columns.map(column => column.field);
+    this.columnSettings = {};
+    columns.forEach(({ field, width, formatter }) => {
+      if (width || formatter) {
+        this.columnSettings[field] = { width, formatter };
+      }
+    });
+  }
+
+  private applyDefaultLayout(): void {
+    this.columnLayoutService.getLayouts(this.indexPattern).subscribe(
+      (layouts) => {
+        const layout = layouts.find(l => l.isDefault);
+        if (layout) {
+          this.setColumns(layout.columns);
+          this.activeLayoutName = layout.name;
+        }
+      },
+      (error) => console.error('Error loading column layouts:', error)
+    );
   }
 
   expandRow(entry: LogEntry): void {
     // Toggle expansion state
   entry.expanded = !entry.expanded;
+    if (entry.expanded && !entry.detailFields) {
+      // Dotted paths, the keys highlights are returned for
+      entry.detailFields = Object.keys(flattenDocument(entry._source));
+    }
   }
 
   getObjectKeys(obj: any): string[] {
     return obj ? Object.keys(obj) : [];
   }
+
+  // ============================================================================
+  // Export
+  // ============================================================================
+
+  get exporting(): boolean {
+    return !!this.exportSubscription && !this.exportSubscription.closed;
+  }
+
+  get exportPercent(): number {
+    if (!this.exportProgress || !this.exportProgress.total) return 0;
+    return Math.min(100, (this.exportProgress.rows / this.exportProgress.total) * 100);
+  }
+
+  /**
+   * Exports every hit of the current query and time range (not just the
+   * loaded page): CSV with the visible columns, or raw documents as NDJSON
+   */
+  startExport(format: ExportFormat): void {
+    this.showExportMenu = false;
+    this.exportError = null;
+    this.exportProgress = { rows: 0, total: null, done: false };
+
+    const columns = ['@timestamp', ...this.selectedFields.filter(field => field !== '@timestamp')];
+    const filename = `${this.indexPattern}_${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+
+    this.exportSubscription = this.exportService.exportSearchResults({
+      queryDSL: this.timefilter.withTimeRange(this.filters?.queryDSL),
+      format,
+      columns: format === 'csv' ? columns : undefined,
+      sortField: this.sortField,
+      sortOrder: this.sortOrder
+    }).subscribe(
+      (progress) => {
+        this.exportProgress = progress;
+        if (progress.done && progress.blob) {
+          this.exportService.downloadBlob(progress.blob, filename);
+          this.exportProgress = null;
+        }
+      },
+      (error) => {
+        console.error('Error exporting data:', error);
+        this.exportError = error.error?.message || 'Export failed';
+        this.exportProgress = null;
+      }
+    );
+  }
+
+  cancelExport(): void {
+    if (this.exportSubscription) {
+      this.exportSubscription.unsubscribe();
+    }
+    this.exportProgress = null;
+  }
+
+  // ============================================================================
+  // URL State
+  // ============================================================================
+
+  /**
+   * Writes sort, paging and columns to the `_a` param without adding a
+   * history entry (back/forward only steps through filter changes)
+   */
+  private syncTableStateToUrl(): void {
+    const isDefaultSort = this.sortField === this.defaultSortField && this.sortOrder === this.defaultSortOrder;
+    const isDefaultColumns = this.selectedFields.length === this.defaultFields.length &&
+      this.selectedFields.every((field, i) => field === this.defaultFields[i]);
+
+    const hasColumnSettings = Object.keys(this.columnSettings).length > 0;
+
+    this.urlState.updateAppState({
+      sort: isDefaultSort ? undefined : [this.sortField, this.sortOrder],
+      page: this.currentPage || undefined,
+      size: this.pageSize === this.defaultPageSize ? undefined : this.pageSize,
+      columns: isDefaultColumns ? undefined : [...this.selectedFields],
+      columnSettings: hasColumnSettings ? { ...this.columnSettings } : undefined
+    }, { replace: true });
+  }
+
+  private applyUrlState(state: AppUrlState): void {
+    const [sortField, sortOrder] = state.sort || [this.defaultSortField, this.defaultSortOrder];
+    this.sortField = sortField;
+    this.sortOrder = sortOrder === 'asc' ? 'asc' : 'desc';
+    this.pageSize = state.size || this.defaultPageSize;
+    this.currentPage = state.page || 0;
+    this.selectedFields = state.columns ? [...state.columns] : [...this.defaultFields];
+    this.columnSettings = { ...state.columnSettings };
+  }
 }
 
@@ -2,6 +2,7 @@ import { Component, OnInit, OnChanges, SimpleChanges, Input, Output, EventEmitte
 import { DomSanitizer, SafeHtml } from '@angular/platform-browser';
 import { Filter, FilterGroup } from '../filter.model';
 import { FilterService } from '../services/filter.service';
+import { TimefilterService } from '../services/timefilter.service';
 import { FormBuilder, FormGroup, FormArray, Validators } from '@angular/forms';
 import { buildEsQueryFromFilters, buildPreviewString, SimpleFilter } from '../utils/kibana-filter-utils';
 
@@ -60,7 +61,8 @@ getMaxRangeOperators() {
   constructor(
     private fb: FormBuilder,
     private filterService: FilterService,
-    private sanitizer: DomSanitizer
+    private sanitizer: DomSanitizer,
+    private timefilter: TimefilterService
   ) {
     this.filterForm = this.fb.group({
       filters: this.fb.array([])
@@ -150,7 +152,9 @@ getMaxRangeOperators() {
     }
 
     this.loadingFieldValues[index] = true;
-    this.filterService.getFieldValues(field, searchTerm).subscribe(
+    // Only suggest values present in the selected time range
+    const timeContext = this.timefilter.withTimeRange();
+    this.filterService.getFieldValues(field, searchTerm, timeContext).subscribe(
       (values: string[]) => {
         this.fieldValuesMap[`${index}_${field}`] = values;
         this.loadingFieldValues[index] = false;
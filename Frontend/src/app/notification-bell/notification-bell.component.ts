@@ -0,0 +1,146 @@
+import { Component, OnInit, OnDestroy, Output, EventEmitter, HostListener, ElementRef } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { AdminNotification, AdminNotificationsService, NotificationStreamEvent } from '../services/admin-notifications.service';
+import { NotificationService } from '../services/notification.service';
+
+// Notifications kept in the dropdown
+const MAX_NOTIFICATIONS = 20;
+
+/**
+ * Header bell with the unread count and a dropdown of the latest admin
+ * notifications. New notifications and count changes are pushed by the
+ * server (see AdminNotificationsService.connect) and shown as toasts.
+ */
+@Component({
+  selector: 'app-notification-bell',
+  templateUrl: './notification-bell.component.html',
+  styleUrls: ['./notification-bell.component.scss']
+})
+export class NotificationBellComponent implements OnInit, OnDestroy {
+  @Output() countChange = new EventEmitter<number>();
+
+  notifications: AdminNotification[] = [];
+  unreadCount: number = 0;
+  open: boolean = false;
+  loading: boolean = false;
+  error: string | null = null;
+
+  private streamSubscription?: Subscription;
+
+  constructor(
+    private adminNotifications: AdminNotificationsService,
+    private notiService: NotificationService,
+    private elementRef: ElementRef
+  ) {}
+
+  ngOnInit(): void {
+    this.loadNotifications();
+    this.streamSubscription = this.adminNotifications.connect().subscribe(event => this.onStreamEvent(event));
+  }
+
+  ngOnDestroy(): void {
+    if (this.streamSubscription) {
+      this.streamSubscription.unsubscribe();
+    }
+  }
+
+  loadNotifications(): void {
+    this.loading = true;
+    this.error = null;
+    this.adminNotifications.getRecentNotifications().subscribe(
+      (response) => {
+        this.notifications = response.data;
+        this.setCount(response.count);
+        this.loading = false;
+      },
+      (error) => {
+        console.error('Error loading notifications:', error);
+        this.error = error.error?.message || 'Failed to load notifications';
+        this.loading = false;
+      }
+    );
+  }
+
+  toggle(): void {
+    this.open = !this.open;
+  }
+
+  /**
+   * Closes the dropdown on clicks outside the bell
+   */
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent): void {
+    if (this.open && !this.elementRef.nativeElement.contains(event.target)) {
+      this.open = false;
+    }
+  }
+
+  markAsRead(notification: AdminNotification): void {
+    if (!notification.unread) {
+      return;
+    }
+    notification.unread = false; // Optimistic, the stream confirms the count
+    this.adminNotifications.markAsRead(notification.id).subscribe(
+      (response) => {
+        this.setCount(response.count);
+      },
+      (error) => {
+        console.error('Error marking notification as read:', error);
+        notification.unread = true;
+        this.notiService.showError(error.error?.message || 'Failed to mark notification as read');
+      }
+    );
+  }
+
+  markAllAsRead(): void {
+    this.adminNotifications.markNotificationRead().subscribe(
+      () => {
+        this.notifications.forEach(n => n.unread = false);
+        this.setCount(0);
+      },
+      (error: any) => {
+        console.error('Error marking notifications as read:', error);
+      }
+    );
+  }
+
+  getTitle(notification: AdminNotification): string {
+    switch (notification.notification_type) {
+      case 'threshold_alert':
+        return 'Threshold alert';
+      case 'node_down':
+        return 'Node down';
+      case 'node_up':
+        return 'Node up';
+      default:
+        return notification.notification_type.replace(/_/g, ' ');
+    }
+  }
+
+  trackById(index: number, notification: AdminNotification): number {
+    return notification.id;
+  }
+
+  private onStreamEvent(event: NotificationStreamEvent): void {
+    if (event.type === 'count') {
+      this.setCount(event.count);
+      return;
+    }
+
+    const notification = event.notification;
+    this.notifications = [notification, ...this.notifications.filter(n => n.id !== notification.id)]
+      .slice(0, MAX_NOTIFICATIONS);
+
+    const text = `${this.getTitle(notification)}: ${notification.message || ''}`;
+    if (notification.notification_type === 'threshold_alert' || notification.notification_type === 'node_down') {
+      this.notiService.showWarning(text);
+    } else {
+      this.notiService.showInfo(text);
+    }
+  }
+
+  private setCount(count: number): void {
+    this.unreadCount = count;
+    this.countChange.emit(count);
+  }
+}
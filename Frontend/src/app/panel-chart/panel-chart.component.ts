@@ -0,0 +1,171 @@
+import {
+  Component,
+  AfterViewInit,
+  OnChanges,
+  OnDestroy,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef
+} from '@angular/core';
+import {
+  Chart,
+  ChartConfiguration,
+  ChartEvent,
+  ActiveElement,
+  BarController,
+  BarElement,
+  PieController,
+  ArcElement,
+  CategoryScale,
+  LinearScale,
+  Legend,
+  Tooltip
+} from 'chart.js';
+import { PanelChart, PanelChartClick, PanelData, PANEL_COLORS } from '../dashboard-panels/dashboard-panels.model';
+
+Chart.register(BarController, BarElement, PieController, ArcElement, CategoryScale, LinearScale, Legend, Tooltip);
+
+/**
+ * Chart of a single dashboard panel (bar, horizontal bar, pie or stacked bar)
+ *
+ * Clicking a bar or slice emits its bucket; Ctrl/Cmd-click marks it to be
+ * excluded.
+ */
+@Component({
+  selector: 'app-panel-chart',
+  templateUrl: './panel-chart.component.html',
+  styleUrls: ['./panel-chart.component.scss']
+})
+export class PanelChartComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @Input() data: PanelData | null = null;
+  @Input() chart: PanelChart = 'bar';
+  @Input() loading: boolean = false;
+  @Output() itemClick = new EventEmitter<PanelChartClick>();
+
+  @ViewChild('chartCanvas') chartCanvas!: ElementRef<HTMLCanvasElement>;
+
+  private chartInstance?: Chart;
+  private renderedType?: PanelChart;
+
+  ngAfterViewInit(): void {
+    this.render();
+  }
+
+  ngOnChanges(): void {
+    this.render();
+  }
+
+  ngOnDestroy(): void {
+    this.chartInstance?.destroy();
+  }
+
+  get isEmpty(): boolean {
+    return !this.loading && (!this.data || this.data.keys.length === 0 || this.data.series.length === 0);
+  }
+
+  private render(): void {
+    if (!this.chartCanvas) {
+      return;
+    }
+
+    // Bar and pie charts do not share options, switching type rebuilds the chart
+    if (!this.chartInstance || this.renderedType !== this.chart) {
+      this.chartInstance?.destroy();
+      this.chartInstance = new Chart(this.chartCanvas.nativeElement, this.buildConfig());
+      this.renderedType = this.chart;
+    }
+
+    this.chartInstance.data.labels = this.data?.labels || [];
+    this.chartInstance.data.datasets = this.buildDatasets();
+    this.chartInstance.update();
+  }
+
+  private buildConfig(): ChartConfiguration {
+    if (this.chart === 'pie') {
+      return {
+        type: 'pie',
+        data: { labels: [], datasets: [] },
+        options: {
+          responsive: true,
+          maintainAspectRatio: false,
+          animation: false,
+          onClick: (event, elements) => this.onChartClick(event, elements),
+          onHover: (event, elements) => this.setPointer(event, elements),
+          plugins: {
+            legend: { position: 'right', labels: { boxWidth: 12, font: { size: 11 } } }
+          }
+        }
+      };
+    }
+
+    const stacked = this.chart === 'stacked_bar';
+    return {
+      type: 'bar',
+      data: { labels: [], datasets: [] },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: false,
+        indexAxis: this.chart === 'horizontal_bar' ? 'y' : 'x',
+        onClick: (event, elements) => this.onChartClick(event, elements),
+        onHover: (event, elements) => this.setPointer(event, elements),
+        scales: {
+          x: { stacked, grid: { display: false }, ticks: { autoSkip: true, maxRotation: 0, font: { size: 11 } } },
+          y: { stacked, beginAtZero: true, ticks: { font: { size: 11 }, callback: this.truncateTick } }
+        },
+        plugins: {
+          legend: { display: stacked, position: 'bottom', labels: { boxWidth: 12, font: { size: 11 } } }
+        }
+      }
+    };
+  }
+
+  private buildDatasets(): any[] {
+    const series = this.data?.series || [];
+
+    if (this.chart === 'pie') {
+      return series.slice(0, 1).map(s => ({
+        label: s.name,
+        data: s.data,
+        backgroundColor: s.data.map((_, index) => PANEL_COLORS[index % PANEL_COLORS.length])
+      }));
+    }
+
+    return series.map((s, index) => ({
+      label: s.name,
+      data: s.data,
+      backgroundColor: this.chart === 'stacked_bar' ? PANEL_COLORS[index % PANEL_COLORS.length] : PANEL_COLORS[0],
+      categoryPercentage: 1,
+      barPercentage: 0.9
+    }));
+  }
+
+  private onChartClick(event: ChartEvent, elements: ActiveElement[]): void {
+    if (elements.length === 0) {
+      return;
+    }
+    const native = event.native as MouseEvent | null;
+    this.itemClick.emit({
+      index: elements[0].index,
+      seriesIndex: elements[0].datasetIndex,
+      exclude: !!native && (native.ctrlKey || native.metaKey)
+    });
+  }
+
+  private setPointer(event: ChartEvent, elements: ActiveElement[]): void {
+    const target = event.native?.target as HTMLElement | undefined;
+    if (target) {
+      target.style.cursor = elements.length > 0 ? 'pointer' : 'default';
+    }
+  }
+
+  /**
+   * Long category labels (URLs) are cut on the y axis
+   */
+  private truncateTick(this: any, value: any): string {
+    const label = String(this.getLabelForValue ? this.getLabelForValue(value) : value);
+    return label.length > 30 ? `${label.slice(0, 29)}…` : label;
+  }
+}
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { QueryDslEditorComponent } from './query-dsl-editor.component';
+
+describe('QueryDslEditorComponent', () => {
+  let component: QueryDslEditorComponent;
+  let fixture: ComponentFixture<QueryDslEditorComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      declarations: [ QueryDslEditorComponent ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(QueryDslEditorComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -1,7 +1,39 @@
-import { Injectable } from '@angular/core';
+import { Injectable, NgZone } from '@angular/core';
 import { environment } from 'src/environments/environment';
-import { RestService } from './rest.service';
-import { HttpClient } from "@angular/common/http";
+import { RestService } from '../core/rest.service';
+import { HttpClient, HttpParams } from "@angular/common/http";
+import { Observable } from 'rxjs';
+import { SessionstorageService } from '../common/sessionstorage.service';
+
+/**
+ * Admin notification as seen by the logged-in user
+ */
+export interface AdminNotification {
+  id: number;
+  notification_type: string; // 'node_down', 'node_up', 'threshold_alert', ...
+  message?: string | null;
+  details?: any;
+  node_id?: number | null;
+  createdAt: string;
+  unread: boolean;
+}
+
+/**
+ * Events pushed by the notification stream
+ */
+export type NotificationStreamEvent =
+  | { type: 'notification'; notification: AdminNotification }
+  | { type: 'count'; count: number };
+
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+/**
+ * Exponential backoff: 1s, 2s, 4s ... up to 30s
+ */
+export function getReconnectDelay(attempt: number): number {
+  return Math.min(RECONNECT_BASE_DELAY * Math.pow(2, attempt), RECONNECT_MAX_DELAY);
+}
 
 @Injectable({
   providedIn: 'root'
@@ -10,7 +42,9 @@ import { HttpClient } from "@angular/common/http";
 export class AdminNotificationsService {
   constructor(
     public http: HttpClient,
-    private restServ: RestService
+    private restServ: RestService,
+    private sessServ: SessionstorageService,
+    private zone: NgZone
   ) { }
 
   getNotifications() {
@@ -24,4 +58,64 @@ export class AdminNotificationsService {
   markNotificationRead() {
     return this.restServ.get(`${environment.markNotificationRead}`, {}, {})
   }
+
+  /**
+   * The latest notifications (read and unread) and the unread count
+   */
+  getRecentNotifications(): Observable<{ data: AdminNotification[]; count: number }> {
+    return this.http.get<{ data: AdminNotification[]; count: number }>(environment.notifications);
+  }
+
+  /**
+   * Marks a single notification as read
+   */
+  markAsRead(id: number): Observable<{ count: number }> {
+    return this.http.post<{ count: number }>(`${environment.notifications}/${id}/read`, {});
+  }
+
+  /**
+   * Server-sent notifications and unread counts
+   *
+   * A dropped connection is reopened with exponential backoff (the browser's
+   * own retry gives up after an HTTP error). The stream closes on unsubscribe.
+   */
+  connect(): Observable<NotificationStreamEvent> {
+    return new Observable<NotificationStreamEvent>(subscriber => {
+      let source: EventSource | null = null;
+      let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+      let attempt = 0;
+
+      const open = () => {
+        // EventSource cannot set headers, the token goes in the query string
+        const params = new HttpParams().set('authorization', this.sessServ.getToken());
+        source = new EventSource(`${environment.notifications}/stream?${params.toString()}`);
+
+        source.onopen = () => {
+          attempt = 0;
+        };
+        source.addEventListener('notification', (event: MessageEvent) => {
+          this.zone.run(() => subscriber.next({ type: 'notification', notification: JSON.parse(event.data) }));
+        });
+        source.addEventListener('count', (event: MessageEvent) => {
+          this.zone.run(() => subscriber.next({ type: 'count', count: JSON.parse(event.data).count }));
+        });
+        source.onerror = () => {
+          source!.close();
+          reconnectTimer = setTimeout(open, getReconnectDelay(attempt++));
+        };
+      };
+
+      // Outside Angular: a pending reconnect must not keep the app unstable
+      this.zone.runOutsideAngular(open);
+
+      return () => {
+        if (reconnectTimer) {
+          clearTimeout(reconnectTimer);
+        }
+        if (source) {
+          source.close();
+        }
+      };
+    });
+  }
 }
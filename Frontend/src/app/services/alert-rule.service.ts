@@ -0,0 +1,68 @@
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { environment } from 'src/environments/environment';
+import { DEFAULT_INDEX_PATTERN } from './column-layout.service';
+
+export type AlertMetric = 'count' | 'cardinality';
+
+/**
+ * Threshold alert on the documents of a saved search, checked every minute
+ * by the backend. A breach raises an admin notification.
+ */
+export interface AlertRule {
+  id?: number;
+  name: string;
+  enabled: boolean;
+  savedSearchId: number | null;
+  windowMinutes: number;
+  metric: AlertMetric;
+  metricField?: string | null; // Unique count field (cardinality only)
+  threshold: number; // Alerts when the metric is above this value
+  groupBy?: string | null; // Evaluated per value of this field
+  lastCheckedAt?: string | null;
+  lastTriggeredAt?: string | null;
+  lastError?: string | null;
+}
+
+@Injectable({ providedIn: 'root' })
+export class AlertRuleService {
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * The logged-in user's rules
+   */
+  getAlertRules(index: string = DEFAULT_INDEX_PATTERN): Observable<AlertRule[]> {
+    const params = new HttpParams().set('index', index);
+    return this.http.get<AlertRule[]>(environment.alertRules, { params });
+  }
+
+  createAlertRule(rule: AlertRule, index: string = DEFAULT_INDEX_PATTERN): Observable<AlertRule> {
+    return this.http.post<AlertRule>(environment.alertRules, { index, ...this.toRequestBody(rule) });
+  }
+
+  updateAlertRule(id: number, rule: AlertRule): Observable<AlertRule> {
+    return this.http.put<AlertRule>(`${environment.alertRules}/${id}`, this.toRequestBody(rule));
+  }
+
+  deleteAlertRule(id: number): Observable<{ deleted: boolean }> {
+    return this.http.delete<{ deleted: boolean }>(`${environment.alertRules}/${id}`);
+  }
+
+  /**
+   * Evaluation state is owned by the backend
+   */
+  private toRequestBody(rule: AlertRule): any {
+    return {
+      name: rule.name,
+      enabled: rule.enabled,
+      savedSearchId: rule.savedSearchId,
+      windowMinutes: rule.windowMinutes,
+      metric: rule.metric,
+      metricField: rule.metric === 'cardinality' ? rule.metricField : null,
+      threshold: rule.threshold,
+      groupBy: rule.groupBy || null
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { environment } from 'src/environments/environment';
+import { FieldFormatter } from '../utils/field-formatters';
+
+/**
+ * Data table column (order comes from its position in the layout)
+ */
+export interface ColumnConfig {
+  field: string;
+  width?: number; // px, auto when unset
+  formatter?: FieldFormatter;
+}
+
+/**
+ * Named column layout, saved per user and per index
+ */
+export interface ColumnLayout {
+  id?: number;
+  name: string;
+  indexPattern?: string;
+  columns: ColumnConfig[];
+  isDefault?: boolean;
+}
+
+export const DEFAULT_INDEX_PATTERN = 'web-l';
+
+@Injectable({ providedIn: 'root' })
+export class ColumnLayoutService {
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Layouts of the logged-in user for an index
+   */
+  getLayouts(index: string = DEFAULT_INDEX_PATTERN): Observable<ColumnLayout[]> {
+    const params = new HttpParams().set('index', index);
+    return this.http.get<ColumnLayout[]>(environment.columnLayouts, { params });
+  }
+
+  /**
+   * Creates the layout, or overwrites the user's layout with the same name
+   */
+  saveLayout(layout: ColumnLayout, index: string = DEFAULT_INDEX_PATTERN): Observable<ColumnLayout> {
+    return this.http.post<ColumnLayout>(environment.columnLayouts, {
+      index,
+      name: layout.name,
+      columns: layout.columns,
+      isDefault: layout.isDefault || false
+    });
+  }
+
+  deleteLayout(id: number): Observable<{ deleted: boolean }> {
+    return this.http.delete<{ deleted: boolean }>(`${environment.columnLayouts}/${id}`);
+  }
+}
@@ -0,0 +1,46 @@
+import { HttpClient } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { environment } from 'src/environments/environment';
+import { SearchHit } from '../utils/document-utils';
+
+/**
+ * Fields that can limit surrounding documents to the anchor's value
+ */
+export type ContextScopeField = 'siem_sourceip' | 'waf_http_session_id';
+
+export interface SurroundingDocumentsRequest {
+  index: string; // _index of the anchor
+  id: string; // _id of the anchor
+  direction: 'before' | 'after';
+  size: number;
+  scopeField?: ContextScopeField;
+  searchAfter?: any[]; // Sort values of the farthest loaded document
+  pitId?: string; // Point in time of the previous load in this direction
+}
+
+export interface SurroundingDocumentsResponse {
+  hits: SearchHit[];
+  pitId: string;
+}
+
+@Injectable({ providedIn: 'root' })
+export class DocumentService {
+
+  constructor(private http: HttpClient) {}
+
+  getDocument(index: string, id: string): Observable<SearchHit> {
+    return this.http.get<SearchHit>(`${environment.getDocument}/${encodeURIComponent(index)}/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * Documents just before or after the anchor, in ascending time order.
+   * Loading more must pass the returned pitId back with the searchAfter.
+   */
+  getSurroundingDocuments(request: SurroundingDocumentsRequest): Observable<SurroundingDocumentsResponse> {
+    return this.http.post<SurroundingDocumentsResponse>(environment.surroundingDocuments, request).pipe(
+      map(response => ({ hits: response.hits || [], pitId: response.pitId }))
+    );
+  }
+}
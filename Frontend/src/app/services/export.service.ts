@@ -0,0 +1,98 @@
+import { HttpClient, HttpDownloadProgressEvent, HttpEvent, HttpEventType } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { defer, Observable } from 'rxjs';
+import { filter, map } from 'rxjs/operators';
+import { environment } from 'src/environments/environment';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export interface ExportRequest {
+  queryDSL: any;
+  format: ExportFormat;
+  columns?: string[]; // CSV only
+  sortField?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+/**
+ * Export state, emitted while the file streams in
+ */
+export interface ExportProgress {
+  rows: number;
+  total: number | null; // From the X-Total-Hits header
+  done: boolean;
+  blob?: Blob; // Set once done
+}
+
+/**
+ * Streams full search results from the backend export endpoint
+ *
+ * Rows are counted from the line breaks received so far (the CSV header and
+ * line breaks inside quoted values make this an estimate). Unsubscribing
+ * aborts the request, which stops the export on the backend.
+ */
+@Injectable({ providedIn: 'root' })
+export class ExportService {
+
+  constructor(private http: HttpClient) {}
+
+  exportSearchResults(request: ExportRequest): Observable<ExportProgress> {
+    return defer(() => {
+      let total: number | null = null;
+      let lines = 0;
+      let scanned = 0;
+      const headerLines = request.format === 'csv' ? 1 : 0;
+
+      return this.http.post(environment.exportSearch, request, {
+        observe: 'events',
+        reportProgress: true,
+        responseType: 'text'
+      }).pipe(
+        filter((event: HttpEvent<string>) =>
+          event.type === HttpEventType.ResponseHeader ||
+          event.type === HttpEventType.DownloadProgress ||
+          event.type === HttpEventType.Response),
+        map((event: HttpEvent<string>): ExportProgress => {
+          if (event.type === HttpEventType.ResponseHeader) {
+            const header = event.headers.get('X-Total-Hits');
+            total = header !== null ? Number(header) : null;
+          } else if (event.type === HttpEventType.DownloadProgress) {
+            const text = (event as HttpDownloadProgressEvent).partialText || '';
+            lines += this.countLineBreaks(text, scanned);
+            scanned = text.length;
+          } else if (event.type === HttpEventType.Response) {
+            const body = event.body || '';
+            const type = request.format === 'csv' ? 'text/csv;charset=utf-8' : 'application/x-ndjson';
+            return { rows: total ?? Math.max(lines - headerLines, 0), total, done: true, blob: new Blob([body], { type }) };
+          }
+
+          const rows = Math.max(lines - headerLines, 0);
+          return { rows: total !== null ? Math.min(rows, total) : rows, total, done: false };
+        })
+      );
+    });
+  }
+
+  /**
+   * Saves a blob through a temporary link
+   */
+  downloadBlob(blob: Blob, filename: string): void {
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.style.display = 'none';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  }
+
+  private countLineBreaks(text: string, from: number): number {
+    let count = 0;
+    for (let i = from; i < text.length; i++) {
+      if (text.charCodeAt(i) === 10) count++;
+    }
+    return count;
+  }
+}
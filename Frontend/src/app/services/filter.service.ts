@@ -1,6 +1,7 @@
 import { HttpClient, HttpParams } from '@angular/common/http';
 import { Injectable } from '@angular/core';
 import { environment } from 'src/environments/environment';
+import { IndexField } from '../filter.model';
 
 
 
@@ -14,12 +15,21 @@ export class FilterService {
     return this.http.get<any[]>(environment.getfields);
   }
 
+  getFieldsWithTypes() {
+    const params = new HttpParams().set('withTypes', 'true');
+    return this.http.get<IndexField[]>(environment.getfields, { params });
+  }
+
 
-  getFieldValues(field: string, searchTerm?: string) {
+  getFieldValues(field: string, searchTerm?: string, filters?: any) {
     let params = new HttpParams().set('field', field);
     if (searchTerm) {
       params = params.set('search', searchTerm);
     }
+    // Context query (e.g. the time range) limiting the suggested values
+    if (filters) {
+      params = params.set('filters', JSON.stringify(filters));
+    }
     return this.http.get<any[]>(environment.getfiledvalues, { params });
   }
 }
@@ -0,0 +1,61 @@
+import { Injectable, NgZone } from '@angular/core';
+import { environment } from 'src/environments/environment';
+import { HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { SessionstorageService } from '../common/sessionstorage.service';
+import { LiveAttackEvent } from '../attack-map/live-attack.model';
+import { getReconnectDelay } from './admin-notifications.service';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class LiveAttackService {
+  constructor(
+    private sessServ: SessionstorageService,
+    private zone: NgZone
+  ) { }
+
+  /**
+   * Batches of new geolocated events aimed at the user's nodes, oldest first
+   *
+   * Batches are delivered outside Angular: the map draws them itself and
+   * a burst must not trigger change detection per batch. A dropped
+   * connection is reopened with exponential backoff; the stream closes on
+   * unsubscribe.
+   */
+  connect(): Observable<LiveAttackEvent[]> {
+    return new Observable<LiveAttackEvent[]>(subscriber => {
+      let source: EventSource | null = null;
+      let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+      let attempt = 0;
+
+      const open = () => {
+        // EventSource cannot set headers, the token goes in the query string
+        const params = new HttpParams().set('authorization', this.sessServ.getToken());
+        source = new EventSource(`${environment.liveEvents}?${params.toString()}`);
+
+        source.onopen = () => {
+          attempt = 0;
+        };
+        source.addEventListener('events', (event: MessageEvent) => {
+          subscriber.next(JSON.parse(event.data));
+        });
+        source.onerror = () => {
+          source!.close();
+          reconnectTimer = setTimeout(open, getReconnectDelay(attempt++));
+        };
+      };
+
+      this.zone.runOutsideAngular(open);
+
+      return () => {
+        if (reconnectTimer) {
+          clearTimeout(reconnectTimer);
+        }
+        if (source) {
+          source.close();
+        }
+      };
+    });
+  }
+}
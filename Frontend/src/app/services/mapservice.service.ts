@@ -2,7 +2,10 @@ import { HttpClient } from '@angular/common/http';
 import { Injectable } from '@angular/core';
 import * as L from 'leaflet';
 import { environment } from 'src/environments/environment';
-import { RestService } from './rest.service';
+import { RestService } from '../core/rest.service';
+import { GeoCluster, GeoTermCount, getClusterSize, formatClusterCount } from '../attack-map/attack-map.model';
+import { buildArcPoints } from '../attack-map/live-attack.model';
+import { escapeHtml } from '../utils/highlight-utils';
 
 @Injectable({
   providedIn: 'root'
@@ -16,7 +19,7 @@ export class MapserviceService {
     // this.getAllNodes();
   }
 
-  getLiveMap(map: L.Map, allNodes: any, mapType = 'small'): void {
+  getLiveMap(map: L.Map, allNodes: any, mapType = 'small', layer?: L.LayerGroup): void {
     let lat: any;
     let lon: any;
     for (const c of allNodes) {
@@ -47,7 +50,7 @@ export class MapserviceService {
           .setContent(`<div class="map-popup"><p>${c.organization}</p></div>`)
           .openOn(map);
       });
-      marker.addTo(map);
+      marker.addTo(layer || map);
     }
   }
 
@@ -77,4 +80,56 @@ export class MapserviceService {
   getDummyData() {
     return this.http.get(this.dummyData);
   }
+
+  /**
+   * Replaces the layer's markers with one count marker per cluster, sized
+   * by count, with a popup of the cluster's top source IPs and countries
+   */
+  drawGeoClusters(layer: L.LayerGroup, clusters: GeoCluster[]): void {
+    layer.clearLayers();
+    const maxCount = Math.max(0, ...clusters.map(c => c.count));
+
+    for (const c of clusters) {
+      const size = getClusterSize(c.count, maxCount);
+      const icon = L.divIcon({
+        html: `<div class="geo-cluster" style="width:${size}px;height:${size}px;line-height:${size}px">${formatClusterCount(c.count)}</div>`,
+        className: 'geo-cluster-container',
+        iconSize: [size, size]
+      });
+
+      L.marker([c.lat, c.lon], { icon: icon, title: `${c.count} events` })
+        .bindPopup(this.getClusterPopup(c))
+        .addTo(layer);
+    }
+  }
+
+  private getClusterPopup(c: GeoCluster): string {
+    const list = (title: string, terms: GeoTermCount[]) => terms.length === 0 ? '' :
+      `<p><strong>${title}</strong></p><ul>${terms.map(t => `<li>${escapeHtml(t.key)} (${t.count})</li>`).join('')}</ul>`;
+
+    return `<div class="map-popup">
+      <p>${c.count} events</p>
+      ${list('Top source IPs', c.topIps)}
+      ${list('Top countries', c.topCountries)}
+    </div>`;
+  }
+
+  /**
+   * Draws a curved arc from an attacker to a node; the 'attack-arc' class
+   * animates the stroke from the source to the target
+   */
+  drawAttackArc(
+    layer: L.LayerGroup,
+    from: { lat: number; lng: number },
+    to: { lat: number; lng: number },
+    color: string
+  ): L.Polyline {
+    return L.polyline(buildArcPoints(from, to), {
+      color: color,
+      weight: 2,
+      opacity: 0.9,
+      interactive: false,
+      className: 'attack-arc'
+    }).addTo(layer);
+  }
 }
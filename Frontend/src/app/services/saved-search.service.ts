@@ -0,0 +1,81 @@
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { environment } from 'src/environments/environment';
+import { FilterGroupState } from '../filter.model';
+import { TimeRange } from '../utils/date-math';
+import { ColumnConfig, DEFAULT_INDEX_PATTERN } from './column-layout.service';
+
+export type SavedSearchVisibility = 'private' | 'team';
+
+/**
+ * Named dashboard search: everything needed to restore the view
+ */
+export interface SavedSearch {
+  id?: number;
+  name: string;
+  description?: string | null;
+  visibility: SavedSearchVisibility;
+  filterState: FilterGroupState; // Filters, groups and label (queryDSL is stored separately)
+  queryDSL?: any;
+  timeRange?: TimeRange | null;
+  columns?: ColumnConfig[]; // Empty for the default columns
+  sort?: [string, 'asc' | 'desc'] | null; // null for the default sort
+  owner?: string;
+  isOwner?: boolean;
+  updatedAt?: string;
+}
+
+@Injectable({ providedIn: 'root' })
+export class SavedSearchService {
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * The logged-in user's searches and the team's shared searches
+   */
+  getSavedSearches(index: string = DEFAULT_INDEX_PATTERN): Observable<SavedSearch[]> {
+    const params = new HttpParams().set('index', index);
+    return this.http.get<SavedSearch[]>(environment.savedSearches, { params });
+  }
+
+  getSavedSearch(id: number): Observable<SavedSearch> {
+    return this.http.get<SavedSearch>(`${environment.savedSearches}/${id}`);
+  }
+
+  createSavedSearch(search: SavedSearch, index: string = DEFAULT_INDEX_PATTERN): Observable<SavedSearch> {
+    return this.http.post<SavedSearch>(environment.savedSearches, { index, ...this.toRequestBody(search) });
+  }
+
+  /**
+   * Overwrites a search owned by the logged-in user
+   */
+  updateSavedSearch(id: number, search: SavedSearch): Observable<SavedSearch> {
+    return this.http.put<SavedSearch>(`${environment.savedSearches}/${id}`, this.toRequestBody(search));
+  }
+
+  deleteSavedSearch(id: number): Observable<{ deleted: boolean }> {
+    return this.http.delete<{ deleted: boolean }>(`${environment.savedSearches}/${id}`);
+  }
+
+  /**
+   * groupMeta is derived from the group definitions, so it is not stored
+   */
+  private toRequestBody(search: SavedSearch): any {
+    const { filters, groups, customLabel } = search.filterState;
+    return {
+      name: search.name,
+      description: search.description,
+      visibility: search.visibility,
+      filterState: {
+        filters: filters.map(({ groupMeta, ...rest }) => rest),
+        groups,
+        customLabel
+      },
+      queryDSL: search.queryDSL,
+      timeRange: search.timeRange,
+      columns: search.columns || [],
+      sort: search.sort
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { UrlStateService } from './url-state.service';
+import { TimeRange, resolveTimeRange } from '../utils/date-math';
+
+export const DEFAULT_TIME_RANGE: TimeRange = { from: 'now-15m', to: 'now' };
+export const TIME_FIELD = '@timestamp';
+
+/**
+ * Global time filter shared by the data table, value suggestions and charts
+ *
+ * The range is kept as entered (date math such as now-1h/h) and stored in
+ * the `_g` URL param; it is resolved to absolute dates each time a query is
+ * built so every request of one refresh uses the same bounds.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TimefilterService {
+  private timeRange$ = new BehaviorSubject<TimeRange>(DEFAULT_TIME_RANGE);
+  private bounds = resolveTimeRange(DEFAULT_TIME_RANGE);
+
+  constructor(private urlState: UrlStateService) {
+    const urlTime = this.urlState.getGlobalState().time;
+    if (this.isValidRange(urlTime)) {
+      this.emit(urlTime);
+    }
+
+    // Back/forward restores the range
+    this.urlState.globalStateChanged.subscribe(state => {
+      const time = this.isValidRange(state.time) ? state.time : DEFAULT_TIME_RANGE;
+      if (time.from !== this.getTime().from || time.to !== this.getTime().to) {
+        this.emit(time);
+      }
+    });
+  }
+
+  get timeRangeChanged(): Observable<TimeRange> {
+    return this.timeRange$.asObservable();
+  }
+
+  getTime(): TimeRange {
+    return this.timeRange$.value;
+  }
+
+  setTime(range: TimeRange): void {
+    if (!this.isValidRange(range)) {
+      return;
+    }
+    this.urlState.updateGlobalState({ time: { from: range.from, to: range.to } });
+    this.emit({ from: range.from, to: range.to });
+  }
+
+  /**
+   * Re-emits the current range so relative ranges (now-15m) are re-resolved
+   */
+  refresh(): void {
+    this.emit(this.getTime());
+  }
+
+  /**
+   * Absolute bounds of the current range, resolved when it was last emitted
+   */
+  getBounds(): { min: Date; max: Date } | null {
+    return this.bounds;
+  }
+
+  /**
+   * Builds the range clause for the current time range
+   */
+  createRangeFilter(field: string = TIME_FIELD): any {
+    const bounds = this.getBounds();
+    if (!bounds) {
+      return null;
+    }
+    return {
+      range: {
+        [field]: {
+          gte: bounds.min.toISOString(),
+          lte: bounds.max.toISOString(),
+          format: 'strict_date_optional_time'
+        }
+      }
+    };
+  }
+
+  /**
+   * Combines a { query } body (e.g. from buildEsQueryFromGroupedFilters)
+   * with the time range, which goes in filter context
+   */
+  withTimeRange(queryDSL?: any): any {
+    const rangeFilter = this.createRangeFilter();
+    const query = queryDSL?.query;
+    const hasQuery = query && !(query.match_all && Object.keys(query).length === 1);
+
+    if (!rangeFilter) {
+      return queryDSL || { query: { match_all: {} } };
+    }
+
+    return {
+      ...queryDSL,
+      query: {
+        bool: {
+          ...(hasQuery ? { must: [query] } : {}),
+          filter: [rangeFilter]
+        }
+      }
+    };
+  }
+
+  private emit(range: TimeRange): void {
+    this.bounds = resolveTimeRange(range);
+    this.timeRange$.next(range);
+  }
+
+  private isValidRange(range: TimeRange | undefined): range is TimeRange {
+    return !!range && typeof range.from === 'string' && typeof range.to === 'string' && !!resolveTimeRange(range);
+  }
+}
@@ -0,0 +1,254 @@
+import { Injectable } from '@angular/core';
+import { Router, NavigationEnd } from '@angular/router';
+import { Subject } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import { GroupedFilter, FilterGroupDefinition } from '../filter.model';
+import { encodeRison, decodeRison } from '../utils/rison';
+import { TimeRange } from '../utils/date-math';
+import { FieldFormatter } from '../utils/field-formatters';
+import { applyGroupMetadata } from '../utils/kibana-filter-utils';
+
+/**
+ * App-scoped state, stored in the `_a` query param
+ */
+export interface AppUrlState {
+  filters?: GroupedFilter[];
+  groups?: FilterGroupDefinition[];
+  label?: string;
+  sort?: [string, 'asc' | 'desc'];
+  page?: number;
+  size?: number;
+  columns?: string[];
+  columnSettings?: { [field: string]: { width?: number; formatter?: FieldFormatter } };
+}
+
+/**
+ * Global state shared across apps, stored in the `_g` query param
+ */
+export interface GlobalUrlState {
+  time?: TimeRange;
+  filters?: GroupedFilter[]; // Pinned filters
+  [key: string]: any;
+}
+
+/**
+ * Keeps dashboard state in rison-encoded `_g` / `_a` query params (Kibana-style)
+ *
+ * Writes made in the same tick are batched into a single navigation. A write
+ * pushes a history entry unless every batched write asked to replace, so
+ * back/forward steps through filter changes while paging and sorting do not
+ * flood the history. Navigations not made by this service (back/forward,
+ * edited URLs) are re-read and emitted on the *Changed subjects.
+ *
+ * Like Kibana's global state, `_g` follows the user to pages whose links do
+ * not carry it, so the time range and pinned filters survive navigation.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UrlStateService {
+  readonly appStateChanged = new Subject<AppUrlState>();
+  readonly globalStateChanged = new Subject<GlobalUrlState>();
+
+  private appState: AppUrlState = {};
+  private globalState: GlobalUrlState = {};
+  private rawAppState: string | undefined;
+  private rawGlobalState: string | undefined;
+  private pendingReplace: boolean | null = null;
+
+  constructor(private router: Router) {
+    this.readFromUrl(this.router.url);
+
+    this.router.events.pipe(
+      filter((event): event is NavigationEnd => event instanceof NavigationEnd)
+    ).subscribe(event => {
+      if (this.carryGlobalState(event.urlAfterRedirects)) {
+        return; // Read once the URL includes `_g`
+      }
+
+      const changed = this.readFromUrl(event.urlAfterRedirects);
+      if (changed.app) {
+        this.appStateChanged.next(this.appState);
+      }
+      if (changed.global) {
+        this.globalStateChanged.next(this.globalState);
+      }
+    });
+  }
+
+  getAppState(): AppUrlState {
+    return this.appState;
+  }
+
+  getGlobalState(): GlobalUrlState {
+    return this.globalState;
+  }
+
+  /**
+   * Merges values into the app state and writes it to the URL
+   */
+  updateAppState(partial: AppUrlState, options: { replace?: boolean } = {}): void {
+    this.appState = this.compact({ ...this.appState, ...partial });
+    this.scheduleWrite(options.replace || false);
+  }
+
+  /**
+   * Merges values into the global state and writes it to the URL
+   */
+  updateGlobalState(partial: GlobalUrlState, options: { replace?: boolean } = {}): void {
+    this.globalState = this.compact({ ...this.globalState, ...partial });
+    this.scheduleWrite(options.replace || false);
+  }
+
+  /**
+   * Replaces the whole state (e.g. when opening a saved search). The
+   * navigation is handled like back/forward: both states are re-read and
+   * emitted, so every subscriber restores itself.
+   */
+  navigateToState(app: AppUrlState, global: GlobalUrlState): void {
+    this.pendingReplace = null; // Drop writes batched for the state being replaced
+
+    const tree = this.router.parseUrl(this.router.url);
+    const queryParams = { ...tree.queryParams };
+    this.setParam(queryParams, '_a', this.encode(this.toUrlAppState(this.compact(app))));
+    this.setParam(queryParams, '_g', this.encode(this.compact({ ...this.globalState, ...global })));
+    tree.queryParams = queryParams;
+
+    this.router.navigateByUrl(tree);
+  }
+
+  // ============================================================================
+  // URL Reading / Writing
+  // ============================================================================
+
+  private readFromUrl(url: string): { app: boolean; global: boolean } {
+    const params = this.router.parseUrl(url).queryParams;
+    const rawApp: string | undefined = params['_a'];
+    const rawGlobal: string | undefined = params['_g'];
+    const changed = { app: rawApp !== this.rawAppState, global: rawGlobal !== this.rawGlobalState };
+
+    if (changed.app) {
+      this.rawAppState = rawApp;
+      this.appState = this.fromUrlAppState(this.decode(rawApp));
+    }
+    if (changed.global) {
+      this.rawGlobalState = rawGlobal;
+      this.globalState = this.decode(rawGlobal);
+    }
+
+    return changed;
+  }
+
+  /**
+   * Adds the current `_g` to a URL without one (replacing the history entry)
+   *
+   * @returns true when the URL is being rewritten
+   */
+  private carryGlobalState(url: string): boolean {
+    const tree = this.router.parseUrl(url);
+    if (tree.queryParams['_g'] !== undefined || this.rawGlobalState === undefined) {
+      return false;
+    }
+
+    tree.queryParams = { ...tree.queryParams, _g: this.rawGlobalState };
+    this.router.navigateByUrl(tree, { replaceUrl: true });
+    return true;
+  }
+
+  private scheduleWrite(replace: boolean): void {
+    const alreadyScheduled = this.pendingReplace !== null;
+    this.pendingReplace = (this.pendingReplace ?? true) && replace;
+
+    if (!alreadyScheduled) {
+      Promise.resolve().then(() => this.writeToUrl());
+    }
+  }
+
+  private writeToUrl(): void {
+    if (this.pendingReplace === null) {
+      return;
+    }
+    const replaceUrl = this.pendingReplace;
+    this.pendingReplace = null;
+
+    this.rawAppState = this.encode(this.toUrlAppState(this.appState));
+    this.rawGlobalState = this.encode(this.globalState);
+
+    const tree = this.router.parseUrl(this.router.url);
+    const queryParams = { ...tree.queryParams };
+    this.setParam(queryParams, '_a', this.rawAppState);
+    this.setParam(queryParams, '_g', this.rawGlobalState);
+    tree.queryParams = queryParams;
+
+    if (this.router.serializeUrl(tree) !== this.router.url) {
+      this.router.navigateByUrl(tree, { replaceUrl });
+    }
+  }
+
+  private setParam(params: { [key: string]: any }, name: string, value: string | undefined): void {
+    if (value === undefined) {
+      delete params[name];
+    } else {
+      params[name] = value;
+    }
+  }
+
+  private encode(state: { [key: string]: any }): string | undefined {
+    return Object.keys(state).length > 0 ? encodeRison(state) : undefined;
+  }
+
+  private decode(raw: string | undefined): { [key: string]: any } {
+    if (!raw) {
+      return {};
+    }
+    try {
+      const state = decodeRison(raw);
+      return state && typeof state === 'object' && !Array.isArray(state) ? state : {};
+    } catch (error) {
+      console.warn('Ignoring invalid URL state:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Drops empty values so they do not end up in the URL
+   */
+  private compact<T extends { [key: string]: any }>(state: T): T {
+    const result: { [key: string]: any } = {};
+    Object.keys(state).forEach(key => {
+      const value = state[key];
+      if (value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0)) {
+        result[key] = value;
+      }
+    });
+    return result as T;
+  }
+
+  // ============================================================================
+  // Filter Serialization
+  // ============================================================================
+
+  /**
+   * groupMeta is derived from the group definitions, so it is not stored
+   */
+  private toUrlAppState(state: AppUrlState): AppUrlState {
+    if (!state.filters) {
+      return state;
+    }
+    return {
+      ...state,
+      filters: state.filters.map(({ groupMeta, ...rest }) => rest),
+    };
+  }
+
+  private fromUrlAppState(state: AppUrlState): AppUrlState {
+    if (!Array.isArray(state.filters)) {
+      return { ...state, filters: undefined };
+    }
+
+    const groups = (state.groups || []).filter(group => Array.isArray(group.filterIndices));
+    const filters = applyGroupMetadata(state.filters.map(f => ({ ...f })), groups);
+
+    return { ...state, filters };
+  }
+}
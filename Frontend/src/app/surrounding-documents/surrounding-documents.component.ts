@@ -0,0 +1,197 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
+import { combineLatest, Subscription } from 'rxjs';
+import { DocumentService, ContextScopeField } from '../services/document.service';
+import { SearchHit, getDocumentValue, formatDocumentValue } from '../utils/document-utils';
+
+const DEFAULT_CONTEXT_SIZE = 5;
+
+/**
+ * Surrounding documents view (#/context/:index/:id?size=5&scope=siem_sourceip)
+ *
+ * Shows the N documents before and after an anchor by @timestamp, optionally
+ * only those sharing the anchor's source IP or WAF session, with "load more"
+ * in both directions.
+ */
+@Component({
+  selector: 'app-surrounding-documents',
+  templateUrl: './surrounding-documents.component.html',
+  styleUrls: ['./surrounding-documents.component.scss']
+})
+export class SurroundingDocumentsComponent implements OnInit, OnDestroy {
+  readonly columns: string[] = [
+    '@timestamp',
+    'siem_sourceip',
+    'waf_http_session_id',
+    'waf_action',
+    'waf_http_method',
+    'waf_http_url',
+    'waf_severity_level',
+    'waf_msg'
+  ];
+
+  readonly scopeOptions: Array<{ value: ContextScopeField | ''; label: string }> = [
+    { value: '', label: 'All documents' },
+    { value: 'siem_sourceip', label: 'Same source IP' },
+    { value: 'waf_http_session_id', label: 'Same WAF session' }
+  ];
+
+  index: string = '';
+  id: string = '';
+  size: number = DEFAULT_CONTEXT_SIZE;
+  scope: ContextScopeField | '' = '';
+
+  anchor: SearchHit | null = null;
+  before: SearchHit[] = []; // Ascending time order, like after
+  after: SearchHit[] = [];
+  hasMoreBefore: boolean = false;
+  hasMoreAfter: boolean = false;
+
+  loading: boolean = false;
+  loadingBefore: boolean = false;
+  loadingAfter: boolean = false;
+  error: string | null = null;
+
+  // Each direction pages in its own point in time
+  private pitIds: { before?: string; after?: string } = {};
+  private routeSubscription?: Subscription;
+  private requestSubscriptions = new Subscription();
+
+  constructor(
+    private route: ActivatedRoute,
+    private router: Router,
+    private documentService: DocumentService
+  ) {}
+
+  ngOnInit(): void {
+    this.routeSubscription = combineLatest([this.route.paramMap, this.route.queryParamMap]).subscribe(([params, query]) => {
+      this.index = params.get('index') || '';
+      this.id = params.get('id') || '';
+      this.size = Number(query.get('size')) || DEFAULT_CONTEXT_SIZE;
+      const scope = query.get('scope');
+      this.scope = this.scopeOptions.some(o => o.value === scope) ? scope as ContextScopeField : '';
+      this.load();
+    });
+  }
+
+  ngOnDestroy(): void {
+    if (this.routeSubscription) {
+      this.routeSubscription.unsubscribe();
+    }
+    this.requestSubscriptions.unsubscribe();
+  }
+
+  /**
+   * Size and scope live in the URL so the view can be shared
+   */
+  onSettingsChanged(): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: {
+        size: this.size !== DEFAULT_CONTEXT_SIZE ? this.size : null,
+        scope: this.scope || null
+      },
+      replaceUrl: true
+    });
+  }
+
+  load(): void {
+    this.requestSubscriptions.unsubscribe();
+    this.requestSubscriptions = new Subscription();
+
+    this.loading = true;
+    this.error = null;
+    this.anchor = null;
+    this.before = [];
+    this.after = [];
+    this.pitIds = {};
+
+    this.requestSubscriptions.add(this.documentService.getDocument(this.index, this.id).subscribe(
+      (anchor) => {
+        this.anchor = anchor;
+        this.loading = false;
+        this.loadBefore();
+        this.loadAfter();
+      },
+      (error) => {
+        console.error('Error loading anchor document:', error);
+        this.error = error.error?.message || 'Failed to load document';
+        this.loading = false;
+      }
+    ));
+  }
+
+  /**
+   * Loads older documents, continuing from the earliest one shown
+   */
+  loadBefore(): void {
+    this.loadingBefore = true;
+    this.requestSubscriptions.add(this.documentService.getSurroundingDocuments({
+      index: this.index,
+      id: this.id,
+      direction: 'before',
+      size: this.size,
+      scopeField: this.scope || undefined,
+      searchAfter: this.before.length > 0 ? this.before[0].sort : undefined,
+      pitId: this.pitIds.before
+    }).subscribe(
+      ({ hits, pitId }) => {
+        this.pitIds.before = pitId;
+        this.before = [...hits, ...this.before];
+        this.hasMoreBefore = hits.length === this.size;
+        this.loadingBefore = false;
+      },
+      (error) => this.onLoadError(error, () => this.loadingBefore = false)
+    ));
+  }
+
+  /**
+   * Loads newer documents, continuing from the latest one shown
+   */
+  loadAfter(): void {
+    this.loadingAfter = true;
+    this.requestSubscriptions.add(this.documentService.getSurroundingDocuments({
+      index: this.index,
+      id: this.id,
+      direction: 'after',
+      size: this.size,
+      scopeField: this.scope || undefined,
+      searchAfter: this.after.length > 0 ? this.after[this.after.length - 1].sort : undefined,
+      pitId: this.pitIds.after
+    }).subscribe(
+      ({ hits, pitId }) => {
+        this.pitIds.after = pitId;
+        this.after = [...this.after, ...hits];
+        this.hasMoreAfter = hits.length === this.size;
+        this.loadingAfter = false;
+      },
+      (error) => this.onLoadError(error, () => this.loadingAfter = false)
+    ));
+  }
+
+  getValue(hit: SearchHit, field: string): string {
+    return formatDocumentValue(getDocumentValue(hit._source, field));
+  }
+
+  formatTimestamp(hit: SearchHit): string {
+    const value = getDocumentValue(hit._source, '@timestamp');
+    const date = new Date(value);
+    return value && !isNaN(date.getTime())
+      ? date.toLocaleString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          year: 'numeric',
+          hour: '2-digit',
+          minute: '2-digit',
+          second: '2-digit',
+          hour12: false
+        }) + `.${String(date.getMilliseconds()).padStart(3, '0')}`
+      : '-';
+  }
+
+  private onLoadError(error: any, done: () => void): void {
+    console.error('Error loading surrounding documents:', error);
+    this.error = error.error?.message || 'Failed to load surrounding documents';
+    done();
+  }
+}
@@ -0,0 +1,129 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { TimefilterService } from '../services/timefilter.service';
+import {
+  TimeRange,
+  QuickTimeRange,
+  QUICK_TIME_RANGES,
+  parseDateMath,
+  resolveTimeRange,
+  formatTimeRange
+} from '../utils/date-math';
+
+/**
+ * Global time picker (Kibana-style)
+ *
+ * Features:
+ * - Commonly used quick ranges
+ * - Start/end inputs accepting date math (now-1h/h) or absolute dates
+ * - Native date pickers that fill the inputs with absolute dates
+ * - Refresh button re-resolving relative ranges
+ */
+@Component({
+  selector: 'app-time-picker',
+  templateUrl: './time-picker.component.html',
+  styleUrls: ['./time-picker.component.scss']
+})
+export class TimePickerComponent implements OnInit, OnDestroy {
+  readonly quickRanges: QuickTimeRange[] = QUICK_TIME_RANGES;
+
+  isOpen: boolean = false;
+  timeRange!: TimeRange;
+  fromText: string = '';
+  toText: string = '';
+  error: string | null = null;
+
+  private timeSubscription?: Subscription;
+
+  constructor(private timefilter: TimefilterService) {}
+
+  ngOnInit(): void {
+    this.timeSubscription = this.timefilter.timeRangeChanged.subscribe(range => {
+      this.timeRange = range;
+      this.fromText = range.from;
+      this.toText = range.to;
+      this.error = null;
+    });
+  }
+
+  ngOnDestroy(): void {
+    if (this.timeSubscription) {
+      this.timeSubscription.unsubscribe();
+    }
+  }
+
+  get label(): string {
+    return formatTimeRange(this.timeRange);
+  }
+
+  togglePanel(): void {
+    this.isOpen = !this.isOpen;
+  }
+
+  isActive(range: TimeRange): boolean {
+    return range.from === this.timeRange.from && range.to === this.timeRange.to;
+  }
+
+  selectQuickRange(range: QuickTimeRange): void {
+    this.timefilter.setTime({ from: range.from, to: range.to });
+    this.isOpen = false;
+  }
+
+  refresh(): void {
+    this.timefilter.refresh();
+  }
+
+  // ============================================================================
+  // Custom Range
+  // ============================================================================
+
+  onRangeTextChange(): void {
+    this.error = this.validate();
+  }
+
+  /**
+   * Fills an input from the native date picker (local time)
+   */
+  setAbsolute(side: 'from' | 'to', value: string): void {
+    const date = new Date(value);
+    if (!value || isNaN(date.getTime())) {
+      return;
+    }
+    if (side === 'from') {
+      this.fromText = date.toISOString();
+    } else {
+      this.toText = date.toISOString();
+    }
+    this.error = this.validate();
+  }
+
+  /**
+   * Resolved date shown under each input
+   */
+  getResolvedLabel(expression: string, roundUp: boolean): string {
+    const date = parseDateMath(expression, { roundUp });
+    return date ? date.toLocaleString() : '';
+  }
+
+  applyCustomRange(): void {
+    this.error = this.validate();
+    if (this.error) {
+      return;
+    }
+    this.timefilter.setTime({ from: this.fromText.trim(), to: this.toText.trim() });
+    this.isOpen = false;
+  }
+
+  private validate(): string | null {
+    if (!parseDateMath(this.fromText)) {
+      return `Invalid start date "${this.fromText}"`;
+    }
+    if (!parseDateMath(this.toText, { roundUp: true })) {
+      return `Invalid end date "${this.toText}"`;
+    }
+    if (!resolveTimeRange({ from: this.fromText, to: this.toText })) {
+      return 'Start date must be before end date';
+    }
+    return null;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Test Cases for Date Math Utilities
+ *
+ * Dates are built and printed in local time, since date math rounds to
+ * local days and weeks like the time picker does.
+ */
+
+import { calculateAutoInterval, formatTimeRange, isValidDateMath, parseDateMath, resolveTimeRange } from './date-math';
+
+// ============================================================================
+// Test Helper Functions
+// ============================================================================
+
+// Wednesday 21 October 2026, 14:37:12.345
+const NOW = new Date(2026, 9, 21, 14, 37, 12, 345);
+
+function formatLocal(date: Date | null): string {
+  if (!date) {
+    return 'null';
+  }
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+// ============================================================================
+// Test Cases
+// ============================================================================
+
+export function runAllTests() {
+  console.log('=== Running Date Math Tests ===\n');
+
+  // Test 1: Relative expressions
+  testRelativeExpressions();
+
+  // Test 2: Absolute and anchored dates
+  testAbsoluteDates();
+
+  // Test 3: Ranges
+  testRanges();
+
+  // Test 4: Histogram intervals
+  testAutoIntervals();
+
+  console.log('\n=== Tests Complete ===');
+}
+
+// ============================================================================
+// Individual Test Cases
+// ============================================================================
+
+function testRelativeExpressions() {
+  console.log('\n=== Relative Expressions ===');
+
+  console.log('now-15m:', formatLocal(parseDateMath('now-15m', { now: NOW })));
+  console.log('Expected: 2026-10-21 14:22:12.345');
+
+  console.log('now-1h/h:', formatLocal(parseDateMath('now-1h/h', { now: NOW })));
+  console.log('Expected: 2026-10-21 13:00:00.000');
+
+  console.log('now/d rounded up:', formatLocal(parseDateMath('now/d', { now: NOW, roundUp: true })));
+  console.log('Expected: 2026-10-21 23:59:59.999');
+
+  console.log('now/w:', formatLocal(parseDateMath('now/w', { now: NOW })));
+  console.log('Expected: 2026-10-19 00:00:00.000 (Monday)');
+
+  console.log('now+1M-2d:', formatLocal(parseDateMath('now+1M-2d', { now: NOW })));
+  console.log('Expected: 2026-11-19 14:37:12.345');
+
+  console.log('Invalid:', ['now-', 'now-15x', 'now*2', 'yesterday', ''].map(isValidDateMath));
+  console.log('Expected: all false');
+}
+
+function testAbsoluteDates() {
+  console.log('\n=== Absolute Dates ===');
+
+  console.log('Anchored:', formatLocal(parseDateMath('2026-01-31T10:00:00||+1d/d')));
+  console.log('Expected: 2026-02-01 00:00:00.000');
+
+  console.log('Invalid anchor:', parseDateMath('2026-13-45||+1d'));
+  console.log('Expected: null');
+}
+
+function testRanges() {
+  console.log('\n=== Ranges ===');
+
+  const today = resolveTimeRange({ from: 'now/d', to: 'now/d' }, NOW);
+  console.log('Today:', formatLocal(today?.min ?? null), '→', formatLocal(today?.max ?? null));
+  console.log('Expected: 2026-10-21 00:00:00.000 → 2026-10-21 23:59:59.999');
+
+  console.log('Inverted:', resolveTimeRange({ from: 'now', to: 'now-1h' }, NOW));
+  console.log('Expected: null');
+
+  console.log('Labels:', formatTimeRange({ from: 'now-15m', to: 'now' }), '|', formatTimeRange({ from: 'now-2h', to: 'now-1h' }));
+  console.log('Expected: Last 15 minutes | now-2h → now-1h');
+}
+
+function testAutoIntervals() {
+  console.log('\n=== Histogram Intervals ===');
+
+  const spans = ['now-15m', 'now-24h', 'now-7d', 'now-1y'].map(from => {
+    const bounds = resolveTimeRange({ from, to: 'now' }, NOW)!;
+    return calculateAutoInterval(bounds).esInterval;
+  });
+  console.log('Auto intervals (15m, 24h, 7d, 1y):', spans);
+  console.log("Expected: [ '30s', '30m', '12h', '30d' ]");
+
+  const empty = calculateAutoInterval({ min: NOW, max: NOW });
+  const huge = calculateAutoInterval({ min: new Date(1970, 0, 1), max: NOW });
+  console.log('Empty and huge spans:', empty.esInterval, huge.esInterval);
+  console.log('Expected: 1s 365d');
+}
@@ -0,0 +1,242 @@
+/**
+ * Date Math Utilities
+ *
+ * Parses Elasticsearch / Kibana date math expressions:
+ * - now, now-15m, now-1h/h, now/d, now+1w
+ * - Absolute dates (ISO 8601), optionally anchored: 2024-01-01||+1M/d
+ *
+ * Rounding (/unit) goes to the start of the unit, or to the end when
+ * `roundUp` is set (used for the "to" side of a range, like Kibana).
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Time range as entered by the user (date math or absolute ISO dates)
+ */
+export interface TimeRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * Predefined range shown in the time picker
+ */
+export interface QuickTimeRange extends TimeRange {
+  label: string;
+}
+
+export type DateMathUnit = 'y' | 'M' | 'w' | 'd' | 'h' | 'H' | 'm' | 's';
+
+export const QUICK_TIME_RANGES: QuickTimeRange[] = [
+  { label: 'Today', from: 'now/d', to: 'now/d' },
+  { label: 'This week', from: 'now/w', to: 'now/w' },
+  { label: 'Last 15 minutes', from: 'now-15m', to: 'now' },
+  { label: 'Last 30 minutes', from: 'now-30m', to: 'now' },
+  { label: 'Last 1 hour', from: 'now-1h', to: 'now' },
+  { label: 'Last 24 hours', from: 'now-24h', to: 'now' },
+  { label: 'Last 7 days', from: 'now-7d', to: 'now' },
+  { label: 'Last 30 days', from: 'now-30d', to: 'now' },
+  { label: 'Last 90 days', from: 'now-90d', to: 'now' },
+  { label: 'Last 1 year', from: 'now-1y', to: 'now' },
+];
+
+const UNITS: DateMathUnit[] = ['y', 'M', 'w', 'd', 'h', 'H', 'm', 's'];
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Resolves a date math expression to a Date
+ *
+ * @returns null when the expression is invalid
+ */
+export function parseDateMath(
+  expression: string,
+  options: { roundUp?: boolean; now?: Date } = {}
+): Date | null {
+  const text = (expression || '').trim();
+  if (!text) {
+    return null;
+  }
+
+  let anchor: Date;
+  let math: string;
+
+  if (text.startsWith('now')) {
+    anchor = new Date((options.now || new Date()).getTime());
+    math = text.substring('now'.length);
+  } else {
+    const separator = text.indexOf('||');
+    const dateText = separator >= 0 ? text.substring(0, separator) : text;
+    math = separator >= 0 ? text.substring(separator + 2) : '';
+    anchor = new Date(dateText);
+    if (isNaN(anchor.getTime())) {
+      return null;
+    }
+  }
+
+  return applyDateMath(anchor, math, options.roundUp || false);
+}
+
+/**
+ * Checks if an expression can be resolved
+ */
+export function isValidDateMath(expression: string): boolean {
+  return parseDateMath(expression) !== null;
+}
+
+/**
+ * Resolves both ends of a range (the end is rounded up)
+ *
+ * @returns null when either side is invalid or the range is inverted
+ */
+export function resolveTimeRange(range: TimeRange, now: Date = new Date()): { min: Date; max: Date } | null {
+  const min = parseDateMath(range.from, { now });
+  const max = parseDateMath(range.to, { now, roundUp: true });
+  if (!min || !max || min.getTime() > max.getTime()) {
+    return null;
+  }
+  return { min, max };
+}
+
+/**
+ * Human-readable label for a range ("Last 15 minutes" or "from → to")
+ */
+export function formatTimeRange(range: TimeRange): string {
+  const quick = QUICK_TIME_RANGES.find(q => q.from === range.from && q.to === range.to);
+  if (quick) {
+    return quick.label;
+  }
+  return `${formatDateMathLabel(range.from)} → ${formatDateMathLabel(range.to)}`;
+}
+
+function formatDateMathLabel(expression: string): string {
+  if (expression.startsWith('now')) {
+    return expression;
+  }
+  const date = new Date(expression);
+  return isNaN(date.getTime()) ? expression : date.toLocaleString();
+}
+
+// ============================================================================
+// HISTOGRAM INTERVALS
+// ============================================================================
+
+/**
+ * Bucket interval for a date_histogram
+ */
+export interface HistogramInterval {
+  esInterval: string; // fixed_interval value, e.g. '30s', '1h'
+  ms: number;
+  label: string;
+}
+
+const NICE_INTERVALS: HistogramInterval[] = [
+  { esInterval: '1s', ms: 1000, label: 'second' },
+  { esInterval: '5s', ms: 5000, label: '5 seconds' },
+  { esInterval: '10s', ms: 10000, label: '10 seconds' },
+  { esInterval: '30s', ms: 30000, label: '30 seconds' },
+  { esInterval: '1m', ms: 60000, label: 'minute' },
+  { esInterval: '5m', ms: 300000, label: '5 minutes' },
+  { esInterval: '10m', ms: 600000, label: '10 minutes' },
+  { esInterval: '30m', ms: 1800000, label: '30 minutes' },
+  { esInterval: '1h', ms: 3600000, label: 'hour' },
+  { esInterval: '3h', ms: 10800000, label: '3 hours' },
+  { esInterval: '12h', ms: 43200000, label: '12 hours' },
+  { esInterval: '1d', ms: 86400000, label: 'day' },
+  { esInterval: '7d', ms: 604800000, label: 'week' },
+  { esInterval: '30d', ms: 2592000000, label: '30 days' },
+  { esInterval: '365d', ms: 31536000000, label: 'year' },
+];
+
+/**
+ * Picks the smallest nice interval giving at most `targetBuckets` buckets
+ * (Kibana's "Auto" interval)
+ */
+export function calculateAutoInterval(
+  bounds: { min: Date; max: Date },
+  targetBuckets: number = 50
+): HistogramInterval {
+  const span = Math.max(bounds.max.getTime() - bounds.min.getTime(), 1);
+  const interval = NICE_INTERVALS.find(i => span / i.ms <= targetBuckets);
+  return interval || NICE_INTERVALS[NICE_INTERVALS.length - 1];
+}
+
+/**
+ * Applies "+1d", "-15m", "/h" operations left to right
+ */
+function applyDateMath(anchor: Date, math: string, roundUp: boolean): Date | null {
+  const date = new Date(anchor.getTime());
+  let i = 0;
+
+  while (i < math.length) {
+    const op = math.charAt(i++);
+    if (op !== '+' && op !== '-' && op !== '/') {
+      return null;
+    }
+
+    let amount = 1;
+    if (op !== '/') {
+      const digits = /^\d*/.exec(math.substring(i))![0];
+      if (digits) {
+        amount = parseInt(digits, 10);
+        i += digits.length;
+      }
+    }
+
+    const unit = math.charAt(i++) as DateMathUnit;
+    if (!UNITS.includes(unit)) {
+      return null;
+    }
+
+    if (op === '/') {
+      roundDate(date, unit, roundUp);
+    } else {
+      addToDate(date, unit, op === '+' ? amount : -amount);
+    }
+  }
+
+  return date;
+}
+
+function addToDate(date: Date, unit: DateMathUnit, amount: number): void {
+  switch (unit) {
+    case 'y': date.setFullYear(date.getFullYear() + amount); break;
+    case 'M': date.setMonth(date.getMonth() + amount); break;
+    case 'w': date.setDate(date.getDate() + amount * 7); break;
+    case 'd': date.setDate(date.getDate() + amount); break;
+    case 'h':
+    case 'H': date.setHours(date.getHours() + amount); break;
+    case 'm': date.setMinutes(date.getMinutes() + amount); break;
+    case 's': date.setSeconds(date.getSeconds() + amount); break;
+  }
+}
+
+/**
+ * Rounds to the start of the unit, or to its last millisecond when rounding up
+ */
+function roundDate(date: Date, unit: DateMathUnit, roundUp: boolean): void {
+  switch (unit) {
+    case 'y': date.setMonth(0, 1); date.setHours(0, 0, 0, 0); break;
+    case 'M': date.setDate(1); date.setHours(0, 0, 0, 0); break;
+    case 'w':
+      // Weeks start on Monday (ISO 8601), like Elasticsearch
+      date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+      date.setHours(0, 0, 0, 0);
+      break;
+    case 'd': date.setHours(0, 0, 0, 0); break;
+    case 'h':
+    case 'H': date.setMinutes(0, 0, 0); break;
+    case 'm': date.setSeconds(0, 0); break;
+    case 's': date.setMilliseconds(0); break;
+  }
+
+  if (roundUp) {
+    addToDate(date, unit, 1);
+    date.setMilliseconds(date.getMilliseconds() - 1);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Test Cases for Document Utilities
+ *
+ * The source is shaped like a web-l hit.
+ */
+
+import { flattenDocument, formatDocumentValue, getDocumentValue } from './document-utils';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const SOURCE = {
+  '@timestamp': '2026-10-19T12:00:01.000Z',
+  siem_sourceip: '45.33.32.156',
+  siem_sourceip_geoip: {
+    country_name: 'United States',
+    location: { lat: 37.77, lon: -122.42 },
+  },
+  waf_action: 'blocked',
+  waf_rule_ids: [942100, 942190],
+  waf_http_url: null,
+};
+
+// ============================================================================
+// Test Cases
+// ============================================================================
+
+export function runAllTests() {
+  console.log('=== Running Document Utility Tests ===\n');
+
+  // Test 1: Flattening
+  testFlattenDocument();
+
+  // Test 2: Values by path
+  testDocumentValues();
+
+  console.log('\n=== Tests Complete ===');
+}
+
+// ============================================================================
+// Individual Test Cases
+// ============================================================================
+
+function testFlattenDocument() {
+  console.log('\n=== Flattening ===');
+
+  const flat = flattenDocument(SOURCE);
+  console.log('Paths:', Object.keys(flat));
+  console.log('Expected: @timestamp, siem_sourceip, siem_sourceip_geoip.country_name, siem_sourceip_geoip.location.lat, siem_sourceip_geoip.location.lon, waf_action, waf_rule_ids, waf_http_url');
+  console.log('Array kept as a leaf:', flat['waf_rule_ids']);
+  console.log('Expected: [ 942100, 942190 ]');
+
+  console.log('Empty source:', flattenDocument(null as any));
+  console.log('Expected: {}');
+}
+
+function testDocumentValues() {
+  console.log('\n=== Values by Path ===');
+
+  console.log('Nested:', getDocumentValue(SOURCE, 'siem_sourceip_geoip.location.lat'));
+  console.log('Expected: 37.77');
+  console.log('Missing:', getDocumentValue(SOURCE, 'siem_sourceip_geoip.city_name'), getDocumentValue(SOURCE, 'waf_action.keyword'));
+  console.log('Expected: undefined undefined');
+
+  console.log('Display:', [SOURCE.waf_http_url, SOURCE.waf_action, SOURCE.waf_rule_ids, SOURCE.siem_sourceip_geoip.location, 0].map(formatDocumentValue));
+  console.log('Expected: [ \'-\', \'blocked\', \'[942100,942190]\', \'{"lat":37.77,"lon":-122.42}\', \'0\' ]');
+}
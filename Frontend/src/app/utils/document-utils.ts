@@ -0,0 +1,61 @@
+/**
+ * Document Utilities
+ *
+ * Helpers for Elasticsearch `_source` objects, shared by the data table,
+ * the field sidebar and the document views.
+ */
+
+/**
+ * Hit as returned by the /api/elastic search routes
+ */
+export interface SearchHit {
+  _id: string;
+  _index: string;
+  _source: { [key: string]: any };
+  sort?: any[];
+  highlight?: { [field: string]: string[] };
+}
+
+/**
+ * Flattens nested objects into dotted paths ({ host: { name } } -> 'host.name')
+ *
+ * Arrays are leaf values, like in the Elasticsearch field list.
+ */
+export function flattenDocument(source: { [key: string]: any }, prefix: string = ''): { [path: string]: any } {
+  const result: { [path: string]: any } = {};
+  Object.keys(source || {}).forEach(key => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const value = source[key];
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(result, flattenDocument(value, path));
+    } else {
+      result[path] = value;
+    }
+  });
+  return result;
+}
+
+/**
+ * Value at a dotted path (undefined when missing)
+ */
+export function getDocumentValue(source: { [key: string]: any }, path: string): any {
+  let value: any = source;
+  for (const part of path.split('.')) {
+    if (value && typeof value === 'object' && part in value) {
+      value = value[part];
+    } else {
+      return undefined;
+    }
+  }
+  return value;
+}
+
+/**
+ * Display text of a flattened value (objects and arrays as JSON)
+ */
+export function formatDocumentValue(value: any): string {
+  if (value === null || value === undefined) {
+    return '-';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,54 @@
+/**
+ * Test Cases for Field Formatter Utilities
+ */
+
+import { formatFieldValue } from './field-formatters';
+
+// ============================================================================
+// Test Cases
+// ============================================================================
+
+export function runAllTests() {
+  console.log('=== Running Field Formatter Tests ===\n');
+
+  // Test 1: Numbers and bytes
+  testNumbers();
+
+  // Test 2: Text, JSON and dates
+  testTextValues();
+
+  console.log('\n=== Tests Complete ===');
+}
+
+// ============================================================================
+// Individual Test Cases
+// ============================================================================
+
+function testNumbers() {
+  console.log('\n=== Numbers and Bytes ===');
+
+  console.log('Number:', formatFieldValue(1234567.5, 'number'), '|', formatFieldValue('42', 'number'), '|', formatFieldValue('GET', 'number'));
+  console.log('Expected: 1,234,567.5 | 42 | GET');
+
+  console.log('Bytes:', [512, 2048, 1572864, -3221225472, 'n/a'].map(value => formatFieldValue(value, 'bytes')));
+  console.log("Expected: [ '512 B', '2.0 KB', '1.5 MB', '-3.0 GB', 'n/a' ]");
+}
+
+function testTextValues() {
+  console.log('\n=== Text Values ===');
+
+  console.log('Missing:', formatFieldValue(null, 'date'), formatFieldValue(undefined), formatFieldValue('-', 'json'));
+  console.log('Expected: - - -');
+
+  const url = 'https://example.com/login?redirect=%2Fadmin%2Fsettings%2Fusers&session=expired';
+  console.log('Truncate:', formatFieldValue(url, 'truncate'));
+  console.log('Expected: the first 50 characters followed by …');
+
+  console.log('JSON:', formatFieldValue('{"rule":942100,"tags":["sqli"]}', 'json'));
+  console.log('Expected: the object indented over 6 lines');
+  console.log('Invalid JSON and objects:', formatFieldValue('{oops', 'json'), '|', formatFieldValue({ a: 1 }));
+  console.log('Expected: {oops | {"a":1}');
+
+  console.log('Date:', formatFieldValue('2026-10-19T12:00:00Z', 'date').includes('2026'), '|', formatFieldValue('not a date', 'date'));
+  console.log('Expected: true | not a date');
+}
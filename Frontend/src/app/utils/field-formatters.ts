@@ -0,0 +1,92 @@
+/**
+ * Field Formatter Utilities
+ *
+ * Per-column display formats for the data table (Kibana field formatters).
+ * Formatters only change how a value is shown, never the stored value.
+ */
+
+export type FieldFormatter = 'default' | 'date' | 'number' | 'bytes' | 'json' | 'url' | 'truncate';
+
+export const FIELD_FORMATTERS: Array<{ id: FieldFormatter; label: string }> = [
+  { id: 'default', label: 'Default' },
+  { id: 'date', label: 'Date' },
+  { id: 'number', label: 'Number' },
+  { id: 'bytes', label: 'Bytes' },
+  { id: 'json', label: 'JSON' },
+  { id: 'url', label: 'URL' },
+  { id: 'truncate', label: 'Truncated string' },
+];
+
+const TRUNCATE_LENGTH = 50;
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB', 'PB'];
+
+/**
+ * Formats a cell value
+ *
+ * Values that do not fit the formatter (e.g. text in a number column) are
+ * shown as they are.
+ */
+export function formatFieldValue(value: any, formatter: FieldFormatter = 'default'): string {
+  if (value === null || value === undefined || value === '-') {
+    return '-';
+  }
+
+  switch (formatter) {
+    case 'date':
+      return formatDate(value);
+    case 'number':
+      return isNumeric(value) ? Number(value).toLocaleString('en-US') : String(value);
+    case 'bytes':
+      return isNumeric(value) ? formatBytes(Number(value)) : String(value);
+    case 'json':
+      return formatJson(value);
+    case 'truncate':
+      const text = String(value);
+      return text.length > TRUNCATE_LENGTH ? `${text.substring(0, TRUNCATE_LENGTH)}…` : text;
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+function formatDate(value: any): string {
+  const date = new Date(isNumeric(value) ? Number(value) : value);
+  if (isNaN(date.getTime())) {
+    return String(value);
+  }
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false
+  });
+}
+
+function formatBytes(bytes: number): string {
+  let unit = 0;
+  let size = Math.abs(bytes);
+  while (size >= 1024 && unit < BYTE_UNITS.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  const rounded = unit === 0 ? String(size) : size.toFixed(1);
+  return `${bytes < 0 ? '-' : ''}${rounded} ${BYTE_UNITS[unit]}`;
+}
+
+function formatJson(value: any): string {
+  // getFieldValue already stringifies objects
+  if (typeof value === 'string') {
+    try {
+      return JSON.stringify(JSON.parse(value), null, 2);
+    } catch {
+      return value;
+    }
+  }
+  return JSON.stringify(value, null, 2);
+}
+
+function isNumeric(value: any): boolean {
+  return value !== '' && typeof value !== 'boolean' && !isNaN(Number(value));
+}
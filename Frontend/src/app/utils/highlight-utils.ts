@@ -0,0 +1,130 @@
+/**
+ * Hit Highlighting Utilities
+ *
+ * Builds the Elasticsearch `highlight` request for the fields of a query and
+ * turns the returned fragments into safe HTML (Kibana-style): unique tags
+ * mark the matches, the text is HTML-escaped, then the tags become <mark>.
+ */
+
+export const HIGHLIGHT_PRE_TAG = '@kibana-highlighted-field@';
+export const HIGHLIGHT_POST_TAG = '@/kibana-highlighted-field@';
+
+// Leaf query parameters that are not field names
+const NON_FIELD_KEYS = ['boost', '_name'];
+
+/**
+ * Fields referenced by the positive clauses of a query
+ *
+ * must_not clauses are skipped: their matches are never in the results.
+ * Range / exists / geo clauses have nothing to highlight.
+ */
+export function getHighlightFields(queryDSL: any): string[] {
+  const fields = new Set<string>();
+  collectFields(queryDSL?.query ?? queryDSL, fields);
+  return [...fields];
+}
+
+/**
+ * `highlight` section of a search request, or undefined when the query has
+ * no highlightable clause
+ *
+ * number_of_fragments: 0 returns the whole field value with the matches
+ * tagged, so cells keep their full content.
+ */
+export function buildHighlightRequest(queryDSL: any): any {
+  const fields = getHighlightFields(queryDSL);
+  if (fields.length === 0) {
+    return undefined;
+  }
+
+  const highlightFields: { [field: string]: any } = {};
+  fields.forEach(field => highlightFields[field] = {});
+
+  return {
+    pre_tags: [HIGHLIGHT_PRE_TAG],
+    post_tags: [HIGHLIGHT_POST_TAG],
+    number_of_fragments: 0,
+    require_field_match: true,
+    fields: highlightFields
+  };
+}
+
+/**
+ * Escapes a highlight fragment and wraps the matches in <mark>
+ */
+export function highlightToHtml(fragment: string): string {
+  return escapeHtml(fragment)
+    .split(HIGHLIGHT_PRE_TAG).join('<mark>')
+    .split(HIGHLIGHT_POST_TAG).join('</mark>');
+}
+
+function collectFields(node: any, fields: Set<string>): void {
+  if (!node || typeof node !== 'object') {
+    return;
+  }
+  if (Array.isArray(node)) {
+    node.forEach(child => collectFields(child, fields));
+    return;
+  }
+
+  Object.keys(node).forEach(type => {
+    const body = node[type];
+    if (!body || typeof body !== 'object') {
+      return;
+    }
+
+    switch (type) {
+      case 'bool':
+        collectFields(body.must, fields);
+        collectFields(body.filter, fields);
+        collectFields(body.should, fields);
+        break;
+
+      case 'match':
+      case 'match_phrase':
+      case 'match_phrase_prefix':
+      case 'term':
+      case 'terms':
+      case 'prefix':
+      case 'wildcard':
+      case 'regexp':
+      case 'fuzzy':
+        Object.keys(body)
+          .filter(key => !NON_FIELD_KEYS.includes(key))
+          .forEach(field => fields.add(field));
+        break;
+
+      case 'multi_match':
+      case 'query_string':
+      case 'simple_query_string':
+        // Without explicit fields the query runs on all fields
+        const queryFields: string[] = body.fields || [body.default_field || '*'];
+        queryFields.forEach(field => fields.add(field.split('^')[0]));
+        break;
+
+      case 'constant_score':
+        collectFields(body.filter, fields);
+        break;
+
+      case 'dis_max':
+        collectFields(body.queries, fields);
+        break;
+
+      case 'nested':
+        collectFields(body.query, fields);
+        break;
+    }
+  });
+}
+
+/**
+ * Escapes text for use in HTML markup
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
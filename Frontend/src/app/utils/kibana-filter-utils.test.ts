@@ -6,9 +6,18 @@
  */
 
 import {
+  addNestedGroup,
+  applyGroupMetadata,
   buildEsQueryFromFilters,
+  buildEsQueryFromGroupedFilters,
   buildPreviewString,
+  decompileEsQuery,
+  FilterGroupDefinition,
+  GroupedFilter,
+  groupFilters,
+  moveFilter,
   SimpleFilter,
+  splitPinnedFilters,
 } from './kibana-filter-utils';
 
 // ============================================================================
@@ -58,6 +67,27 @@ export function runAllTests() {
   // Test 9: Preview String Generation
   testPreviewStrings();
   
+  // Test 10: Query DSL Decompiler
+  testQueryDecompiler();
+
+  // Test 11: Pinned (Global) Filters
+  testPinnedFilters();
+
+  // Test 12: Excluded Pills and Disabled Group Members
+  testNegateAndDisable();
+
+  // Test 13: Nested Groups
+  testNestedGroups();
+
+  // Test 14: Reordering and Non-Adjacent Grouping
+  testReorderAndGroup();
+
+  // Test 15: Custom Query DSL Filters
+  testCustomDslFilters();
+
+  // Test 16: Drawn Map Area (Geo) Filters
+  testGeoAreaFilters();
+  
   console.log('\n=== Tests Complete ===');
 }
 
@@ -252,6 +282,255 @@ function testPreviewStrings() {
   console.log('Expected: "NOT status: deleted AND type: user"');
 }
 
+function testQueryDecompiler() {
+  console.log('\n=== Query DSL Decompiler Tests ===');
+
+  // Test 1: Round trip of builder output
+  const filters: GroupedFilter[] = [
+    { field: 'waf_action.keyword', operator: 'is', value: 'blocked' },
+    { field: 'verb', operator: 'is_not', value: 'GET', logic: 'AND', groupMeta: { groupId: 'g1' } },
+    { field: 'bytes', operator: 'range', minValue: 10, minOperator: 'gte', logic: 'OR', groupMeta: { groupId: 'g1' } },
+    { field: 'host', operator: 'does_not_exist', logic: 'AND' },
+    { field: 'url', operator: 'wildcard', value: '*admin*', logic: 'OR' },
+  ];
+  const groups: FilterGroupDefinition[] = [{ id: 'g1', type: 'OR', filterIndices: [1, 2] }];
+  const query = buildEsQueryFromGroupedFilters(filters, groups);
+  const decompiled = decompileEsQuery(query);
+  const rebuilt = buildEsQueryFromGroupedFilters(decompiled.filters, decompiled.groups);
+  expectQueryStructure(rebuilt, query, 'Decompiler Round Trip');
+  console.log('Decompiled filters:', JSON.stringify(decompiled.filters, null, 2));
+  console.log('Expected: the same 5 filters with one OR group over indices [1, 2]');
+
+  // Test 2: Unsupported fragments stay as custom DSL
+  const kibanaQuery = {
+    bool: {
+      filter: [
+        { match_phrase: { message: 'login failed' } },
+        { terms: { 'siem_sourceip.keyword': ['10.0.0.1', '10.0.0.2'] } },
+      ],
+      must_not: [{ exists: { field: 'waf_http_session_id' } }],
+    },
+  };
+  const kibanaDecompiled = decompileEsQuery(kibanaQuery);
+  console.log('Kibana query filters:', JSON.stringify(kibanaDecompiled.filters, null, 2));
+  console.log('Expected: custom (match_phrase), is_one_of, does_not_exist');
+
+  // Test 3: A pasted search body keeps only its query
+  const searchBody = { query: query.query, size: 10, sort: [{ '@timestamp': 'desc' }], _source: ['url'] };
+  const bodyDecompiled = decompileEsQuery(searchBody);
+  const bodyRebuilt = buildEsQueryFromGroupedFilters(bodyDecompiled.filters, bodyDecompiled.groups);
+  expectQueryStructure(bodyRebuilt, query, 'Decompiler Search Body');
+  console.log('Ignored keys:', bodyDecompiled.ignoredKeys);
+  console.log('Expected: [ \'size\', \'sort\', \'_source\' ]');
+}
+
+function testPinnedFilters() {
+  console.log('\n=== Pinned Filter Tests ===');
+
+  // Pinned filter in the middle of an OR chain is ANDed with the app query
+  const filters: GroupedFilter[] = [
+    { field: 'status', operator: 'is', value: 'active' },
+    { field: 'waf_action.keyword', operator: 'is', value: 'blocked', logic: 'OR', $state: { store: 'globalState' } },
+    { field: 'status', operator: 'is', value: 'pending', logic: 'OR' },
+  ];
+  const query = buildEsQueryFromGroupedFilters(filters, []);
+  expectQueryStructure(query, {
+    query: {
+      bool: {
+        must: [
+          { term: { 'waf_action.keyword': 'blocked' } },
+          {
+            bool: {
+              should: [
+                { match: { status: 'active' } },
+                { match: { status: 'pending' } },
+              ],
+              minimum_should_match: 1,
+            },
+          },
+        ],
+      },
+    },
+  }, 'Pinned filter ANDed with app filters');
+
+  // Group indices are remapped around pinned filters
+  const grouped: GroupedFilter[] = [
+    { field: 'host', operator: 'exists', $state: { store: 'globalState' } },
+    { field: 'verb', operator: 'is', value: 'GET', logic: 'AND', groupMeta: { groupId: 'g1' } },
+    { field: 'verb', operator: 'is', value: 'POST', logic: 'OR', groupMeta: { groupId: 'g1' } },
+  ];
+  const groups: FilterGroupDefinition[] = [{ id: 'g1', type: 'OR', filterIndices: [1, 2] }];
+  const split = splitPinnedFilters(grouped, groups);
+  console.log('App groups:', JSON.stringify(split.appGroups));
+  console.log('Expected: [{"id":"g1","type":"OR","filterIndices":[0,1]}]');
+}
+
+function testNegateAndDisable() {
+  console.log('\n=== Negate / Disable Tests ===');
+
+  // "Exclude results" on a pill becomes must_not; on is_not it cancels out
+  const filters: GroupedFilter[] = [
+    { field: 'waf_action.keyword', operator: 'is', value: 'blocked', negate: true },
+    { field: 'verb', operator: 'is_not', value: 'GET', logic: 'AND', negate: true },
+  ];
+  const query = buildEsQueryFromGroupedFilters(filters, []);
+  expectQueryStructure(query, {
+    query: {
+      bool: {
+        must: [
+          { bool: { must_not: [{ term: { 'waf_action.keyword': 'blocked' } }] } },
+          { match: { verb: 'GET' } },
+        ],
+      },
+    },
+  }, 'Negated pills');
+  console.log('Preview:', buildPreviewString(filters));
+  console.log('Expected: "NOT waf_action.keyword: blocked AND verb: GET"');
+
+  // A disabled filter before a group does not shift the group
+  const grouped: GroupedFilter[] = [
+    { field: 'host', operator: 'exists', disabled: true },
+    { field: 'status', operator: 'is', value: 'active', logic: 'AND', groupMeta: { groupId: 'g1' } },
+    { field: 'status', operator: 'is', value: 'pending', logic: 'OR', groupMeta: { groupId: 'g1' } },
+    { field: 'type', operator: 'is', value: 'user', logic: 'AND' },
+  ];
+  const groups: FilterGroupDefinition[] = [{ id: 'g1', type: 'OR', filterIndices: [1, 2] }];
+  expectQueryStructure(buildEsQueryFromGroupedFilters(grouped, groups), {
+    query: {
+      bool: {
+        must: [
+          {
+            bool: {
+              should: [
+                { match: { status: 'active' } },
+                { match: { status: 'pending' } },
+              ],
+              minimum_should_match: 1,
+            },
+          },
+          { match: { type: 'user' } },
+        ],
+      },
+    },
+  }, 'Disabled filter before a group');
+}
+
+function testNestedGroups() {
+  console.log('\n=== Nested Group Tests ===');
+
+  // (A AND (B OR C)) OR D
+  let groups: FilterGroupDefinition[] = addNestedGroup([], [0, 1, 2], 'AND', 'outer')!;
+  groups = addNestedGroup(groups, [1, 2], 'OR', 'inner')!;
+  console.log('Groups:', JSON.stringify(groups));
+  console.log('Expected: inner has parentGroupId "outer"');
+
+  const filters = applyGroupMetadata<GroupedFilter>([
+    { field: 'a', operator: 'is', value: 'x' },
+    { field: 'b', operator: 'is', value: 'y', logic: 'AND' },
+    { field: 'c', operator: 'is', value: 'z', logic: 'OR' },
+    { field: 'd', operator: 'is', value: 'w', logic: 'OR' },
+  ], groups);
+
+  expectQueryStructure(buildEsQueryFromGroupedFilters(filters, groups), {
+    query: {
+      bool: {
+        should: [
+          {
+            bool: {
+              must: [
+                { match: { a: 'x' } },
+                {
+                  bool: {
+                    should: [{ match: { b: 'y' } }, { match: { c: 'z' } }],
+                    minimum_should_match: 1,
+                  },
+                },
+              ],
+            },
+          },
+          { match: { d: 'w' } },
+        ],
+        minimum_should_match: 1,
+      },
+    },
+  }, 'Nested group: (a AND (b OR c)) OR d');
+
+  // A selection crossing a group boundary is rejected
+  console.log('Crossing selection:', addNestedGroup(groups, [2, 3], 'AND', 'bad'));
+  console.log('Expected: null');
+}
+
+function testReorderAndGroup() {
+  console.log('\n=== Reorder / Group Tests ===');
+
+  const filters: GroupedFilter[] = ['a', 'b', 'c', 'd', 'e'].map(field => ({ field, operator: 'exists' }));
+  const groups: FilterGroupDefinition[] = [{ id: 'g1', type: 'OR', filterIndices: [1, 2, 3] }];
+
+  // Dropped inside a group: joins it
+  const into = moveFilter(filters, groups, 0, 2);
+  console.log('Order:', into.filters.map(f => f.field).join(','), 'Groups:', JSON.stringify(into.groups));
+  console.log('Expected: b,c,a,d,e [{"id":"g1","type":"OR","filterIndices":[0,1,2,3]}]');
+
+  // Dragged out of a group: the group shrinks
+  const out = moveFilter(filters, groups, 2, 4);
+  console.log('Order:', out.filters.map(f => f.field).join(','), 'Groups:', JSON.stringify(out.groups));
+  console.log('Expected: a,b,d,e,c [{"id":"g1","type":"OR","filterIndices":[1,2]}]');
+
+  // Non-adjacent selection: moved next to the first selected filter
+  const grouped = groupFilters(filters, [], [4, 0, 2], 'OR', 'g2')!;
+  console.log('Order:', grouped.filters.map(f => f.field).join(','), 'Groups:', JSON.stringify(grouped.groups));
+  console.log('Expected: a,c,e,b,d [{"id":"g2","type":"OR","filterIndices":[0,1,2]}]');
+}
+
+function testCustomDslFilters() {
+  console.log('\n=== Custom DSL Tests ===');
+
+  const filters: SimpleFilter[] = [
+    { field: 'status', operator: 'is', value: 'active', logic: 'AND' },
+    {
+      field: '',
+      operator: 'custom',
+      value: { range: { 'response.time': { gte: 500 } } },
+      alias: 'Slow responses',
+      negate: true,
+    },
+  ];
+
+  const query = buildEsQueryFromFilters(filters);
+  console.log('Custom DSL:', JSON.stringify(query));
+  console.log('Expected: must_not holds the range query as-is');
+
+  // The pill label replaces the raw DSL in the preview
+  console.log('Preview:', buildPreviewString(filters));
+  console.log('Expected: "status: active AND NOT DSL: Slow responses"');
+}
+
+function testGeoAreaFilters() {
+  console.log('\n=== Geo Area Tests ===');
+
+  const filters: SimpleFilter[] = [
+    {
+      field: 'siem_sourceip_geoip.location',
+      operator: 'geo_within',
+      value: { type: 'rectangle', points: [{ lat: 60, lon: -10 }, { lat: 35, lon: 30 }] },
+      logic: 'AND',
+    },
+    {
+      field: 'siem_sourceip_geoip.location',
+      operator: 'geo_within',
+      value: { type: 'polygon', points: [{ lat: 10, lon: 100 }, { lat: 10, lon: 120 }, { lat: -10, lon: 110 }] },
+      logic: 'OR',
+    },
+  ];
+
+  const query = buildEsQueryFromFilters(filters);
+  console.log('Geo areas:', JSON.stringify(query));
+  console.log('Expected: geo_bounding_box (top_left/bottom_right) OR geo_shape polygon closed on its first point');
+
+  console.log('Preview:', buildPreviewString(filters));
+  console.log('Expected: "siem_sourceip_geoip.location within drawn area OR siem_sourceip_geoip.location within drawn area"');
+}
+
 // ============================================================================
 // Edge Cases
 // ============================================================================
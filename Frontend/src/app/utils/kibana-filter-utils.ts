@@ -38,10 +38,16 @@ export interface KibanaFilter {
   };
   query?: any;
   $state?: {
-    store?: string;
+    store?: FilterStateStore;
   };
 }
 
+/**
+ * Where a filter lives (Kibana's FilterStateStore): app filters belong to
+ * the current view, global (pinned) filters follow the user across pages
+ */
+export type FilterStateStore = 'appState' | 'globalState';
+
 /**
  * Filter AST Node - Internal representation for grouping
  * 
@@ -69,10 +75,15 @@ export interface SimpleFilter {
   value?: any;
   logic?: 'AND' | 'OR';
   disabled?: boolean;
+  negate?: boolean; // Exclude matching documents (inverts the operator)
+  alias?: string; // Label shown instead of the filter text (Kibana's meta.alias)
   minValue?: any;
   maxValue?: any;
   minOperator?: string;
   maxOperator?: string;
+  $state?: {
+    store?: FilterStateStore;
+  };
 }
 
 // ============================================================================
@@ -138,16 +149,19 @@ export interface GroupAwareASTNode {
 function toKibanaFilter(simpleFilter: SimpleFilter): KibanaFilter {
   const { field, operator, value, minValue, maxValue, minOperator, maxOperator } = simpleFilter;
 
-  // Build the Elasticsearch query for this filter
-  const query = buildSingleFilterQuery(simpleFilter);
+  // Like Kibana, the query holds the positive clause and meta.negate wraps it
+  // in must_not when the AST is converted (otherwise it would be negated twice)
+  const query = buildSingleFilterQuery({ ...simpleFilter, operator: getPositiveOperator(operator) });
 
   return {
+    $state: { store: simpleFilter.$state?.store || 'appState' },
     meta: {
-      type: 'phrase', // Default type, can be 'phrase', 'range', 'exists', etc.
+      type: operator === 'custom' ? 'custom' : 'phrase', // Default type, can be 'phrase', 'range', 'exists', etc.
       field,
       params: { query: value },
-      negate: isNegatedOperator(operator),
+      negate: isFilterNegated(simpleFilter),
       disabled: simpleFilter.disabled || false,
+      alias: simpleFilter.alias,
     },
     query,
   };
@@ -237,11 +251,62 @@ function buildSingleFilterQuery(filter: SimpleFilter): any {
       if (!value) return null;
       return { query_string: { default_field: field, query: value } };
 
+    case 'custom':
+      // Raw Query DSL kept as-is (e.g. fragments the decompiler cannot express)
+      return value && typeof value === 'object' ? value : null;
+
+    case 'geo_within':
+      return buildGeoAreaQuery(field, value) || { match_all: {} };
+
     default:
       return null;
   }
 }
 
+/**
+ * Query of an area drawn on the map ({ type, points }): geo_bounding_box
+ * for a rectangle (top-left and bottom-right corners), geo_shape for a
+ * polygon (closed ring of [lon, lat] pairs)
+ *
+ * @returns null when the area is incomplete
+ */
+export function buildGeoAreaQuery(
+  field: string,
+  area: { type: string; points: Array<{ lat: number; lon: number }> } | null | undefined
+): any | null {
+  const points = area?.points || [];
+
+  if (area?.type === 'rectangle' && points.length === 2) {
+    return {
+      geo_bounding_box: {
+        [field]: {
+          top_left: { lat: points[0].lat, lon: points[0].lon },
+          bottom_right: { lat: points[1].lat, lon: points[1].lon }
+        }
+      }
+    };
+  }
+
+  if (area?.type === 'polygon' && points.length >= 3) {
+    const ring = [...points, points[0]].map(point => [point.lon, point.lat]);
+    return {
+      geo_shape: {
+        [field]: { shape: { type: 'polygon', coordinates: [ring] }, relation: 'within' }
+      }
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Checks if a filter excludes matching documents: a negated operator
+ * (is_not, ...) or a pill set to "exclude results", but not both
+ */
+export function isFilterNegated(filter: SimpleFilter): boolean {
+  return isNegatedOperator(filter.operator) !== !!filter.negate;
+}
+
 /**
  * Checks if operator is negated
  */
@@ -249,6 +314,18 @@ function isNegatedOperator(operator: string): boolean {
   return operator === 'is_not' || operator === 'does_not_exist' || operator === 'is_not_one_of';
 }
 
+/**
+ * Maps a negated operator to its positive counterpart
+ */
+function getPositiveOperator(operator: string): string {
+  const map: { [key: string]: string } = {
+    is_not: 'is',
+    is_not_one_of: 'is_one_of',
+    does_not_exist: 'exists',
+  };
+  return map[operator] || operator;
+}
+
 // ============================================================================
 // STEP 2: BUILD FILTER AST FROM FILTERS (Kibana's Internal Structure)
 // ============================================================================
@@ -649,9 +726,9 @@ export function buildPreviewString(filters: SimpleFilter[]): string {
 /**
  * Formats a single filter as text
  */
-function formatFilterText(filter: SimpleFilter): string {
+export function formatFilterText(filter: SimpleFilter): string {
   const { field, operator, value, minValue, maxValue, minOperator, maxOperator } = filter;
-  const isNegated = isNegatedOperator(operator);
+  const isNegated = isFilterNegated(filter);
 
   let filterText = '';
 
@@ -685,6 +762,12 @@ function formatFilterText(filter: SimpleFilter): string {
     case 'query_string':
       filterText = `${field}: query_string "${value || '-'}"`;
       break;
+    case 'custom':
+      filterText = `DSL: ${filter.alias || JSON.stringify(value)}`;
+      break;
+    case 'geo_within':
+      filterText = `${field} within drawn area`;
+      break;
     default:
       filterText = `${field}: ${value || '-'}`;
   }
@@ -847,7 +930,31 @@ export function buildGroupedAST(
   }
 
   // Build the grouped AST
-  return buildGroupedASTRecursive(enabledFilters, groups, 0, enabledFilters.length - 1);
+  const enabledGroups = remapGroupsToEnabled(filters, groups);
+  return buildGroupedASTRecursive(enabledFilters, enabledGroups, 0, enabledFilters.length - 1);
+}
+
+/**
+ * Remaps group indices to positions in the enabled filter list (groups left
+ * with fewer than two enabled filters are dropped)
+ */
+function remapGroupsToEnabled(
+  filters: GroupedFilter[],
+  groups: FilterGroupDefinition[]
+): FilterGroupDefinition[] {
+  const enabledIndexMap = new Map<number, number>();
+  filters.forEach((filter, index) => {
+    if (!filter.disabled) {
+      enabledIndexMap.set(index, enabledIndexMap.size);
+    }
+  });
+
+  return pruneGroups((groups || []).map(group => ({
+    ...group,
+    filterIndices: group.filterIndices
+      .filter(idx => enabledIndexMap.has(idx))
+      .map(idx => enabledIndexMap.get(idx)!)
+  })));
 }
 
 /**
@@ -870,11 +977,12 @@ function buildGroupedASTRecursive(
     };
   }
 
-  // Find groups within this range
+  // Find top-level groups within this range (nested groups are built by
+  // their parent's group node)
   const groupsInRange = groups.filter(g => {
     const groupStart = Math.min(...g.filterIndices);
     const groupEnd = Math.max(...g.filterIndices);
-    return groupStart >= startIdx && groupEnd <= endIdx;
+    return groupStart >= startIdx && groupEnd <= endIdx && !getParentGroup(groups, g);
   });
 
   if (groupsInRange.length === 0) {
@@ -883,7 +991,7 @@ function buildGroupedASTRecursive(
   }
 
   // Process with groups
-  return buildASTWithGroups(filters, groupsInRange, startIdx, endIdx);
+  return buildASTWithGroups(filters, groupsInRange, startIdx, endIdx, groups);
 }
 
 /**
@@ -958,7 +1066,8 @@ function buildASTWithGroups(
   filters: GroupedFilter[],
   groups: FilterGroupDefinition[],
   startIdx: number,
-  endIdx: number
+  endIdx: number,
+  allGroups: FilterGroupDefinition[] = groups
 ): GroupAwareASTNode {
   // Sort groups by their start position
   const sortedGroups = [...groups].sort((a, b) => {
@@ -1015,7 +1124,7 @@ function buildASTWithGroups(
   if (segments.length === 1) {
     const seg = segments[0];
     if (seg.type === 'group' && seg.group) {
-      return buildGroupNode(filters, seg.group);
+      return buildGroupNode(filters, seg.group, allGroups);
     } else {
       return buildFlatAST(filters, seg.startIdx, seg.endIdx);
     }
@@ -1023,7 +1132,7 @@ function buildASTWithGroups(
 
   // Combine segments
   let result: GroupAwareASTNode = segments[0].type === 'group' && segments[0].group
-    ? buildGroupNode(filters, segments[0].group)
+    ? buildGroupNode(filters, segments[0].group, allGroups)
     : buildFlatAST(filters, segments[0].startIdx, segments[0].endIdx);
 
   for (let i = 1; i < segments.length; i++) {
@@ -1031,7 +1140,7 @@ function buildASTWithGroups(
     const operator = filters[seg.startIdx].logic || 'AND';
 
     const nextNode: GroupAwareASTNode = seg.type === 'group' && seg.group
-      ? buildGroupNode(filters, seg.group)
+      ? buildGroupNode(filters, seg.group, allGroups)
       : buildFlatAST(filters, seg.startIdx, seg.endIdx);
 
     if (operator === 'OR') {
@@ -1056,18 +1165,31 @@ function buildASTWithGroups(
 }
 
 /**
- * Builds a group node from a group definition
+ * Builds a group node from a group definition. Sub-groups (groups whose
+ * parentGroupId is this group) become single child nodes, so
+ * (A AND (B OR C)) keeps its nesting.
  */
 function buildGroupNode(
   filters: GroupedFilter[],
-  group: FilterGroupDefinition
+  group: FilterGroupDefinition,
+  allGroups: FilterGroupDefinition[] = []
 ): GroupAwareASTNode {
-  const groupFilters = group.filterIndices
+  const subGroups = allGroups.filter(g => g.id !== group.id && g.parentGroupId === group.id);
+  const builtSubGroups = new Set<string>();
+  const groupFilters: GroupAwareASTNode[] = [];
+
+  [...group.filterIndices]
+    .sort((a, b) => a - b)
     .filter(idx => idx < filters.length)
-    .map(idx => ({
-      type: 'filter' as const,
-      filter: toKibanaFilter(filters[idx])
-    }));
+    .forEach(idx => {
+      const subGroup = subGroups.find(g => g.filterIndices.includes(idx));
+      if (!subGroup) {
+        groupFilters.push({ type: 'filter', filter: toKibanaFilter(filters[idx]) });
+      } else if (!builtSubGroups.has(subGroup.id)) {
+        builtSubGroups.add(subGroup.id);
+        groupFilters.push(buildGroupNode(filters, subGroup, allGroups));
+      }
+    });
 
   if (groupFilters.length === 0) {
     return { type: 'filter', filter: { meta: {} } };
@@ -1207,6 +1329,10 @@ export function groupedAstToEsQuery(ast: GroupAwareASTNode | null): any {
 
 /**
  * Main function: Builds ES Query DSL from grouped filters
+ *
+ * Pinned (global) filters are ANDed with the query built from the app
+ * filters, whatever their position or logic operator - like Kibana, where
+ * global and app filters are merged before the query is built.
  */
 export function buildEsQueryFromGroupedFilters(
   filters: GroupedFilter[],
@@ -1220,10 +1346,17 @@ export function buildEsQueryFromGroupedFilters(
     };
   }
 
+  const { pinned, app, appGroups } = splitPinnedFilters(filters, groups);
+
   // Build grouped AST
-  const ast = buildGroupedAST(filters, groups);
+  const ast = buildGroupedAST(app, appGroups);
 
-  if (!ast) {
+  const pinnedQueries = pinned
+    .filter(f => !f.disabled)
+    .map(f => groupedAstToEsQuery({ type: 'filter', filter: toKibanaFilter(f) }))
+    .filter(q => !isEmptyQuery(q));
+
+  if (!ast && pinnedQueries.length === 0) {
     return {
       query: {
         match_all: {}
@@ -1232,13 +1365,786 @@ export function buildEsQueryFromGroupedFilters(
   }
 
   // Convert AST to ES query
-  const esQuery = groupedAstToEsQuery(ast);
+  const appQuery = groupedAstToEsQuery(ast);
+  const must = isEmptyQuery(appQuery) ? pinnedQueries : [...pinnedQueries, appQuery];
 
   return {
-    query: esQuery
+    query: must.length === 1 ? must[0] : { bool: { must } }
   };
 }
 
+// ============================================================================
+// PINNED (GLOBAL) FILTERS
+// ============================================================================
+
+/**
+ * Checks if a filter is pinned (stored in the global state)
+ */
+export function isPinnedFilter(filter: SimpleFilter): boolean {
+  return filter.$state?.store === 'globalState';
+}
+
+/**
+ * Separates pinned filters from app filters. Group indices are remapped to
+ * positions in the app filter list; groups left with fewer than two app
+ * filters are dropped.
+ */
+export function splitPinnedFilters(
+  filters: GroupedFilter[],
+  groups: FilterGroupDefinition[]
+): { pinned: GroupedFilter[]; app: GroupedFilter[]; appGroups: FilterGroupDefinition[] } {
+  const pinned: GroupedFilter[] = [];
+  const app: GroupedFilter[] = [];
+  const appIndexMap = new Map<number, number>();
+
+  filters.forEach((filter, index) => {
+    if (isPinnedFilter(filter)) {
+      pinned.push(filter);
+    } else {
+      appIndexMap.set(index, app.length);
+      app.push(filter);
+    }
+  });
+
+  const appGroups = pruneGroups((groups || []).map(group => ({
+    ...group,
+    filterIndices: group.filterIndices
+      .filter(idx => appIndexMap.has(idx))
+      .map(idx => appIndexMap.get(idx)!)
+  })));
+
+  return { pinned, app, appGroups };
+}
+
+/**
+ * Puts pinned filters before the app filters (Kibana's display order) and
+ * shifts the app group indices accordingly
+ */
+export function mergePinnedFilters(
+  pinned: GroupedFilter[],
+  app: GroupedFilter[],
+  appGroups: FilterGroupDefinition[]
+): { filters: GroupedFilter[]; groups: FilterGroupDefinition[] } {
+  return {
+    filters: [
+      ...pinned.map(filter => ({ ...filter, groupMeta: undefined, $state: { store: 'globalState' as FilterStateStore } })),
+      ...app
+    ],
+    groups: appGroups.map(group => ({
+      ...group,
+      filterIndices: group.filterIndices.map(idx => idx + pinned.length)
+    }))
+  };
+}
+
+/**
+ * Pins or unpins a filter. Pinned filters are always ANDed with the rest of
+ * the query, so pinning takes the filter out of its group (groups left with
+ * a single filter are removed).
+ */
+export function setFilterPinned(
+  filters: GroupedFilter[],
+  groups: FilterGroupDefinition[],
+  index: number,
+  pinned: boolean
+): { filters: GroupedFilter[]; groups: FilterGroupDefinition[] } {
+  const updatedFilters = filters.map((filter, i) => i === index
+    ? { ...filter, $state: { store: (pinned ? 'globalState' : 'appState') as FilterStateStore } }
+    : filter
+  );
+
+  if (!pinned) {
+    return { filters: updatedFilters, groups };
+  }
+
+  const updatedGroups = pruneGroups(
+    groups.map(group => ({ ...group, filterIndices: group.filterIndices.filter(idx => idx !== index) }))
+  );
+
+  return {
+    filters: applyGroupMetadata(updatedFilters, updatedGroups),
+    groups: updatedGroups
+  };
+}
+
+// ============================================================================
+// GROUP HIERARCHY (nested groups)
+// ============================================================================
+//
+// A group lists every filter of its subtree in filterIndices; sub-groups
+// point to their parent with parentGroupId. A parentGroupId that matches no
+// group is treated as top-level.
+
+/**
+ * Gets the parent of a group, if it exists
+ */
+export function getParentGroup(
+  groups: FilterGroupDefinition[],
+  group: FilterGroupDefinition
+): FilterGroupDefinition | undefined {
+  return group.parentGroupId ? groups.find(g => g.id === group.parentGroupId && g.id !== group.id) : undefined;
+}
+
+/**
+ * Nesting level of a group (0 for top-level groups)
+ */
+export function getGroupDepth(groups: FilterGroupDefinition[], group: FilterGroupDefinition): number {
+  let depth = 0;
+  let parent = getParentGroup(groups, group);
+  while (parent && depth < groups.length) {
+    depth++;
+    parent = getParentGroup(groups, parent);
+  }
+  return depth;
+}
+
+/**
+ * Recomputes the groupMeta of every filter: filters belong to the innermost
+ * group containing them
+ */
+export function applyGroupMetadata<T extends GroupedFilter>(filters: T[], groups: FilterGroupDefinition[]): T[] {
+  return filters.map((filter, index) => {
+    const group = groups
+      .filter(g => g.filterIndices.includes(index))
+      .sort((a, b) => getGroupDepth(groups, b) - getGroupDepth(groups, a))[0];
+
+    if (!group) {
+      return filter.groupMeta ? { ...filter, groupMeta: undefined } : filter;
+    }
+
+    const sortedIndices = [...group.filterIndices].sort((a, b) => a - b);
+    return {
+      ...filter,
+      groupMeta: {
+        groupId: group.id,
+        groupType: group.type,
+        isGroupStart: sortedIndices[0] === index,
+        isGroupEnd: sortedIndices[sortedIndices.length - 1] === index,
+        parentGroupId: getParentGroup(groups, group)?.id
+      }
+    };
+  });
+}
+
+/**
+ * Adds a group over the given filters. It is nested inside the innermost
+ * group containing all of them, and groups lying inside the selection
+ * become its sub-groups.
+ *
+ * @returns null when the selection crosses a group boundary or matches an
+ * existing group
+ */
+export function addNestedGroup(
+  groups: FilterGroupDefinition[],
+  indices: number[],
+  type: 'AND' | 'OR',
+  id: string
+): FilterGroupDefinition[] | null {
+  const selection = Array.from(new Set(indices)).sort((a, b) => a - b);
+
+  let parent: FilterGroupDefinition | undefined;
+  for (const group of groups) {
+    const shared = group.filterIndices.filter(idx => selection.includes(idx)).length;
+    const containsSelection = shared === selection.length;
+    const insideSelection = shared === group.filterIndices.length;
+
+    if (containsSelection && insideSelection) {
+      return null; // Same filters as an existing group
+    }
+    if (shared > 0 && !containsSelection && !insideSelection) {
+      return null; // Crosses the group's boundary
+    }
+    if (containsSelection && (!parent || getGroupDepth(groups, group) > getGroupDepth(groups, parent))) {
+      parent = group;
+    }
+  }
+
+  const newGroup: FilterGroupDefinition = { id, type, filterIndices: selection, parentGroupId: parent?.id };
+
+  // Direct children of the new group's parent that fall inside the selection move into it
+  return [
+    ...groups.map(group => {
+      const isInside = group.filterIndices.every(idx => selection.includes(idx));
+      return isInside && getParentGroup(groups, group)?.id === parent?.id
+        ? { ...group, parentGroupId: id }
+        : group;
+    }),
+    newGroup
+  ];
+}
+
+/**
+ * Removes one level of grouping: the group's filters and sub-groups move up
+ * to its parent (or to the top level)
+ */
+export function ungroupLevel(groups: FilterGroupDefinition[], groupId: string): FilterGroupDefinition[] {
+  const removed = groups.find(g => g.id === groupId);
+  if (!removed) {
+    return groups;
+  }
+
+  const parentId = getParentGroup(groups, removed)?.id;
+  return groups
+    .filter(g => g.id !== groupId)
+    .map(g => g.parentGroupId === groupId ? { ...g, parentGroupId: parentId } : g);
+}
+
+/**
+ * Removes a filter and shifts the indices of every group; groups left with
+ * a single filter are ungrouped
+ */
+export function removeFilterAt<T extends GroupedFilter>(
+  filters: T[],
+  groups: FilterGroupDefinition[],
+  index: number
+): { filters: T[]; groups: FilterGroupDefinition[] } {
+  const updatedGroups = pruneGroups(groups.map(group => ({
+    ...group,
+    filterIndices: group.filterIndices
+      .filter(idx => idx !== index)
+      .map(idx => idx > index ? idx - 1 : idx)
+  })));
+
+  return {
+    filters: applyGroupMetadata(filters.filter((_, i) => i !== index), updatedGroups),
+    groups: updatedGroups
+  };
+}
+
+/**
+ * Ungroups (one level at a time) every group left with fewer than two
+ * filters, or with the same filters as one of its sub-groups
+ */
+function pruneGroups(groups: FilterGroupDefinition[]): FilterGroupDefinition[] {
+  const isRedundant = (group: FilterGroupDefinition, all: FilterGroupDefinition[]) =>
+    group.filterIndices.length < 2 ||
+    all.some(child => getParentGroup(all, child)?.id === group.id &&
+      child.filterIndices.length === group.filterIndices.length);
+
+  let result = groups;
+  let redundantGroup = result.find(g => isRedundant(g, result));
+  while (redundantGroup) {
+    result = ungroupLevel(result, redundantGroup.id);
+    redundantGroup = result.find(g => isRedundant(g, result));
+  }
+  return result;
+}
+
+// ============================================================================
+// FILTER ORDERING
+// ============================================================================
+
+/**
+ * Moves a filter to another position. Groups stay contiguous: the filter
+ * stays in its groups when dropped next to their other filters, and joins
+ * the groups it is dropped inside of.
+ */
+export function moveFilter<T extends GroupedFilter>(
+  filters: T[],
+  groups: FilterGroupDefinition[],
+  from: number,
+  to: number
+): { filters: T[]; groups: FilterGroupDefinition[] } {
+  const target = Math.max(0, Math.min(to, filters.length - 1));
+  if (from === target || from < 0 || from >= filters.length) {
+    return { filters, groups };
+  }
+
+  const reordered = [...filters];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(target, 0, moved);
+
+  const updatedGroups = pruneGroups(groups.map(group => {
+    const others = group.filterIndices
+      .filter(idx => idx !== from)
+      .map(idx => idx > from ? idx - 1 : idx)
+      .map(idx => idx >= target ? idx + 1 : idx);
+    const hasBefore = others.includes(target - 1);
+    const hasAfter = others.includes(target + 1);
+    const wasMember = group.filterIndices.includes(from);
+    const isMember = (hasBefore && hasAfter) || (wasMember && (hasBefore || hasAfter));
+
+    return {
+      ...group,
+      filterIndices: isMember ? [...others, target].sort((a, b) => a - b) : others
+    };
+  }));
+
+  return {
+    filters: applyGroupMetadata(reordered, updatedGroups),
+    groups: updatedGroups
+  };
+}
+
+/**
+ * Groups the given filters. Filters that are not adjacent are first moved
+ * right after the first selected one.
+ *
+ * @returns null when the filters cannot be grouped (see addNestedGroup)
+ */
+export function groupFilters<T extends GroupedFilter>(
+  filters: T[],
+  groups: FilterGroupDefinition[],
+  indices: number[],
+  type: 'AND' | 'OR',
+  id: string
+): { filters: T[]; groups: FilterGroupDefinition[] } | null {
+  const selection = Array.from(new Set(indices)).sort((a, b) => a - b);
+
+  // Moving filters left to the selection's start leaves later ones in place
+  let state = { filters, groups };
+  selection.forEach((index, position) => {
+    state = moveFilter(state.filters, state.groups, index, selection[0] + position);
+  });
+
+  const updatedGroups = addNestedGroup(
+    state.groups,
+    selection.map((_, position) => selection[0] + position),
+    type,
+    id
+  );
+  if (!updatedGroups) {
+    return null;
+  }
+
+  return {
+    filters: applyGroupMetadata(state.filters, updatedGroups),
+    groups: updatedGroups
+  };
+}
+
+// ============================================================================
+// BULK PILL ACTIONS
+// ============================================================================
+
+/**
+ * Disables or re-enables every filter (disabled filters stay in the bar but
+ * are left out of the query)
+ */
+export function setAllFiltersDisabled<T extends SimpleFilter>(filters: T[], disabled: boolean): T[] {
+  return filters.map(filter => ({ ...filter, disabled }));
+}
+
+/**
+ * Switches every filter between including and excluding matching documents
+ */
+export function invertAllFilters<T extends SimpleFilter>(filters: T[]): T[] {
+  return filters.map(filter => ({ ...filter, negate: !filter.negate }));
+}
+
+// ============================================================================
+// QUERY DSL DECOMPILER (Query DSL -> Grouped Filters)
+// ============================================================================
+
+/**
+ * Result of decompiling a Query DSL object back into editable filters
+ */
+export interface DecompiledQuery {
+  filters: GroupedFilter[];
+  groups: FilterGroupDefinition[];
+  ignoredKeys?: string[]; // Search body keys other than query (size, sort, aggs, ...)
+}
+
+/**
+ * Normalized boolean tree used by the decompiler
+ *
+ * Nested bools with the same operator are flattened, so the tree only
+ * alternates AND/OR levels. `source` keeps the DSL a branch came from so it
+ * can be kept verbatim when it is too deep for a single grouping level.
+ */
+type DslTreeNode =
+  | { kind: 'filter'; filter: SimpleFilter }
+  | { kind: 'AND' | 'OR'; children: DslTreeNode[]; source: any };
+
+/**
+ * Decompiles Elasticsearch Query DSL into grouped filters
+ *
+ * Inverse of buildEsQueryFromGroupedFilters:
+ * 1. bool must/filter -> AND, should (minimum_should_match 1) -> OR,
+ *    must_not -> negated operators (is_not, is_not_one_of, does_not_exist)
+ * 2. term, match, terms, range, exists, prefix, wildcard and query_string
+ *    become regular filters when the builder regenerates the exact clause
+ * 3. Anything else is kept as an opaque 'custom' filter holding the raw DSL
+ *
+ * Every candidate layout is rebuilt and compared with the input; if none
+ * matches, the whole query is returned as a single custom filter so nothing
+ * is ever lost. Of a full search body only the query is kept, the other keys
+ * are reported in ignoredKeys.
+ */
+export function decompileEsQuery(queryDSL: any): DecompiledQuery {
+  const { query, ignoredKeys } = unwrapQuery(queryDSL);
+  const tree = dslToTree(query);
+  const ignored = ignoredKeys.length > 0 ? { ignoredKeys } : {};
+
+  if (!tree) {
+    return { filters: [], groups: [], ...ignored };
+  }
+
+  const expected = treeSignature(tree);
+
+  // Prefer the flat chain layout, fall back to one level of groups
+  for (const expandHeads of [true, false]) {
+    const decompiled = treeToGroupedFilters(tree, expandHeads);
+    const rebuilt = buildEsQueryFromGroupedFilters(decompiled.filters, decompiled.groups).query;
+    if (treeSignature(dslToTree(rebuilt)) === expected) {
+      return { ...decompiled, ...ignored };
+    }
+  }
+
+  return { filters: [createCustomFilter(query)], groups: [], ...ignored };
+}
+
+/**
+ * Accepts both a full search body ({ query: {...}, size, sort, ... }) and a
+ * bare query; a search body's other keys are not filters and are left out
+ */
+function unwrapQuery(queryDSL: any): { query: any; ignoredKeys: string[] } {
+  if (isPlainObject(queryDSL) && isPlainObject(queryDSL.query)) {
+    return { query: queryDSL.query, ignoredKeys: Object.keys(queryDSL).filter(key => key !== 'query') };
+  }
+  return { query: queryDSL, ignoredKeys: [] };
+}
+
+/**
+ * Converts a query into a normalized boolean tree (null for match_all)
+ */
+function dslToTree(query: any): DslTreeNode | null {
+  if (!isPlainObject(query) || isEmptyQuery(query) || Object.keys(query).length === 0) {
+    return null;
+  }
+
+  if (Object.keys(query).length === 1 && isPlainObject(query.bool)) {
+    return boolToTree(query);
+  }
+
+  const filter = dslToFilter(query);
+  return { kind: 'filter', filter: filter || createCustomFilter(query) };
+}
+
+/**
+ * Converts a bool query into a tree node
+ */
+function boolToTree(query: any): DslTreeNode | null {
+  const bool = query.bool;
+  const supportedKeys = ['must', 'filter', 'should', 'must_not', 'minimum_should_match'];
+  if (Object.keys(bool).some(key => !supportedKeys.includes(key))) {
+    return { kind: 'filter', filter: createCustomFilter(query) };
+  }
+
+  const must = [...toArray(bool.must), ...toArray(bool.filter)];
+  const should = toArray(bool.should);
+  const mustNot = toArray(bool.must_not);
+  const msm = bool.minimum_should_match;
+
+  // Without must/filter, ES requires one should clause; with them, should
+  // clauses only affect scoring unless minimum_should_match is set
+  const shouldIsRequired = msm === 1 || msm === '1' || (msm === undefined && must.length === 0);
+  if (should.length > 0 && !shouldIsRequired) {
+    return { kind: 'filter', filter: createCustomFilter(query) };
+  }
+
+  const children: DslTreeNode[] = [];
+
+  must.forEach(clause => {
+    const node = dslToTree(clause);
+    if (node) children.push(node);
+  });
+
+  if (should.length > 0) {
+    const shouldSource = { bool: { should, minimum_should_match: 1 } };
+    const shouldChildren = should
+      .map(clause => dslToTree(clause))
+      .filter((node): node is DslTreeNode => node !== null);
+    if (shouldChildren.length < should.length) {
+      // A match_all inside should makes the whole OR match everything
+      return null;
+    }
+    children.push(combineTreeNodes('OR', shouldChildren, shouldSource));
+  }
+
+  mustNot.forEach(clause => {
+    const negated = negateDslClause(clause);
+    children.push({ kind: 'filter', filter: negated || createCustomFilter({ bool: { must_not: [clause] } }) });
+  });
+
+  if (children.length === 0) {
+    return null;
+  }
+
+  return combineTreeNodes('AND', children, query);
+}
+
+/**
+ * Combines children under an operator, flattening same-operator children
+ */
+function combineTreeNodes(kind: 'AND' | 'OR', children: DslTreeNode[], source: any): DslTreeNode {
+  if (children.length === 1) {
+    return children[0];
+  }
+
+  const flattened: DslTreeNode[] = [];
+  children.forEach(child => {
+    if (child.kind === kind) {
+      flattened.push(...child.children);
+    } else {
+      flattened.push(child);
+    }
+  });
+
+  return { kind, children: flattened, source };
+}
+
+/**
+ * Converts a must_not clause into a negated filter when one exists
+ */
+function negateDslClause(clause: any): SimpleFilter | null {
+  const filter = dslToFilter(clause);
+  if (!filter) {
+    return null;
+  }
+
+  const negatedOperators: { [key: string]: string } = {
+    is: 'is_not',
+    is_one_of: 'is_not_one_of',
+    exists: 'does_not_exist',
+  };
+  const negated = negatedOperators[filter.operator];
+
+  return negated ? { ...filter, operator: negated } : null;
+}
+
+/**
+ * Converts a leaf query into a filter
+ *
+ * Only shapes that buildSingleFilterQuery regenerates exactly are accepted,
+ * everything else returns null and is kept as a custom filter.
+ */
+function dslToFilter(query: any): SimpleFilter | null {
+  const keys = Object.keys(query);
+  if (keys.length !== 1) {
+    return null;
+  }
+
+  const type = keys[0];
+  const body = query[type];
+
+  if (type === 'query_string') {
+    if (isPlainObject(body) && Object.keys(body).length === 2 &&
+        typeof body.default_field === 'string' && typeof body.query === 'string' && body.query !== '') {
+      return { field: body.default_field, operator: 'query_string', value: body.query };
+    }
+    return null;
+  }
+
+  if (!isPlainObject(body) || Object.keys(body).length !== 1) {
+    return null;
+  }
+
+  const field = Object.keys(body)[0];
+  const param = body[field];
+  const isKeyword = field.endsWith('.keyword');
+
+  switch (type) {
+    case 'term':
+      // Non-keyword strings are rebuilt as match, so only keep exact shapes
+      if (isKeyword ? isScalar(param) : typeof param === 'number') {
+        return { field, operator: 'is', value: param };
+      }
+      return null;
+
+    case 'match':
+      if (!isKeyword && typeof param === 'string' && param !== '' && !isNumericString(param)) {
+        return { field, operator: 'is', value: param };
+      }
+      return null;
+
+    case 'terms':
+      if (Array.isArray(param)) {
+        return { field, operator: 'is_one_of', value: param };
+      }
+      return null;
+
+    case 'exists':
+      if (field === 'field' && typeof param === 'string') {
+        return { field: param, operator: 'exists' };
+      }
+      return null;
+
+    case 'range':
+      return rangeToFilter(field, param, isKeyword);
+
+    case 'prefix':
+      // Non-keyword prefixes are rebuilt as case-insensitive wildcards
+      if (isKeyword && typeof param === 'string' && param !== '') {
+        return { field, operator: 'prefix', value: param };
+      }
+      return null;
+
+    case 'wildcard':
+      if (isPlainObject(param) && Object.keys(param).length === 2 &&
+          param.case_insensitive === true && typeof param.value === 'string' && param.value !== '') {
+        return { field, operator: 'wildcard', value: param.value };
+      }
+      return null;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Converts a range body into a range filter
+ */
+function rangeToFilter(field: string, bounds: any, isKeyword: boolean): SimpleFilter | null {
+  if (!isPlainObject(bounds)) {
+    return null;
+  }
+
+  const filter: SimpleFilter = { field, operator: 'range' };
+
+  for (const op of Object.keys(bounds)) {
+    const bound = bounds[op];
+    // Falsy bounds are dropped by the builder and numeric strings are converted
+    if (!bound || !isScalar(bound) || (!isKeyword && isNumericString(bound))) {
+      return null;
+    }
+
+    if ((op === 'gt' || op === 'gte') && filter.minOperator === undefined) {
+      filter.minOperator = op;
+      filter.minValue = bound;
+    } else if ((op === 'lt' || op === 'lte') && filter.maxOperator === undefined) {
+      filter.maxOperator = op;
+      filter.maxValue = bound;
+    } else {
+      return null;
+    }
+  }
+
+  return filter.minOperator || filter.maxOperator ? filter : null;
+}
+
+/**
+ * Flattens the tree into filters and groups
+ *
+ * The builder folds ungrouped filters left-to-right, so with `expandHeads`
+ * the first child of each level is unrolled into the flat filter list
+ * ((a OR b) AND c -> a, OR b, AND c). Otherwise only the top level is used
+ * and second-level booleans become groups.
+ */
+function treeToGroupedFilters(tree: DslTreeNode, expandHeads: boolean): DecompiledQuery {
+  const decompiled: DecompiledQuery = { filters: [], groups: [] };
+  appendTreeChain(tree, decompiled, undefined, expandHeads);
+  return decompiled;
+}
+
+/**
+ * Appends a node as a left-to-right chain of filters and groups
+ */
+function appendTreeChain(
+  node: DslTreeNode,
+  decompiled: DecompiledQuery,
+  connector: 'AND' | 'OR' | undefined,
+  expandHeads: boolean
+): void {
+  if (node.kind === 'filter') {
+    decompiled.filters.push({ ...node.filter, logic: connector });
+    return;
+  }
+
+  const [head, ...rest] = node.children;
+  if (expandHeads) {
+    appendTreeChain(head, decompiled, connector, true);
+  } else {
+    appendTreeAtom(head, decompiled, connector);
+  }
+
+  rest.forEach((child, index) => {
+    // Ungrouped filters between two groups are folded on their own by the
+    // builder, so a chain can also be unrolled there
+    const previous = decompiled.filters[decompiled.filters.length - 1];
+    const next = rest[index + 1];
+    const betweenGroups = !!previous?.groupMeta && (!next || next.kind !== 'filter');
+    if (expandHeads && betweenGroups) {
+      appendTreeChain(child, decompiled, node.kind, true);
+    } else {
+      appendTreeAtom(child, decompiled, node.kind);
+    }
+  });
+}
+
+/**
+ * Appends a node as a single filter or a single group
+ */
+function appendTreeAtom(
+  node: DslTreeNode,
+  decompiled: DecompiledQuery,
+  connector: 'AND' | 'OR' | undefined
+): void {
+  if (node.kind === 'filter') {
+    decompiled.filters.push({ ...node.filter, logic: connector });
+    return;
+  }
+
+  const groupId = `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const filterIndices: number[] = [];
+
+  node.children.forEach((member, memberIndex) => {
+    // Deeper levels cannot be grouped, keep them as raw DSL
+    const memberFilter = member.kind === 'filter' ? member.filter : createCustomFilter(member.source);
+    filterIndices.push(decompiled.filters.length);
+    decompiled.filters.push({
+      ...memberFilter,
+      logic: memberIndex === 0 ? connector : node.kind,
+      groupMeta: {
+        groupId,
+        groupType: node.kind,
+        isGroupStart: memberIndex === 0,
+        isGroupEnd: memberIndex === node.children.length - 1,
+      },
+    });
+  });
+
+  decompiled.groups.push({ id: groupId, type: node.kind, filterIndices });
+}
+
+/**
+ * Stable string form of a tree, used to verify the round trip
+ */
+function treeSignature(node: DslTreeNode | null): string {
+  if (!node) {
+    return 'match_all';
+  }
+  if (node.kind === 'filter') {
+    const { field, operator, value, minValue, maxValue, minOperator, maxOperator } = node.filter;
+    return JSON.stringify({ field, operator, value, minValue, maxValue, minOperator, maxOperator });
+  }
+  return `${node.kind}(${node.children.map(treeSignature).join(',')})`;
+}
+
+/**
+ * Wraps raw DSL in a custom filter
+ */
+function createCustomFilter(query: any): SimpleFilter {
+  return { field: '', operator: 'custom', value: query };
+}
+
+function toArray(value: any): any[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isPlainObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isScalar(value: any): boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function isNumericString(value: any): boolean {
+  return typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value.trim());
+}
+
 // ============================================================================
 // EXPORTS
 // ============================================================================
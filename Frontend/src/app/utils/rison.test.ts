@@ -0,0 +1,80 @@
+/**
+ * Test Cases for Rison Encoding Utilities
+ *
+ * Values are shaped like the `_a` / `_g` URL params written by UrlStateService.
+ */
+
+import { decodeRison, encodeRison } from './rison';
+
+// ============================================================================
+// Test Cases
+// ============================================================================
+
+export function runAllTests() {
+  console.log('=== Running Rison Tests ===\n');
+
+  // Test 1: Encoding
+  testEncoding();
+
+  // Test 2: Round trip of the URL state
+  testRoundTrip();
+
+  // Test 3: Invalid input
+  testInvalidInput();
+
+  console.log('\n=== Tests Complete ===');
+}
+
+// ============================================================================
+// Individual Test Cases
+// ============================================================================
+
+function testEncoding() {
+  console.log('\n=== Encoding ===');
+
+  console.log('Literals:', encodeRison(true), encodeRison(false), encodeRison(null), encodeRison(undefined), encodeRison(NaN));
+  console.log('Expected: !t !f !n !n !n');
+
+  console.log('Strings:', encodeRison('status'), encodeRison('now-15m'), encodeRison("it's"), encodeRison('a b'), encodeRison(''));
+  console.log("Expected: status now-15m 'it!'s' 'a b' ''");
+
+  console.log('Object:', encodeRison({ from: 'now-15m', to: 'now', skipped: undefined, columns: ['@timestamp', 'waf_action'] }));
+  console.log("Expected: (from:now-15m,to:now,columns:!('@timestamp',waf_action))");
+}
+
+function testRoundTrip() {
+  console.log('\n=== Round Trip ===');
+
+  const appState = {
+    filters: [
+      { field: 'waf_action', operator: 'is', value: 'blocked', logic: 'AND', negate: true },
+      { field: 'status', operator: 'range', minValue: 400, maxValue: 499.5 },
+    ],
+    groups: [],
+    label: "Team's view (blocked!)",
+    sort: [['@timestamp', 'desc']],
+  };
+
+  const encoded = encodeRison(appState);
+  console.log('Encoded:', encoded);
+  const decoded = decodeRison(encoded);
+  console.log('Round trip equal:', JSON.stringify(decoded) === JSON.stringify(appState));
+  console.log('Expected: true');
+
+  console.log('Decoded:', JSON.stringify(decodeRison("(time:(from:now-1d,to:now),n:-1.5e-3,e:!(),o:())")));
+  console.log('Expected: {"time":{"from":"now-1d","to":"now"},"n":-0.0015,"e":[],"o":{}}');
+}
+
+function testInvalidInput() {
+  console.log('\n=== Invalid Input ===');
+
+  ["(a:'b'", '!x', '(a:1)extra', "'bad!escape'", '(:1)'].forEach(input => {
+    try {
+      decodeRison(input);
+      console.log(`${input}: decoded`);
+    } catch (error) {
+      console.log(`${input}: ${(error as Error).message}`);
+    }
+  });
+  console.log('Expected: an error for every input (unclosed object, unknown literal, trailing input, bad escape, missing key)');
+}
@@ -0,0 +1,205 @@
+/**
+ * Rison Encoding Utilities
+ *
+ * Compact, URL-friendly JSON notation used by Kibana for its `_g` / `_a`
+ * query params (https://github.com/Nanonid/rison):
+ * - Objects: (key:value,other:'quoted value')
+ * - Arrays: !(a,b,c)
+ * - Literals: !t (true), !f (false), !n (null)
+ * - Strings are quoted with ' only when needed; ! escapes ' and !
+ */
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+const NOT_ID_CHAR = ` '!:(),*@$`;
+const NOT_ID_START = '-0123456789';
+const ID_REGEX = new RegExp(`^[^${escapeForCharClass(NOT_ID_START + NOT_ID_CHAR)}][^${escapeForCharClass(NOT_ID_CHAR)}]*$`);
+
+/**
+ * Encodes a JSON-compatible value as rison
+ *
+ * Undefined object properties are skipped, like JSON.stringify does.
+ */
+export function encodeRison(value: any): string {
+  if (value === null || value === undefined) {
+    return '!n';
+  }
+
+  switch (typeof value) {
+    case 'boolean':
+      return value ? '!t' : '!f';
+
+    case 'number':
+      return isFinite(value) ? String(value).replace('+', '') : '!n';
+
+    case 'string':
+      return encodeRisonString(value);
+
+    case 'object':
+      if (Array.isArray(value)) {
+        return `!(${value.map(item => encodeRison(item)).join(',')})`;
+      }
+      const entries = Object.keys(value)
+        .filter(key => value[key] !== undefined)
+        .map(key => `${encodeRisonString(key)}:${encodeRison(value[key])}`);
+      return `(${entries.join(',')})`;
+
+    default:
+      return '!n';
+  }
+}
+
+function encodeRisonString(value: string): string {
+  if (ID_REGEX.test(value)) {
+    return value;
+  }
+  return `'${value.replace(/[!']/g, match => `!${match}`)}'`;
+}
+
+function escapeForCharClass(chars: string): string {
+  return chars.replace(/[-[\]{}()*+?.,\\^$|#\s]/g, '\\$&');
+}
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+/**
+ * Decodes a rison string
+ *
+ * @throws Error when the input is not valid rison
+ */
+export function decodeRison(input: string): any {
+  const parser = new RisonParser(input);
+  const value = parser.readValue();
+  parser.expectEnd();
+  return value;
+}
+
+/**
+ * Recursive-descent rison parser
+ */
+class RisonParser {
+  private index = 0;
+
+  constructor(private readonly input: string) {}
+
+  readValue(): any {
+    const char = this.next();
+
+    switch (char) {
+      case '!':
+        return this.readBang();
+      case '(':
+        return this.readObject();
+      case "'":
+        return this.readQuotedString();
+      case '-':
+      case '0': case '1': case '2': case '3': case '4':
+      case '5': case '6': case '7': case '8': case '9':
+        this.index--;
+        return this.readNumber();
+      case undefined:
+        throw this.error('Unexpected end of input');
+      default:
+        this.index--;
+        return this.readId();
+    }
+  }
+
+  expectEnd(): void {
+    if (this.index < this.input.length) {
+      throw this.error(`Unexpected '${this.input[this.index]}'`);
+    }
+  }
+
+  private readBang(): any {
+    const char = this.next();
+    switch (char) {
+      case 't': return true;
+      case 'f': return false;
+      case 'n': return null;
+      case '(': return this.readArray();
+      default: throw this.error(`Unknown literal '!${char ?? ''}'`);
+    }
+  }
+
+  private readArray(): any[] {
+    const items: any[] = [];
+    if (this.peek() === ')') {
+      this.index++;
+      return items;
+    }
+
+    while (true) {
+      items.push(this.readValue());
+      const char = this.next();
+      if (char === ')') return items;
+      if (char !== ',') throw this.error("Expected ',' or ')' in array");
+    }
+  }
+
+  private readObject(): { [key: string]: any } {
+    const result: { [key: string]: any } = {};
+    if (this.peek() === ')') {
+      this.index++;
+      return result;
+    }
+
+    while (true) {
+      const key = this.peek() === "'" ? (this.index++, this.readQuotedString()) : this.readId();
+      if (this.next() !== ':') throw this.error(`Expected ':' after '${key}'`);
+      result[key] = this.readValue();
+
+      const char = this.next();
+      if (char === ')') return result;
+      if (char !== ',') throw this.error("Expected ',' or ')' in object");
+    }
+  }
+
+  private readQuotedString(): string {
+    let result = '';
+    while (true) {
+      const char = this.next();
+      if (char === undefined) throw this.error('Unterminated string');
+      if (char === "'") return result;
+      if (char === '!') {
+        const escaped = this.next();
+        if (escaped !== '!' && escaped !== "'") throw this.error('Invalid string escape');
+        result += escaped;
+      } else {
+        result += char;
+      }
+    }
+  }
+
+  private readNumber(): number {
+    const match = /^-?\d+(\.\d+)?(e-?\d+)?/.exec(this.input.slice(this.index));
+    if (!match) throw this.error('Invalid number');
+    this.index += match[0].length;
+    return Number(match[0]);
+  }
+
+  private readId(): string {
+    const start = this.index;
+    while (this.index < this.input.length && !NOT_ID_CHAR.includes(this.input[this.index])) {
+      this.index++;
+    }
+    if (this.index === start) throw this.error(`Unexpected '${this.input[start] ?? ''}'`);
+    return this.input.slice(start, this.index);
+  }
+
+  private next(): string | undefined {
+    return this.input[this.index++];
+  }
+
+  private peek(): string | undefined {
+    return this.input[this.index];
+  }
+
+  private error(message: string): Error {
+    return new Error(`Rison: ${message} at position ${this.index}`);
+  }
+}
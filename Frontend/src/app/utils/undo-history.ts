@@ -0,0 +1,139 @@
+/**
+ * Undo / Redo History
+ *
+ * Keeps labelled snapshots of an editor's state ("removed host.name is
+ * web01"). Each entry stores the state before and after the change, so
+ * undo restores `before` and redo restores `after`. The oldest entries are
+ * dropped once the history reaches its limit.
+ *
+ * Snapshots are stored as given: callers pass copies when they keep
+ * mutating their state.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HistoryEntry<T> {
+  label: string;
+  before: T;
+  after: T;
+  mergeKey?: string; // Consecutive changes with the same key become one entry
+}
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+export class UndoHistory<T> {
+  private undoStack: HistoryEntry<T>[] = [];
+  private redoStack: HistoryEntry<T>[] = [];
+
+  constructor(private readonly limit: number = DEFAULT_HISTORY_LIMIT) {}
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Label of the change undo would revert
+   */
+  get undoLabel(): string | null {
+    return this.canUndo ? this.undoStack[this.undoStack.length - 1].label : null;
+  }
+
+  /**
+   * Label of the change redo would re-apply
+   */
+  get redoLabel(): string | null {
+    return this.canRedo ? this.redoStack[this.redoStack.length - 1].label : null;
+  }
+
+  /**
+   * Records a change and discards the redo entries. A change with the same
+   * mergeKey as the last one (e.g. typing in a value input) extends that
+   * entry instead of adding a new one.
+   */
+  record(label: string, before: T, after: T, mergeKey?: string): void {
+    const last = this.undoStack[this.undoStack.length - 1];
+    this.redoStack = [];
+
+    if (mergeKey && last && last.mergeKey === mergeKey) {
+      this.undoStack[this.undoStack.length - 1] = { ...last, label, after };
+      return;
+    }
+
+    this.undoStack.push({ label, before, after, mergeKey });
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.splice(0, this.undoStack.length - this.limit);
+    }
+  }
+
+  /**
+   * @returns the entry to revert (restore its `before`), or null
+   */
+  undo(): HistoryEntry<T> | null {
+    const entry = this.undoStack.pop();
+    if (!entry) {
+      return null;
+    }
+    this.redoStack.push({ ...entry, mergeKey: undefined });
+    return entry;
+  }
+
+  /**
+   * @returns the entry to re-apply (restore its `after`), or null
+   */
+  redo(): HistoryEntry<T> | null {
+    const entry = this.redoStack.pop();
+    if (!entry) {
+      return null;
+    }
+    this.undoStack.push(entry);
+    return entry;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
+
+// ============================================================================
+// KEYBOARD SHORTCUTS
+// ============================================================================
+
+/**
+ * Maps Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS, Ctrl+Y on Windows) to an action
+ */
+export function getUndoShortcut(event: KeyboardEvent): 'undo' | 'redo' | null {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) {
+    return null;
+  }
+
+  const key = event.key.toLowerCase();
+  if (key === 'z') {
+    return event.shiftKey ? 'redo' : 'undo';
+  }
+  if (key === 'y' && !event.shiftKey) {
+    return 'redo';
+  }
+  return null;
+}
+
+/**
+ * Text fields keep the browser's own undo
+ */
+export function isTextInputTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  if (!element || !element.tagName) {
+    return false;
+  }
+  return element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.isContentEditable;
+}
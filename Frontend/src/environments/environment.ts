@@ -36,9 +36,39 @@ export const environment = {
 // Kibana-like Web Logs Search
 webLogsSearch: API_URL + '/api/elastic/web-logs-search',
 
+closePit: API_URL + '/api/elastic/pit',
+
+aggregate: API_URL + '/api/elastic/aggregate',
+
 
 getfields:API_URL + '/api/elastic/fields',
 
 getfiledvalues:API_URL + '/api/elastic/field-values',
 
+columnLayouts:API_URL + '/api/elastic/column-layouts',
+
+savedSearches:API_URL + '/api/elastic/saved-searches',
+
+exportSearch:API_URL + '/api/elastic/export',
+
+getDocument:API_URL + '/api/elastic/doc',
+
+surroundingDocuments:API_URL + '/api/elastic/surrounding',
+
+alertRules:API_URL + '/api/elastic/alert-rules',
+
+liveEvents:API_URL + '/api/elastic/live-events/stream',
+
+// admin notifications
+getNotifications:API_URL + '/api/v1/users/getNotifications',
+
+getNotificationCount:API_URL + '/api/v1/users/getNotificationCount',
+
+markNotificationRead:API_URL + '/api/v1/users/markNotificationRead',
+
+notifications:API_URL + '/api/v1/users/notifications',
+
+// honeypot nodes of the user
+nodeDetail:API_URL + '/api/v1/users/nodeDetail',
+
   };
\ No newline at end of file